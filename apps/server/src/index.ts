@@ -54,11 +54,13 @@ Table: \`transactions\`
 | Column | Type | Notes |
 |--------|------|-------|
 | id | text | unique identifier |
-| date | timestamptz | full datetime |
+| date | timestamptz | full datetime; the session time zone is Africa/Lagos, the statements' own |
 | description | text | always populated, contains transaction details |
-| amount | integer | **positive = inflow/credit, negative = outflow/debit** (in kobo, divide by 100 for naira) |
-| category | text | spending category |
-| bank_source | text | which bank account (kuda, palmpay, wema, opay, gtb, access, zenith, uba, fcmb, sterling, standard-chartered) |
+| amount | integer | **positive = inflow/credit, negative = outflow/debit** (in minor units of \`currency\`, divide by 100) |
+| currency | text | NGN, USD, GBP or EUR. Domiciliary accounts hold foreign currency |
+| category | text | inflow or outflow |
+| spending_category | text | what the money was for: food, groceries, transport, rent, utilities, airtime_data, entertainment, betting, shopping, health, education, family, savings, transfers, cash, fees, income, refunds, other |
+| bank_source | text | which bank account (kuda, palmpay, wema, opay, gtb, access, zenith, uba, fcmb, firstbank, fidelity, sterling, moniepoint, standard-chartered, custom) |
 | reference | text | transaction reference |
 | counterparty_name | text/null | who sent or received money (often null) |
 | counterparty_account | text/null | account number |
@@ -66,7 +68,10 @@ Table: \`transactions\`
 | transaction_type | text/null | type classification |
 | narration | text/null | additional details |
 | raw_category | text/null | original category from bank |
-| balance_after | integer/null | balance after transaction (in kobo) |
+| balance_after | integer/null | balance after transaction (in minor units of \`currency\`) |
+| provisional | boolean | true for rows read from SMS alerts, replaced once the statement is imported |
+| tags | text[] | the user's own tags, e.g. \`WHERE 'business' = ANY(tags)\` |
+| excluded | boolean | true when the user left the row out of analytics; add \`NOT excluded\` to totals unless they ask about excluded rows |
 
 **Note:** \`counterparty_name\` is frequently null. Use \`COALESCE(counterparty_name, description) AS recipient\` when identifying who received or sent money.
 
@@ -76,6 +81,7 @@ Table: \`transactions\`
 - Expenses/Outflows: \`WHERE amount < 0\`
 - Income/Inflows: \`WHERE amount > 0\`
 - By bank: \`WHERE bank_source = 'gtb'\` (use lowercase bank names)
+- By spending category: \`WHERE spending_category = 'food'\`
 
 **Date filtering (PostgreSQL syntax):**
 - This month: \`WHERE date >= DATE_TRUNC('month', CURRENT_DATE)\`
@@ -90,9 +96,11 @@ Table: \`transactions\`
 - Day: \`EXTRACT(DAY FROM date)\`
 
 **Amount calculations:**
-- Total spending: \`SUM(ABS(amount)) / 100.0 AS total_naira\` (for outflows where amount < 0)
-- Total income: \`SUM(amount) / 100.0 AS total_naira\` (for inflows where amount > 0)
-- Display amount: \`ABS(amount) / 100.0 AS amount_naira\`
+- Total spending: \`SELECT currency, SUM(ABS(amount)) / 100.0 AS total FROM transactions WHERE amount < 0 AND NOT excluded GROUP BY currency\`
+- Total income: \`SELECT currency, SUM(amount) / 100.0 AS total FROM transactions WHERE amount > 0 AND NOT excluded GROUP BY currency\`
+- Display amount: \`ABS(amount) / 100.0 AS amount\`, selected alongside \`currency\`
+
+**Currencies:** Never add amounts in different currencies together. Always \`GROUP BY currency\` in totals, and report each currency separately. Most users only have NGN.
 
 **Multi-bank users:** Users may have transactions from multiple banks. When asked about a specific bank, filter by \`bank_source\`. To see all banks: \`SELECT DISTINCT bank_source FROM transactions\`
 
@@ -107,7 +115,7 @@ Table: \`transactions\`
 ## Responding to Users
 
 **Formatting:**
-- Money as ₦1,234,567 (naira symbol, comma separators, whole numbers)
+- Money in its own currency: ₦1,234,567 for NGN, $1,234 for USD, £1,234 for GBP, €1,234 for EUR (comma separators, whole numbers)
 - Dates in natural language: "January 15th", "last Tuesday", "3 days ago"
 - Bullet points for lists, tables for comparisons
 - Keep lists to 5–10 items; summarize larger sets
@@ -116,7 +124,7 @@ Table: \`transactions\`
 
 **When results are empty:** "I couldn't find any transactions matching that. Want to try a different time period or search term?"
 
-**When data is missing:** If categories are null or incomplete, mention it: "Some transactions don't have categories assigned, so this might not capture everything."
+**Categories are guesses:** Spending categories are worked out from merchant names and descriptions, so transfers to people usually land in \`transfers\`. When a breakdown by category matters, mention it: "Categories are matched from descriptions, so some spending may sit under transfers or other."
 
 ## Handling Ambiguity
 
@@ -13,6 +13,8 @@ function AppContent() {
 
   const result = useLiveQuery<{ id: string }>('SELECT id FROM transactions LIMIT 1');
   const hasTransactions = (result?.rows?.length ?? 0) > 0;
+  // A batch saves file by file, so stay on the upload view until it's finished and dismissed
+  const [isBatchImporting, setIsBatchImporting] = useState(false);
 
   useEffect(() => {
     initSettings();
@@ -44,7 +46,7 @@ function AppContent() {
 
   return (
     <div className="min-h-screen min-h-[100dvh]">
-      {hasTransactions ? <Dashboard /> : <UploadView />}
+      {hasTransactions && !isBatchImporting ? <Dashboard /> : <UploadView onBatchChange={setIsBatchImporting} />}
     </div>
   );
 }
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { DuplicateReview } from '~/components/upload/duplicate-review';
+import { ImportReport } from '~/components/upload/import-report';
+import {
+  BankType,
+  SpendingCategory,
+  TransactionCategory,
+  type ImportReport as ImportReportData,
+  type Transaction,
+} from '~/types';
+
+// A row without a time, stored as midnight on 15 Nov in Lagos
+const STATEMENT_MIDNIGHT = '2025-11-14T23:00:00.000Z';
+
+const tx: Transaction = {
+  id: 'gtb-1',
+  date: STATEMENT_MIDNIGHT,
+  createdAt: 0,
+  description: 'POS PURCHASE SHOPRITE',
+  amount: -450000,
+  currency: 'NGN',
+  category: TransactionCategory.Outflow,
+  spendingCategory: SpendingCategory.Groceries,
+  bankSource: BankType.GTB,
+  reference: 'ref',
+  meta: { hasTime: false },
+};
+
+describe('ImportReport', () => {
+  it('dates balance breaks on the statement calendar', () => {
+    const report: ImportReportData = {
+      stats: { totalRows: 2, successfulTransactions: 2, skippedRows: 0, errors: 0, processingTimeMs: 5 },
+      failedRows: [],
+      skippedRows: [],
+      reconciliation: {
+        status: 'unreconciled',
+        checked: 1,
+        breaks: [
+          {
+            transactionId: tx.id,
+            date: STATEMENT_MIDNIGHT,
+            description: tx.description,
+            expectedBalance: 100000,
+            actualBalance: 90000,
+          },
+        ],
+      },
+    };
+
+    render(<ImportReport report={report} />);
+
+    expect(screen.getByText('15/11/2025')).toBeInTheDocument();
+    expect(screen.queryByText('2025-11-14')).not.toBeInTheDocument();
+  });
+});
+
+describe('DuplicateReview', () => {
+  it('dates both transactions on the statement calendar', () => {
+    const review = {
+      file: new File([''], 'statement.pdf'),
+      fileHash: 'hash',
+      result: { transactions: [tx] },
+      matches: [{ incoming: tx, existing: { ...tx, id: 'gtb-2' }, similarity: 0.9 }],
+    };
+
+    render(<DuplicateReview review={review} onConfirm={() => {}} onCancel={() => {}} />);
+
+    expect(screen.getAllByText('15/11/2025')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,116 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { deleteImport, getAllTransactions, openDb, saveImport, saveImports } from '~/lib/db';
+import {
+  BankType,
+  SpendingCategory,
+  TransactionCategory,
+  type StatementRecord,
+  type Transaction,
+} from '~/types';
+
+type Db = Awaited<ReturnType<typeof openDb>>;
+
+function tx(overrides: Partial<Transaction>): Transaction {
+  return {
+    id: 'gtb-1',
+    date: '2025-11-15T09:30:00.000Z',
+    createdAt: 0,
+    description: 'POS PURCHASE SHOPRITE',
+    amount: -450000,
+    currency: 'NGN',
+    category: TransactionCategory.Outflow,
+    spendingCategory: SpendingCategory.Groceries,
+    bankSource: BankType.GTB,
+    reference: 'ref',
+    ...overrides,
+  };
+}
+
+const statement: StatementRecord = {
+  id: 'statement-1',
+  bankSource: BankType.GTB,
+  fileName: 'gtb.pdf',
+  fileHash: 'hash-1',
+  importedAt: 0,
+};
+
+const unreconciled = { status: 'unavailable' as const, checked: 0, breaks: [] };
+
+describe('undoing an import', () => {
+  let db: Db;
+
+  beforeEach(async () => {
+    db = await openDb('memory://');
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('brings back the alerts the statement replaced', async () => {
+    const alert = tx({ id: 'gtb-alert-1', meta: { provisional: true, tags: ['food'] } });
+    await saveImport(db, {
+      transactions: [alert],
+      record: { id: 'alerts', createdAt: 0, fileName: 'sms.txt', bankSource: BankType.GTB, reconciliation: unreconciled },
+    });
+
+    await saveImport(db, {
+      transactions: [tx({ id: 'gtb-2' })],
+      statement,
+      record: {
+        id: 'statement-import',
+        createdAt: 0,
+        fileName: 'gtb.pdf',
+        bankSource: BankType.GTB,
+        reconciliation: unreconciled,
+        statementId: statement.id,
+      },
+      replacedAlertIds: [alert.id],
+    });
+    expect((await getAllTransactions(db)).map((t) => t.id)).toEqual(['gtb-2']);
+
+    await deleteImport(db, 'statement-import');
+
+    const [restored, ...rest] = await getAllTransactions(db);
+    expect(rest).toEqual([]);
+    expect(restored.id).toBe(alert.id);
+    expect(restored.meta?.provisional).toBe(true);
+    expect(restored.meta?.tags).toEqual(['food']);
+
+    // The restored alert still belongs to its own import
+    await deleteImport(db, 'alerts');
+    expect(await getAllTransactions(db)).toEqual([]);
+  });
+});
+
+describe('saving several imports', () => {
+  let db: Db;
+
+  beforeEach(async () => {
+    db = await openDb('memory://');
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('saves none of them when one fails', async () => {
+    const record = (id: string, bankSource: BankType) => ({
+      id,
+      createdAt: 0,
+      fileName: 'sms.txt',
+      bankSource,
+      reconciliation: unreconciled,
+    });
+
+    await expect(
+      saveImports(db, [
+        { transactions: [tx({ id: 'gtb-alert-1' })], record: record('gtb-alerts', BankType.GTB) },
+        { transactions: [tx({ id: 'kuda-alert-1', bankSource: BankType.Kuda })], record: record('gtb-alerts', BankType.Kuda) },
+      ])
+    ).rejects.toThrow();
+
+    expect(await getAllTransactions(db)).toEqual([]);
+  });
+});
@@ -7,6 +7,7 @@ import {
   emptyFilterState,
   type FilterState,
 } from '~/lib/filters';
+import { SpendingCategory } from '~/types';
 
 describe('filters', () => {
   describe('isFilterEmpty', () => {
@@ -19,6 +20,11 @@ describe('filters', () => {
       expect(isFilterEmpty(state)).toBe(false);
     });
 
+    it('returns false when category filter is set', () => {
+      const state: FilterState = { ...emptyFilterState, categories: [SpendingCategory.Food] };
+      expect(isFilterEmpty(state)).toBe(false);
+    });
+
     it('returns false when flow filter is set', () => {
       const state: FilterState = { ...emptyFilterState, flow: 'in' };
       expect(isFilterEmpty(state)).toBe(false);
@@ -63,6 +69,7 @@ describe('filters', () => {
     it('counts all active filters', () => {
       const state: FilterState = {
         banks: ['GTB'],
+        categories: [],
         flow: 'in',
         amountMin: 100,
         amountMax: null,
@@ -87,6 +94,13 @@ describe('filters', () => {
       expect(result.params).toEqual(['GTB', 'Kuda']);
     });
 
+    it('builds parameterized query for category filter', () => {
+      const state: FilterState = { ...emptyFilterState, categories: [SpendingCategory.Food, SpendingCategory.Rent] };
+      const result = buildWhereClause(state, '');
+      expect(result.sql).toBe('spending_category IN ($1, $2)');
+      expect(result.params).toEqual(['food', 'rent']);
+    });
+
     it('builds query for inflow filter', () => {
       const state: FilterState = { ...emptyFilterState, flow: 'in' };
       const result = buildWhereClause(state, '');
@@ -143,6 +157,7 @@ describe('filters', () => {
     it('combines multiple filters with AND', () => {
       const state: FilterState = {
         banks: ['GTB'],
+        categories: [],
         flow: 'in',
         amountMin: 100,
         amountMax: null,
@@ -188,6 +203,15 @@ describe('filters', () => {
       expect(chips[0].label).toBe('3 banks');
     });
 
+    it('formats category chips with their labels', () => {
+      expect(formatFilterChips({ ...emptyFilterState, categories: [SpendingCategory.AirtimeData] })[0].label).toBe(
+        'airtime & data'
+      );
+      expect(
+        formatFilterChips({ ...emptyFilterState, categories: [SpendingCategory.Food, SpendingCategory.Rent] })[0].label
+      ).toBe('2 categories');
+    });
+
     it('formats inflow as credit', () => {
       const state: FilterState = { ...emptyFilterState, flow: 'in' };
       const chips = formatFilterChips(state);
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { migrateIdFields, type StoredIdFields } from '~/lib/db/migrations';
+import { noopLogger } from '~/lib/parsers/base';
+import { GtbParser } from '~/lib/parsers/gtb';
+import { stableHash, transactionKey } from '~/lib/parsers/ids';
+import { KudaParser } from '~/lib/parsers/kuda';
+import type { Transaction } from '~/types';
+
+const gtb = new GtbParser(noopLogger).parseTransaction([
+  '15-Nov-2025',
+  '15-Nov-2025',
+  '',
+  '4,500.00',
+  '',
+  '95,500.00',
+  'POS PURCHASE CHICKEN REPUBLIC IKEJA',
+])!;
+
+const kuda = new KudaParser(noopLogger).parseTransaction([
+  '22/01/23 12:46:35', '', '₦10,000.00', '', '', '', 'Transfer', '', 'John Doe/0123456789/GTBank', '', 'rent', '', '₦15,000.00',
+])!;
+
+/** A transaction as an older scheme stored it */
+function stored(tx: Transaction, overrides: Partial<StoredIdFields>): StoredIdFields {
+  return {
+    id: tx.id,
+    date: new Date(tx.date),
+    value_date: tx.meta?.valueDate ? new Date(tx.meta.valueDate) : null,
+    amount: tx.amount,
+    reference: tx.reference,
+    description: tx.description,
+    currency: tx.currency,
+    ...overrides,
+  };
+}
+
+describe('migrateIdFields', () => {
+  it('gives a scheme 1 row the ID its parser gives it now', () => {
+    const migrated = migrateIdFields(stored(kuda, { id: 'kuda-1x9f3k' }), 1);
+
+    expect(migrated.id).toBe(kuda.id);
+    expect(migrated.date.toISOString()).toBe(kuda.date);
+  });
+
+  it('moves UTC midnight dates to midnight in statement time, keeping the occurrence', () => {
+    const utcMidnight = new Date('2025-11-15T00:00:00.000Z');
+    const oldId = `gtb-${stableHash(transactionKey(utcMidnight.toISOString(), gtb.amount, gtb.reference, gtb.description))}-2`;
+
+    const migrated = migrateIdFields(stored(gtb, { id: oldId, date: utcMidnight, value_date: utcMidnight }), 2);
+
+    expect(migrated.id).toBe(`${gtb.id}-2`);
+    expect(migrated.date.toISOString()).toBe(gtb.date);
+    expect(migrated.valueDate?.toISOString()).toBe(gtb.meta?.valueDate);
+    expect(gtb.date).toBe('2025-11-14T23:00:00.000Z');
+  });
+
+  it('leaves dates with a time of day alone', () => {
+    const timed = new Date('2025-11-15T09:30:00.000Z');
+    const migrated = migrateIdFields(stored(gtb, { id: 'sc-abc123', date: timed, value_date: null }), 2);
+
+    expect(migrated.date).toBe(timed);
+    expect(migrated.id).toMatch(/^sc-[0-9a-f]{28}$/);
+  });
+
+  it('does not move midnight again once dates are in statement time', () => {
+    // 01:00 in Lagos, from a statement that prints times
+    const timed = new Date('2025-11-15T00:00:00.000Z');
+
+    expect(migrateIdFields(stored(gtb, { date: timed, value_date: null }), 3).date).toBe(timed);
+  });
+
+  it('keeps naira IDs and moves other currencies to their own', () => {
+    expect(migrateIdFields(stored(kuda, {}), 3).id).toBe(kuda.id);
+    expect(migrateIdFields(stored(kuda, { currency: 'USD' }), 3).id).not.toBe(kuda.id);
+  });
+});
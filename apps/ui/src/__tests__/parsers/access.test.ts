@@ -278,7 +278,7 @@ describe('AccessParser', () => {
       expect(result!.meta?.balanceAfter).toBe(10100000);
     });
 
-    it('stores value date as sessionId', () => {
+    it('stores the value date apart from session IDs', () => {
       const row = [
         '01-JAN-25',
         '02-JAN-25',
@@ -289,7 +289,9 @@ describe('AccessParser', () => {
       ];
 
       const result = parser.parseTransaction(row);
-      expect(result!.meta?.sessionId).toBe('02-JAN-25');
+      expect(result!.meta?.valueDate).toBe('2025-01-01T23:00:00.000Z');
+      expect(result!.meta?.hasTime).toBe(false);
+      expect(result!.meta?.sessionId).toBeUndefined();
     });
 
     it('generates unique IDs', () => {
@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ALERT_FORMATS,
+  AlertParser,
+  detectAlertBank,
+  matchAlerts,
+  parseAlerts,
+  readSmsBackup,
+  splitPastedAlerts,
+} from '~/lib/parsers/alerts';
+import { noopLogger } from '~/lib/parsers/base';
+import { BankType, SpendingCategory, TransactionCategory, TransactionType, type Transaction } from '~/types';
+
+function parserFor(bank: BankType): AlertParser {
+  return new AlertParser(ALERT_FORMATS.find((f) => f.bankType === bank)!, noopLogger);
+}
+
+function parse(bank: BankType, text: string, receivedAt?: number): Transaction | null {
+  return parserFor(bank).parseTransaction([text, receivedAt]);
+}
+
+function tx(overrides: Partial<Transaction>): Transaction {
+  return {
+    id: 'gtb-1',
+    date: '2025-11-14T23:00:00.000Z',
+    createdAt: 0,
+    description: 'POS PURCHASE SHOPRITE LEKKI',
+    amount: -500000,
+    currency: 'NGN',
+    category: TransactionCategory.Outflow,
+    spendingCategory: SpendingCategory.Groceries,
+    bankSource: BankType.GTB,
+    reference: 'ref',
+    ...overrides,
+  };
+}
+
+describe('AlertParser', () => {
+  it('reads GTBank alerts', () => {
+    const result = parse(
+      BankType.GTB,
+      'Acct: 012****789\nAmt: NGN5,000.00 DR\nDesc: POS PURCHASE SHOPRITE LEKKI\nAvail Bal: NGN95,000.00\nDate: 2025-11-15 14:32'
+    );
+
+    expect(result).not.toBeNull();
+    expect(result!.amount).toBe(-500000);
+    expect(result!.category).toBe(TransactionCategory.Outflow);
+    expect(result!.description).toBe('POS PURCHASE SHOPRITE LEKKI');
+    expect(result!.date).toBe('2025-11-15T13:32:00.000Z');
+    expect(result!.bankSource).toBe(BankType.GTB);
+    expect(result!.id).toMatch(/^alert-gtb-/);
+    expect(result!.meta).toMatchObject({
+      balanceAfter: 9500000,
+      accountTail: '789',
+      provisional: true,
+      hasTime: true,
+      type: TransactionType.CardPayment,
+    });
+  });
+
+  it('reads alerts written on one line', () => {
+    const result = parse(
+      BankType.GTB,
+      'Acct: ******1234 Amt: NGN1,000.00 CR Desc: TRF FROM ADA OBI Avail Bal: NGN11,000.00 Date: 15-Nov-2025 09:05'
+    );
+
+    expect(result!.amount).toBe(100000);
+    expect(result!.description).toBe('TRF FROM ADA OBI');
+    expect(result!.meta?.accountTail).toBe('1234');
+    expect(result!.meta?.balanceAfter).toBe(1100000);
+  });
+
+  it('reads Access Bank alerts with the direction on its own line', () => {
+    const result = parse(
+      BankType.Access,
+      'Debit\nAmt:NGN5,000.00\nAcc:012**789\nDesc:TRF TO JOHN DOE\nDate:15/11/2025\nAvail Bal:NGN95,000.00'
+    );
+
+    expect(result!.amount).toBe(-500000);
+    expect(result!.date).toBe('2025-11-14T23:00:00.000Z');
+    expect(result!.meta?.hasTime).toBe(false);
+    expect(result!.meta?.type).toBe(TransactionType.Transfer);
+  });
+
+  it('reads Zenith alerts with the direction before the amount', () => {
+    const result = parse(
+      BankType.Zenith,
+      'Acct:101**789\nDT:15/11/2025:02:32:10PM\nDESC:NIP TRF FROM JOHN DOE\nCR Amt:5,000.00\nBal:95,000.00'
+    );
+
+    expect(result!.amount).toBe(500000);
+    expect(result!.currency).toBe('NGN');
+    expect(result!.date).toBe('2025-11-15T13:32:10.000Z');
+  });
+
+  it('reads UBA alerts with a transaction type field', () => {
+    const result = parse(
+      BankType.UBA,
+      'Txn: Credit\nAc:101XXXX789\nAmt:NGN 5,000.00\nDes:TRF FROM JOHN DOE\nDate:15-Nov-2025 14:32\nBal:NGN 95,000.00'
+    );
+
+    expect(result!.amount).toBe(500000);
+    expect(result!.meta?.accountTail).toBe('789');
+  });
+
+  it('reads First Bank alerts that put the direction before the account', () => {
+    const result = parse(
+      BankType.FirstBank,
+      'Debit: 3XXXXXX789\nAmt: NGN5,000.00\nDate: 15-NOV-2025 14:32\nDesc: POS/SHOPRITE\nBal: NGN95,000.00CR'
+    );
+
+    expect(result!.amount).toBe(-500000);
+    expect(result!.meta?.accountTail).toBe('789');
+    expect(result!.meta?.balanceAfter).toBe(9500000);
+  });
+
+  it('reads overdrawn balances as negative', () => {
+    const result = parse(BankType.Fidelity, 'Acct:*******789\nDR Amt:NGN5,000.00\nDesc:ATM WDL\nBal:NGN2,000.00DR\nDate:15-11-2025 14:32');
+
+    expect(result!.meta?.balanceAfter).toBe(-200000);
+  });
+
+  it('reads sentence alerts from fintech apps', () => {
+    const sent = parse(BankType.Kuda, 'You just sent ₦5,000.00 to JOHN DOE. Your balance is ₦95,000.00.', Date.UTC(2025, 10, 15, 13, 32));
+    const received = parse(BankType.PalmPay, 'You received ₦2,500.50 from ADA OBI on 15/11/2025 09:05.');
+
+    expect(sent!.amount).toBe(-500000);
+    expect(sent!.description).toBe('Transfer to JOHN DOE');
+    expect(sent!.meta?.counterpartyName).toBe('JOHN DOE');
+    expect(sent!.meta?.balanceAfter).toBe(9500000);
+    expect(sent!.date).toBe('2025-11-15T13:32:00.000Z');
+
+    expect(received!.amount).toBe(250050);
+    expect(received!.description).toBe('Transfer from ADA OBI');
+    expect(received!.date).toBe('2025-11-15T08:05:00.000Z');
+  });
+
+  it('reads "your account has been debited" alerts', () => {
+    const result = parse(
+      BankType.StandardChartered,
+      'Your a/c **4321 has been debited with NGN12,000.00 on 15-Nov-2025. Desc: DSTV SUBSCRIPTION. Avail Bal: NGN88,000.00'
+    );
+
+    expect(result!.amount).toBe(-1200000);
+    expect(result!.description).toBe('DSTV SUBSCRIPTION');
+    expect(result!.meta?.accountTail).toBe('4321');
+  });
+
+  it('keeps the currency of domiciliary alerts', () => {
+    const result = parse(BankType.GTB, 'Acct: 012****789\nAmt: USD250.00 DR\nDesc: CARD PAYMENT\nDate: 15-Nov-2025 14:32');
+
+    expect(result!.currency).toBe('USD');
+    expect(result!.amount).toBe(-25000);
+  });
+
+  it('ignores messages that are not alerts', () => {
+    expect(parse(BankType.GTB, 'Your OTP is 123456. Do not share it with anyone.')).toBeNull();
+    expect(parse(BankType.GTB, 'Enjoy 10% off at Shoprite this weekend!')).toBeNull();
+  });
+
+  it('fails alerts with no date and no received time', () => {
+    const result = parserFor(BankType.GTB).parseTransactionSafe(['Acct: 012****789 Amt: NGN5,000.00 DR Desc: POS'], 0);
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error?.message).toMatch(/no date/);
+  });
+});
+
+describe('detectAlertBank', () => {
+  it('uses the SMS sender first', () => {
+    expect(detectAlertBank({ text: 'Acct: 012****789', sender: 'GTBank' })).toBe(BankType.GTB);
+    expect(detectAlertBank({ text: 'Acct: 012****789', sender: 'ZENITHBANK' })).toBe(BankType.Zenith);
+  });
+
+  it('falls back to the bank the text names', () => {
+    expect(detectAlertBank({ text: 'Access Bank Debit Amt:NGN5,000.00' })).toBe(BankType.Access);
+    expect(detectAlertBank({ text: 'Amt: NGN5,000.00' })).toBeNull();
+  });
+});
+
+describe('splitPastedAlerts', () => {
+  it('splits on blank lines', () => {
+    expect(splitPastedAlerts('Acct: 1\nAmt: 2\n\n  \nAcct: 3\r\n\r\nAcct: 4\n')).toEqual([
+      { text: 'Acct: 1\nAmt: 2' },
+      { text: 'Acct: 3' },
+      { text: 'Acct: 4' },
+    ]);
+  });
+});
+
+describe('readSmsBackup', () => {
+  it('reads received messages and decodes entities', () => {
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes" ?>',
+      '<smses count="3">',
+      '  <sms protocol="0" address="GTBank" date="1763213520000" type="1" body="Acct: 012****789&#10;Amt: NGN5,000.00 DR&#10;Desc: A &amp; B &gt; C" read="1" />',
+      '  <sms protocol="0" address="08031234567" date="1763213520000" type="2" body="sent by me" />',
+      "  <sms address='Kuda' date='1763213520000' type='1' body='You just sent ₦1.00 to ADA' />",
+      '</smses>',
+    ].join('\n');
+
+    expect(readSmsBackup(xml)).toEqual([
+      { text: 'Acct: 012****789\nAmt: NGN5,000.00 DR\nDesc: A & B > C', sender: 'GTBank', receivedAt: 1763213520000 },
+      { text: 'You just sent ₦1.00 to ADA', sender: 'Kuda', receivedAt: 1763213520000 },
+    ]);
+  });
+});
+
+describe('parseAlerts', () => {
+  it('reads each message as its bank and counts the rest', () => {
+    const result = parseAlerts(
+      [
+        { text: 'Acct: 012****789 Amt: NGN5,000.00 DR Desc: POS', sender: 'GTBank', receivedAt: 1763213520000 },
+        { text: 'Your OTP is 1234', sender: 'GTBank' },
+        { text: 'Hello from mum', sender: '08031234567' },
+        { text: 'Acct: 012****789 Amt: NGN5,000.00 DR Desc: POS', sender: 'GTBank' },
+      ],
+      null,
+      noopLogger
+    );
+
+    expect(result.transactions).toHaveLength(1);
+    expect(result.skipped).toBe(2);
+    expect(result.failed).toBe(1);
+  });
+
+  it('reads unnamed messages as the fallback bank', () => {
+    const result = parseAlerts([{ text: 'Amt: NGN5,000.00 DR Desc: POS Date: 15/11/2025' }], BankType.Wema);
+
+    expect(result.transactions[0].bankSource).toBe(BankType.Wema);
+  });
+
+  it('tells identical alerts apart', () => {
+    const alert = { text: 'Amt: NGN100.00 DR Desc: SMS CHARGE Date: 15/11/2025', sender: 'GTBank' };
+    const { transactions } = parseAlerts([alert, alert], null);
+
+    expect(transactions[1].id).toBe(`${transactions[0].id}-1`);
+  });
+});
+
+describe('matchAlerts', () => {
+  it('pairs alerts with statement rows a few days apart', () => {
+    const alert = tx({ id: 'alert', date: '2025-11-14T13:32:00.000Z', meta: { provisional: true, accountTail: '789' } });
+    const row = tx({ id: 'row', date: '2025-11-16T23:00:00.000Z' });
+
+    expect(matchAlerts([alert], [row], '0123456789')).toEqual([{ alert, transaction: row }]);
+  });
+
+  it('needs the same amount, currency and bank, and a matching account', () => {
+    const alert = tx({ id: 'alert', meta: { accountTail: '789' } });
+
+    expect(matchAlerts([alert], [tx({ amount: -500001 })])).toEqual([]);
+    expect(matchAlerts([alert], [tx({ currency: 'USD' })])).toEqual([]);
+    expect(matchAlerts([alert], [tx({ bankSource: BankType.Access })])).toEqual([]);
+    expect(matchAlerts([alert], [tx({ date: '2025-11-20T23:00:00.000Z' })])).toEqual([]);
+    expect(matchAlerts([alert], [tx({})], '0123456780')).toEqual([]);
+  });
+
+  it('matches each side once, closest dates first', () => {
+    const first = tx({ id: 'a1', date: '2025-11-14T10:00:00.000Z' });
+    const second = tx({ id: 'a2', date: '2025-11-16T10:00:00.000Z' });
+    const early = tx({ id: 'r1', date: '2025-11-13T23:00:00.000Z' });
+    const late = tx({ id: 'r2', date: '2025-11-15T23:00:00.000Z' });
+
+    const matches = matchAlerts([first, second], [early, late]);
+
+    expect(matches.map((m) => [m.alert.id, m.transaction.id])).toEqual([
+      ['a1', 'r1'],
+      ['a2', 'r2'],
+    ]);
+  });
+});
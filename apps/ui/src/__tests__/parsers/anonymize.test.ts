@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { StatementAnonymizer, buildFixture, possibleNames, statementNames } from '~/lib/parsers/anonymize';
+import { KudaParser } from '~/lib/parsers/kuda';
+import { reconcileBalances } from '~/lib/parsers/reconcile';
+import type { RawRow, Transaction } from '~/types';
+
+function naira(kobo: number): string {
+  return (kobo / 100).toLocaleString('en-US', { minimumFractionDigits: 2 });
+}
+
+describe('StatementAnonymizer', () => {
+  it('leaves dates and times alone', () => {
+    const anonymizer = new StatementAnonymizer({ seed: 1 });
+
+    expect(anonymizer.text('22/01/23 12:46:35')).toBe('22/01/23 12:46:35');
+    expect(anonymizer.text('15-Nov-2025')).toBe('15-Nov-2025');
+    expect(anonymizer.text('2025-11-15')).toBe('2025-11-15');
+  });
+
+  it('scales amounts by a whole number and keeps their format', () => {
+    const anonymizer = new StatementAnonymizer({ seed: 1 });
+    const { scale } = anonymizer;
+
+    expect(anonymizer.text('₦10,000.50')).toBe(`₦${naira(1000050 * scale)}`);
+    expect(anonymizer.text('NGN5,000.00 DR')).toBe(`NGN${naira(500000 * scale)} DR`);
+    expect(anonymizer.text('-250.75')).toBe(`-${(250.75 * scale).toFixed(2)}`);
+    expect(Number.isInteger(scale)).toBe(true);
+    expect(scale).toBeGreaterThan(1);
+  });
+
+  it('scales cells that hold only a number', () => {
+    const anonymizer = new StatementAnonymizer({ seed: 1 });
+    const { scale } = anonymizer;
+
+    expect(anonymizer.row([5000, 150000, 1234.5, -20])).toEqual([5000 * scale, 150000 * scale, 1234.5 * scale, -20 * scale]);
+    expect(anonymizer.row(['5000', '1234.5'])).toEqual([String(5000 * scale), (1234.5 * scale).toFixed(1)]);
+  });
+
+  it('keeps account numbers in their own cell from being scaled', () => {
+    const anonymizer = new StatementAnonymizer({ seed: 1 });
+    const [account] = anonymizer.row(['0123456789']);
+
+    expect(account).not.toBe('0123456789');
+    expect(account).toBe(anonymizer.text('0123456789'));
+  });
+
+  it('replaces account numbers the same way everywhere', () => {
+    const anonymizer = new StatementAnonymizer({ seed: 1 });
+
+    const account = anonymizer.text('0123456789');
+    expect(account).not.toBe('0123456789');
+    expect(account).toMatch(/^\d{10}$/);
+    expect(anonymizer.text('TRF TO 0123456789')).toBe(`TRF TO ${account}`);
+  });
+
+  it('keeps the network prefix of phone numbers', () => {
+    const anonymizer = new StatementAnonymizer({ seed: 1 });
+    const phone = anonymizer.text('08031234567');
+
+    expect(phone).toMatch(/^0803\d{7}$/);
+    expect(phone).not.toBe('08031234567');
+  });
+
+  it('keeps the letters of references', () => {
+    const anonymizer = new StatementAnonymizer({ seed: 1 });
+    const reference = anonymizer.text('FT23319ABC12');
+
+    expect(reference).toMatch(/^FT\d{5}ABC\d{2}$/);
+    expect(reference).not.toBe('FT23319ABC12');
+  });
+
+  it('replaces names in any case', () => {
+    const anonymizer = new StatementAnonymizer({ seed: 1, names: ['John Doe'] });
+
+    const upper = anonymizer.text('TRF FROM JOHN DOE');
+    expect(upper).toMatch(/^TRF FROM [A-Z]+ [A-Z]+$/);
+    expect(upper).not.toContain('JOHN');
+    expect(upper).not.toContain('DOE');
+
+    const [, , first, last] = upper.split(' ');
+    expect(anonymizer.text('John Doe')).toBe(
+      `${first[0]}${first.slice(1).toLowerCase()} ${last[0]}${last.slice(1).toLowerCase()}`
+    );
+  });
+
+  it('keeps words parsers depend on even inside names', () => {
+    const anonymizer = new StatementAnonymizer({ seed: 1, names: ['Access Bank Transfer May'] });
+
+    expect(anonymizer.text('Access Bank Transfer 12-May-2025')).toBe('Access Bank Transfer 12-May-2025');
+  });
+
+  it('replaces emails', () => {
+    const anonymizer = new StatementAnonymizer({ seed: 1 });
+
+    expect(anonymizer.text('sent by ada.obi@gmail.com')).toMatch(/^sent by user\d+@example\.com$/);
+  });
+
+  it('gives the same output for the same seed', () => {
+    const text = 'TRF FROM JOHN DOE 0123456789 5,000.00';
+
+    expect(new StatementAnonymizer({ seed: 7, names: ['John Doe'] }).text(text)).toBe(
+      new StatementAnonymizer({ seed: 7, names: ['John Doe'] }).text(text)
+    );
+  });
+
+  it('keeps balances reconciling', () => {
+    const parser = new KudaParser();
+    const rows: RawRow[] = [
+      ['22/01/23 12:46:35', '', '₦10,000.00', '', '', '', 'Transfer', '', 'John Doe/0123456789/GTBank', '', 'rent', '', '₦15,000.00'],
+      ['23/01/23 09:00:00', '', '', '', '₦1,250.50', '', 'Airtime', '', '', '', '08031234567', '', '₦13,749.50'],
+      ['24/01/23 18:10:00', '', '', '', '₦3,000.00', '', 'Transfer', '', 'Jane Roe/9876543210/Zenith', '', 'food', '', '₦10,749.50'],
+    ];
+    const parse = (input: RawRow[]) =>
+      input.map((row) => parser.parseTransaction(row)).filter((tx): tx is Transaction => tx !== null);
+
+    const anonymizer = new StatementAnonymizer({ seed: 3, names: ['John Doe', 'Jane Roe'] });
+    const anonymized = parse(rows.map((row) => anonymizer.row(row)));
+
+    expect(anonymized).toHaveLength(3);
+    expect(reconcileBalances(anonymized).status).toBe('reconciled');
+    expect(anonymized[1].amount).toBe(-125050 * anonymizer.scale);
+    expect(JSON.stringify(anonymized)).not.toMatch(/John|Jane|0123456789|9876543210|08031234567/);
+  });
+});
+
+describe('possibleNames', () => {
+  it('keeps statement vocabulary out', () => {
+    expect(possibleNames(['NIP Transfer to AMAKA OBI via mobile app', 'Airtime purchase 08031234567'])).toEqual([
+      'amaka',
+      'obi',
+    ]);
+  });
+});
+
+describe('statementNames', () => {
+  it('finds names the parser did not pull out of a narration', () => {
+    const parser = new KudaParser();
+    const rows: RawRow[] = [
+      ['22/01/23 12:46:35', '', '', '', '₦10,000.00', '', 'Transfer', '', '', '', 'Transfer to AMAKA OBI', '', '₦5,000.00'],
+    ];
+    const results = rows.map((row, i) => parser.parseTransactionSafe(row, i));
+    expect(results[0].success && results[0].transaction.meta?.counterpartyName).toBeFalsy();
+
+    const anonymizer = new StatementAnonymizer({ seed: 1, names: statementNames(results, 'Ada Eze') });
+    const anonymized = rows.map((row) => anonymizer.row(row)).flat().join(' ');
+
+    expect(anonymized).not.toMatch(/AMAKA|OBI/);
+    expect(anonymized).toContain('Transfer to');
+  });
+
+  it('reads the rows the parser failed on', () => {
+    const names = statementNames([{ success: false, error: { rowIndex: 0, message: 'bad date', row: ['32/13/23', 'CHIDI'] } }]);
+
+    expect(names).toEqual(['chidi']);
+  });
+});
+
+describe('buildFixture', () => {
+  it('writes a test around anonymized rows', () => {
+    const fixture = buildFixture({
+      bank: 'kuda',
+      rows: [['22/01/23 12:46:35', undefined, "O'Neil"]],
+      transactions: 1,
+      reconciliation: 'unavailable',
+    });
+
+    expect(fixture).toContain("import { KudaParser } from '~/lib/parsers/kuda';");
+    expect(fixture).toContain("  ['22/01/23 12:46:35', undefined, 'O\\'Neil'],");
+    expect(fixture).toContain('expect(transactions).toHaveLength(1);');
+    expect(fixture).toContain("toBe('unavailable')");
+  });
+
+  it('wraps statement text into lines that join back to the original', () => {
+    const text = Array.from({ length: 40 }, (_, i) => `word${i}`).join(' ');
+    const fixture = buildFixture({ bank: 'gtb', text, transactions: 0, reconciliation: 'unavailable' });
+
+    const lines = [...fixture.matchAll(/^ {2}'(.*)',$/gm)].map((match) => match[1]);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(' ')).toBe(text);
+    expect(fixture).toContain('GtbParser.extractRowsFromPdfText(statement)');
+  });
+
+  it('rejects banks without a parser', () => {
+    expect(() => buildFixture({ bank: 'custom', rows: [], transactions: 0, reconciliation: 'unavailable' })).toThrow();
+  });
+});
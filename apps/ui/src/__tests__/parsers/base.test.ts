@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BaseParser, noopLogger } from '~/lib/parsers/base';
+import { BankType, type RawRow, type Transaction } from '~/types';
+
+class TestParser extends BaseParser {
+  readonly bankName = 'Test';
+  protected readonly bankType = BankType.Custom;
+  protected readonly idPrefix = 'test';
+
+  parseTransaction(row: RawRow): Transaction | null {
+    if (row[0] === 'boom') throw new Error('Bad row');
+    if (!row[0]) return null;
+
+    return this.createTransaction({
+      date: new Date('2025-11-15T00:00:00Z'),
+      amount: 100,
+      description: String(row[0]),
+      reference: 'REF1',
+    });
+  }
+}
+
+describe('BaseParser.parseTransactionSafe', () => {
+  const parser = new TestParser(noopLogger);
+
+  it('returns the transaction on success', () => {
+    const result = parser.parseTransactionSafe(['Salary'], 0);
+
+    expect(result.success).toBe(true);
+    expect(result.success && result.transaction.description).toBe('Salary');
+  });
+
+  it('returns a null error for skipped rows', () => {
+    expect(parser.parseTransactionSafe([''], 3)).toEqual({ success: false, error: null });
+  });
+
+  it('returns the row index, message and raw row when parsing throws', () => {
+    const row = ['boom', '100.00'];
+
+    expect(parser.parseTransactionSafe(row, 7)).toEqual({
+      success: false,
+      error: { rowIndex: 7, message: 'Bad row', row },
+    });
+  });
+
+  it('logs rows that throw', () => {
+    const logger = { error: vi.fn(), warn: vi.fn() };
+
+    new TestParser(logger).parseTransactionSafe(['boom'], 2);
+
+    expect(logger.error).toHaveBeenCalledWith('Failed to parse row 2', expect.objectContaining({ error: 'Bad row' }));
+  });
+});
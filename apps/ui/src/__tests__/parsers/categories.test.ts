@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { categorize } from '~/lib/parsers/categories';
+import { GtbParser } from '~/lib/parsers/gtb';
+import { SpendingCategory, TransactionType } from '~/types';
+
+describe('categorize', () => {
+  it('reads merchants from the description', () => {
+    expect(categorize({ amount: -450000, description: 'POS PURCHASE CHICKEN REPUBLIC IKEJA' })).toBe(SpendingCategory.Food);
+    expect(categorize({ amount: -1200000, description: 'POS/WEB SHOPRITE LEKKI' })).toBe(SpendingCategory.Groceries);
+    expect(categorize({ amount: -320000, description: 'BOLT.EU/O/2511151432' })).toBe(SpendingCategory.Transport);
+    expect(categorize({ amount: -2500000, description: 'WEB PURCHASE JUMIA NIGERIA' })).toBe(SpendingCategory.Shopping);
+    expect(categorize({ amount: -100000, description: 'SPORTYBET DEPOSIT' })).toBe(SpendingCategory.Betting);
+  });
+
+  it('reads bill providers', () => {
+    expect(
+      categorize({
+        amount: -1000000,
+        description: 'Bill payment',
+        meta: { type: TransactionType.BillPayment, billProvider: 'EKEDC', billType: 'Prepaid' },
+      })
+    ).toBe(SpendingCategory.Utilities);
+    expect(
+      categorize({ amount: -2900000, description: 'Cable TV - DSTV Compact', meta: { type: TransactionType.BillPayment } })
+    ).toBe(SpendingCategory.Entertainment);
+  });
+
+  it('reads airtime and data', () => {
+    expect(categorize({ amount: -50000, description: 'Airtime purchase 08031234567' })).toBe(SpendingCategory.AirtimeData);
+    expect(categorize({ amount: -300000, description: 'MTN Data Bundle 10GB' })).toBe(SpendingCategory.AirtimeData);
+  });
+
+  it('puts rent and transfers to family in their own categories', () => {
+    expect(categorize({ amount: -50000000, description: 'Transfer to ADEYEMI J - house rent' })).toBe(SpendingCategory.Rent);
+    expect(
+      categorize({
+        amount: -2000000,
+        description: 'NIP Transfer to JANE DOE',
+        meta: { type: TransactionType.Transfer, narration: 'upkeep for mum' },
+      })
+    ).toBe(SpendingCategory.Family);
+  });
+
+  it('counts charges on a transfer as fees', () => {
+    expect(
+      categorize({ amount: -2688, description: 'NIP CHARGE + VAT transfer to mum', meta: { type: TransactionType.BankCharge } })
+    ).toBe(SpendingCategory.Fees);
+    expect(categorize({ amount: -5000, description: 'ELECTRONIC MONEY TRANSFER LEVY' })).toBe(SpendingCategory.Fees);
+  });
+
+  it('keeps school fees out of bank fees', () => {
+    expect(
+      categorize({ amount: -15000000, description: 'Payment of school fees', meta: { type: TransactionType.BankCharge } })
+    ).toBe(SpendingCategory.Education);
+  });
+
+  it('falls back on the transaction type', () => {
+    expect(
+      categorize({ amount: -2000000, description: 'ATM WDL 0123 LAGOS', meta: { type: TransactionType.AtmWithdrawal } })
+    ).toBe(SpendingCategory.Cash);
+    expect(
+      categorize({ amount: -2000000, description: 'Transfer to JOHN OKAFOR', meta: { type: TransactionType.Transfer } })
+    ).toBe(SpendingCategory.Transfers);
+    expect(categorize({ amount: -2000000, description: 'POS PURCHASE 2039ABCD' })).toBe(SpendingCategory.Other);
+  });
+
+  it('counts money coming in as income unless it came back from savings or a reversal', () => {
+    expect(categorize({ amount: 35000000, description: 'SALARY NOV 2025 ACME LTD' })).toBe(SpendingCategory.Income);
+    expect(categorize({ amount: 500000, description: 'Transfer from JANE DOE - food money' })).toBe(SpendingCategory.Income);
+    expect(categorize({ amount: 10000000, description: 'PiggyVest withdrawal' })).toBe(SpendingCategory.Savings);
+    expect(
+      categorize({ amount: 450000, description: 'REVERSAL POS CHICKEN REPUBLIC', meta: { type: TransactionType.Reversal } })
+    ).toBe(SpendingCategory.Refunds);
+  });
+
+  it('matches whole words only', () => {
+    expect(categorize({ amount: -100000, description: 'Current account maintenance' })).toBe(SpendingCategory.Other);
+    expect(categorize({ amount: -100000, description: 'GLOBAL ENTERPRISES' })).toBe(SpendingCategory.Other);
+  });
+});
+
+describe('spending categories on parsed transactions', () => {
+  it('assigns a category alongside the flow direction', () => {
+    const tx = new GtbParser().parseTransaction([
+      '15-Nov-2025',
+      '15-Nov-2025',
+      '',
+      '4,500.00',
+      '',
+      '95,500.00',
+      'POS PURCHASE CHICKEN REPUBLIC IKEJA',
+    ]);
+
+    expect(tx!.spendingCategory).toBe(SpendingCategory.Food);
+  });
+});
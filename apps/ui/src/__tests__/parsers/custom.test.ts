@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CustomParser,
+  findHeaderRow,
+  findMatchingTemplate,
+  findTemplateToReplace,
+  guessColumnMapping,
+  guessDateFormat,
+  isMappingComplete,
+  normalizeHeader,
+} from '~/lib/parsers/custom';
+import { BankType, TransactionCategory, TransactionType, type ImportTemplate } from '~/types';
+
+function makeTemplate(overrides: Partial<ImportTemplate> = {}): ImportTemplate {
+  return {
+    id: 'tpl-1',
+    name: 'Providus',
+    columns: { date: 0, description: 1, debit: 2, credit: 3, balance: 4, reference: 5 },
+    amountStyle: 'split',
+    dateFormat: 'DD/MM/YYYY',
+    headers: [],
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+describe('CustomParser', () => {
+  describe('split amounts', () => {
+    const parser = new CustomParser(makeTemplate());
+
+    it('parses a credit row', () => {
+      const row = ['15/11/2025', 'Salary', '', '50,000.00', '150,000.00', 'REF123'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result).not.toBeNull();
+      expect(result!.bankSource).toBe(BankType.Custom);
+      expect(result!.amount).toBe(5000000);
+      expect(result!.category).toBe(TransactionCategory.Inflow);
+      expect(result!.reference).toBe('REF123');
+      expect(result!.meta?.balanceAfter).toBe(15000000);
+    });
+
+    it('parses a debit row', () => {
+      const row = ['16/11/2025', 'Rent', '25,000.00', '', '125,000.00', 'REF124'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.amount).toBe(-2500000);
+      expect(result!.category).toBe(TransactionCategory.Outflow);
+    });
+
+    it('treats negative debits as outflows', () => {
+      const row = ['16/11/2025', 'Rent', '-25,000.00', '', '125,000.00'];
+
+      expect(parser.parseTransaction(row)!.amount).toBe(-2500000);
+    });
+
+    it('uses the template date format', () => {
+      const row = ['05/11/2025', 'Salary', '', '1.00', '', ''];
+
+      expect(parser.parseTransaction(row)!.date).toBe('2025-11-04T23:00:00.000Z');
+    });
+
+    it('skips header and summary rows', () => {
+      expect(parser.parseTransaction(['Date', 'Description', 'Debit', 'Credit', 'Balance'])).toBeNull();
+      expect(parser.parseTransaction(['Total', '', '1,000.00', '2,000.00'])).toBeNull();
+    });
+
+    it('skips rows without an amount', () => {
+      expect(parser.parseTransaction(['15/11/2025', 'Opening balance', '', '', '100.00'])).toBeNull();
+    });
+
+    it('generates a reference when the column is not mapped', () => {
+      const noRef = new CustomParser(makeTemplate({ columns: { date: 0, description: 1, debit: 2, credit: 3 } }));
+
+      const result = noRef.parseTransaction(['15/11/2025', 'Salary', '', '100.00']);
+
+      expect(result!.reference).toBeTruthy();
+      expect(result!.meta?.balanceAfter).toBeUndefined();
+    });
+
+    it('infers a transaction type from the description', () => {
+      const row = ['15/11/2025', 'SMS alert charge', '4.00', '', '99.00'];
+
+      expect(parser.parseTransaction(row)!.meta?.type).toBe(TransactionType.BankCharge);
+    });
+
+    it('uses the template name as bank name', () => {
+      expect(parser.bankName).toBe('Providus');
+    });
+  });
+
+  describe('signed amounts', () => {
+    const parser = new CustomParser(
+      makeTemplate({
+        amountStyle: 'signed',
+        dateFormat: 'YYYY-MM-DD',
+        columns: { date: 0, description: 1, amount: 2 },
+      })
+    );
+
+    it.each([
+      ['1,000.00', 100000],
+      ['-1,000.00', -100000],
+      ['(1,000.00)', -100000],
+      ['1,000.00 DR', -100000],
+      ['1,000.00 CR', 100000],
+      ['NGN 1,000.00', 100000],
+    ])('parses %s', (value, expected) => {
+      const result = parser.parseTransaction(['2025-11-15', 'Test', value]);
+      expect(result!.amount).toBe(expected);
+    });
+
+    it('rejects dates that do not match the format', () => {
+      expect(parser.parseTransaction(['15/11/2025', 'Test', '100.00'])).toBeNull();
+    });
+  });
+});
+
+describe('findHeaderRow', () => {
+  it('skips account details above the table', () => {
+    const rows = [
+      ['Account Name', 'JOHN DOE'],
+      ['Account Number', '0123456789'],
+      [],
+      ['Trans Date', 'Narration', 'Debit', 'Credit', 'Balance'],
+      ['15/11/2025', 'Salary', '', '100.00', '100.00'],
+    ];
+
+    expect(findHeaderRow(rows)).toBe(3);
+  });
+
+  it('returns -1 when there is no header', () => {
+    expect(findHeaderRow([['15/11/2025', 'Salary', '100.00']])).toBe(-1);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('maps common header names', () => {
+    const header = ['Trans. Date', 'Reference', 'Narration', 'Withdrawals', 'Lodgements', 'Balance'];
+
+    expect(guessColumnMapping(header)).toEqual({
+      date: 0,
+      reference: 1,
+      description: 2,
+      debit: 3,
+      credit: 4,
+      balance: 5,
+    });
+  });
+
+  it('maps a signed amount column', () => {
+    expect(guessColumnMapping(['Date', 'Description', 'Amount'])).toEqual({
+      date: 0,
+      description: 1,
+      amount: 2,
+    });
+  });
+
+  it('leaves unknown columns out', () => {
+    expect(guessColumnMapping(['Foo', 'Bar'])).toEqual({});
+  });
+});
+
+describe('guessDateFormat', () => {
+  it('picks the first format that parses every sample', () => {
+    expect(guessDateFormat(['15/11/2025', '01/12/2025'])).toBe('DD/MM/YYYY');
+    expect(guessDateFormat(['15-Nov-2025'])).toBe('DD-MMM-YYYY');
+    expect(guessDateFormat(['2025-11-15 14:32:10'])).toBe('YYYY-MM-DD HH:mm:ss');
+  });
+
+  it('returns null when nothing fits', () => {
+    expect(guessDateFormat(['yesterday'])).toBeNull();
+    expect(guessDateFormat([])).toBeNull();
+  });
+});
+
+describe('isMappingComplete', () => {
+  it('needs date, description and an amount column', () => {
+    expect(isMappingComplete({ date: 0, description: 1 }, 'split')).toBe(false);
+    expect(isMappingComplete({ date: 0, description: 1, debit: 2 }, 'split')).toBe(true);
+    expect(isMappingComplete({ date: 0, description: 1, debit: 2 }, 'signed')).toBe(false);
+    expect(isMappingComplete({ date: 0, description: 1, amount: 2 }, 'signed')).toBe(true);
+  });
+});
+
+describe('findMatchingTemplate', () => {
+  const header = ['Date', 'Narration', 'Debit', 'Credit'];
+
+  it('matches on the normalised header row', () => {
+    const template = makeTemplate({ headers: normalizeHeader(header) });
+
+    expect(findMatchingTemplate([template], ['DATE', ' Narration ', 'Debit', 'Credit'])).toBe(template);
+  });
+
+  it('ignores templates saved without a header', () => {
+    expect(findMatchingTemplate([makeTemplate()], header)).toBeUndefined();
+  });
+
+  it('returns undefined when the file has no header', () => {
+    expect(findMatchingTemplate([makeTemplate({ headers: ['date'] })], undefined)).toBeUndefined();
+  });
+});
+
+describe('findTemplateToReplace', () => {
+  const header = ['Date', 'Narration', 'Debit', 'Credit'];
+
+  it('replaces the template for the same header row', () => {
+    const template = makeTemplate({ headers: normalizeHeader(header) });
+
+    expect(findTemplateToReplace([template], header, 'Providus savings')).toBe(template);
+  });
+
+  it('replaces a template with the same name when no header matches', () => {
+    const template = makeTemplate();
+
+    expect(findTemplateToReplace([template], header, ' providus ')).toBe(template);
+  });
+
+  it('finds nothing for a new layout', () => {
+    expect(findTemplateToReplace([makeTemplate()], header, 'Carbon')).toBeUndefined();
+  });
+});
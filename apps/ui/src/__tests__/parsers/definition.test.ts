@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { type BankDefinition, DefinitionParser } from '~/lib/parsers/definition';
+import { BankType, TransactionType } from '~/types';
+
+function makeDefinition(overrides: Partial<BankDefinition> = {}): BankDefinition {
+  return {
+    bankType: BankType.Custom,
+    bankName: 'Test Bank',
+    idPrefix: 'test',
+    columns: { date: 0, description: 1, debit: 2, credit: 3, balance: 4 },
+    dateFormat: 'DD/MM/YYYY',
+    amountStyle: 'split',
+    ...overrides,
+  };
+}
+
+describe('DefinitionParser', () => {
+  it('reads the columns the definition points at', () => {
+    const parser = new DefinitionParser(makeDefinition());
+    const result = parser.parseTransaction(['15/11/2025', 'POS purchase', '2,500.00', '', '97,500.00']);
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toMatch(/^test-/);
+    expect(result!.bankSource).toBe(BankType.Custom);
+    expect(result!.amount).toBe(-250000);
+    expect(result!.meta?.balanceAfter).toBe(9750000);
+    expect(result!.meta?.type).toBe(TransactionType.CardPayment);
+  });
+
+  it('tries each date format in turn', () => {
+    const parser = new DefinitionParser(makeDefinition({ dateFormat: ['D MMM YYYY', 'DD/MM/YYYY'] }));
+
+    expect(parser.parseTransaction(['5 Nov 2025', 'Salary', '', '100', ''])).not.toBeNull();
+    expect(parser.parseTransaction(['05/11/2025', 'Salary', '', '100', ''])).not.toBeNull();
+    expect(parser.parseTransaction(['2025-11-05', 'Salary', '', '100', ''])).toBeNull();
+  });
+
+  it('knows whether the matching date format has a time', () => {
+    const parser = new DefinitionParser(makeDefinition({ dateFormat: ['DD/MM/YYYY HH:mm', 'DD/MM/YYYY'] }));
+
+    expect(parser.parseTransaction(['05/11/2025 14:30', 'Salary', '', '100', ''])!.meta?.hasTime).toBe(true);
+    expect(parser.parseTransaction(['05/11/2025', 'Salary', '', '100', ''])!.meta?.hasTime).toBe(false);
+  });
+
+  it('skips rows shorter than minColumns', () => {
+    const parser = new DefinitionParser(makeDefinition({ minColumns: 5 }));
+
+    expect(parser.parseTransaction(['15/11/2025', 'Salary', '', '100'])).toBeNull();
+  });
+
+  it('skips rows whose description matches a skip pattern', () => {
+    const parser = new DefinitionParser(makeDefinition({ skip: [/sweep to savings/i] }));
+
+    expect(parser.parseTransaction(['15/11/2025', 'Sweep to Savings', '100', '', ''])).toBeNull();
+  });
+
+  it('reads signed amounts', () => {
+    const parser = new DefinitionParser(
+      makeDefinition({ columns: { date: 0, description: 1, amount: 2 }, amountStyle: 'signed' })
+    );
+
+    expect(parser.parseTransaction(['15/11/2025', 'Rent', '(1,000.00)'])!.amount).toBe(-100000);
+    expect(parser.parseTransaction(['15/11/2025', 'Rent', '1,000.00 DR'])!.amount).toBe(-100000);
+    expect(parser.parseTransaction(['15/11/2025', 'Salary', '1,000.00'])!.amount).toBe(100000);
+  });
+
+  it('pulls the counterparty out with the first matching pattern', () => {
+    const parser = new DefinitionParser(
+      makeDefinition({
+        counterparty: [
+          { field: 'description', pattern: /^TRF to (?<name>.+?) \/ (?<bank>.+)$/i },
+          { field: 'description', pattern: /^POS (?<name>.+)$/i },
+        ],
+      })
+    );
+
+    const transfer = parser.parseTransaction(['15/11/2025', 'TRF to John Doe / Zenith', '100', '', '']);
+    expect(transfer!.meta).toMatchObject({ counterpartyName: 'John Doe', counterpartyBank: 'Zenith' });
+    expect(transfer!.meta?.counterpartyAccount).toBeUndefined();
+
+    const card = parser.parseTransaction(['15/11/2025', 'POS Shoprite', '100', '', '']);
+    expect(card!.meta?.counterpartyName).toBe('Shoprite');
+  });
+
+  it('checks type rules before the shared keyword inference', () => {
+    const parser = new DefinitionParser(
+      makeDefinition({ types: [{ type: TransactionType.BillPayment, pattern: /^ikedc/i }] })
+    );
+
+    expect(parser.parseTransaction(['15/11/2025', 'IKEDC token fee', '100', '', ''])!.meta?.type).toBe(
+      TransactionType.BillPayment
+    );
+    expect(parser.parseTransaction(['15/11/2025', 'SMS fee', '100', '', ''])!.meta?.type).toBe(
+      TransactionType.BankCharge
+    );
+  });
+
+  it('matches type rules against the category too', () => {
+    const parser = new DefinitionParser(
+      makeDefinition({
+        columns: { date: 0, description: 1, debit: 2, credit: 3, category: 4 },
+        types: [{ type: TransactionType.Airtime, pattern: /airtime/i }],
+      })
+    );
+    const result = parser.parseTransaction(['15/11/2025', '08031234567', '100', '', 'Airtime']);
+
+    expect(result!.meta?.type).toBe(TransactionType.Airtime);
+    expect(result!.meta?.rawCategory).toBe('Airtime');
+  });
+
+  it('builds the reference from the listed cells', () => {
+    const parser = new DefinitionParser(makeDefinition({ reference: [['date', 5], ['description', 6]] }));
+    const result = parser.parseTransaction(['15/11/2025', 'Transfer to Ada', '100', '', '']);
+
+    expect(result!.reference).toBe('1511-TRANSF');
+  });
+
+  it('prefers the reference column when it has a value', () => {
+    const parser = new DefinitionParser(
+      makeDefinition({ columns: { date: 0, description: 1, debit: 2, credit: 3, reference: 4 } })
+    );
+
+    expect(parser.parseTransaction(['15/11/2025', 'Salary', '', '100', 'FT123'])!.reference).toBe('FT123');
+    expect(parser.parseTransaction(['15/11/2025', 'Salary', '', '100', ''])!.reference).toBe('20251115-SALARY');
+  });
+
+  it('passes the PDF layout through', () => {
+    const pdfLayout = { columns: [/Date/], rowStart: { column: 0, pattern: /\d/ } };
+
+    expect(new DefinitionParser(makeDefinition({ pdfLayout })).pdfLayout).toBe(pdfLayout);
+  });
+});
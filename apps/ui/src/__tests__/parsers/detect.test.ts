@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { detectBank, getFileFormat, isBankMismatch, DETECTION_THRESHOLD } from '~/lib/parsers/detect';
+import { BankType } from '~/types';
+
+describe('detectBank', () => {
+  it('detects GTB from its column header', () => {
+    const text = `
+      Guaranty Trust Bank Account Statement
+      Trans. Date Value. Date Reference Debits Credits Balance Originating Branch Remarks
+      15-Nov-2025 15-Nov-2025 REF123 1,000.00 101,000.00 E-CHANNELS NIP TRANSFER TO OPAY
+    `;
+
+    const [best] = detectBank({ format: 'pdf', text });
+
+    expect(best.bank).toBe(BankType.GTB);
+    expect(best.confidence).toBeGreaterThanOrEqual(DETECTION_THRESHOLD);
+  });
+
+  it('detects UBA from its footer and header', () => {
+    const text = `
+      Africa's global bank Download App | Chat with Leo | Our Website
+      TRANS DATE VALUE DATE NARRATION CHQ. NO DEBIT CREDIT BALANCE
+    `;
+
+    const [best] = detectBank({ format: 'pdf', text });
+
+    expect(best.bank).toBe(BankType.UBA);
+  });
+
+  it('detects Standard Chartered', () => {
+    const text = `
+      Date Description Deposit Withdrawal Balance
+      01 Jan 2025 BALANCE FROM PREVIOUS STATEMENT 10,000.00
+    `;
+
+    const [best] = detectBank({ format: 'pdf', text });
+
+    expect(best.bank).toBe(BankType.StandardChartered);
+  });
+
+  it('detects both Sterling layouts', () => {
+    const formatA = 'Date Reference Narration Money In Money Out Balance';
+    const formatB = 'Trans Date Narration Value Date Debit Credit Balance';
+
+    expect(detectBank({ format: 'pdf', text: formatA })[0].bank).toBe(BankType.Sterling);
+    expect(detectBank({ format: 'pdf', text: formatB })[0].bank).toBe(BankType.Sterling);
+  });
+
+  it('detects OPay from its sheet name', () => {
+    const candidates = detectBank({
+      format: 'excel',
+      text: 'Account Statement',
+      sheetNames: ['Summary', 'Wallet Account Transactions'],
+    });
+
+    expect(candidates[0].bank).toBe(BankType.OPay);
+    expect(candidates[0].confidence).toBeGreaterThanOrEqual(DETECTION_THRESHOLD);
+  });
+
+  it('detects Kuda from its column layout', () => {
+    const text = [
+      'Kuda MFB Account Statement',
+      'Date/Time Money In Money out Category To / From Description Balance',
+      '22/01/23 12:46:35 50,000.00 Transfer John Doe/1234567890/Access Bank Salary 150,000.00',
+    ].join('\n');
+
+    const [best] = detectBank({ format: 'excel', text });
+
+    expect(best.bank).toBe(BankType.Kuda);
+  });
+
+  it('detects Moniepoint exports', () => {
+    const text = [
+      'Moniepoint MFB Account Statement',
+      'Date Narration Reference Debit Credit Balance',
+      '15/11/2025 23:59:00 POS Settlement - TID 2MPT0001 (12 txns) STL123 84,500.00 184,500.00',
+    ].join('\n');
+
+    const [best] = detectBank({ format: 'csv', text });
+
+    expect(best.bank).toBe(BankType.Moniepoint);
+    expect(best.confidence).toBeGreaterThanOrEqual(DETECTION_THRESHOLD);
+  });
+
+  it('ranks candidates by confidence', () => {
+    const text = 'Trans. Date Value. Date Reference Debits Credits Balance Originating Branch Remarks Zenith Bank';
+
+    const candidates = detectBank({ format: 'pdf', text });
+
+    expect(candidates.length).toBeGreaterThan(1);
+    for (let i = 1; i < candidates.length; i++) {
+      expect(candidates[i - 1].confidence).toBeGreaterThanOrEqual(candidates[i].confidence);
+    }
+  });
+
+  it('only considers banks that export the given format', () => {
+    const text = 'Trans. Date Value. Date Reference Debits Credits Balance';
+
+    const candidates = detectBank({ format: 'excel', text });
+
+    expect(candidates.find((c) => c.bank === BankType.GTB)).toBeUndefined();
+  });
+
+  it('ignores bank names that only appear deep in the statement', () => {
+    const text = 'Date Description Deposit Withdrawal Balance ' + 'x'.repeat(5000) + ' Zenith Bank';
+
+    const candidates = detectBank({ format: 'pdf', text });
+
+    expect(candidates.find((c) => c.bank === BankType.Zenith)).toBeUndefined();
+  });
+
+  it('returns an empty list when nothing matches', () => {
+    expect(detectBank({ format: 'pdf', text: 'hello world' })).toEqual([]);
+  });
+
+  it('caps confidence at 1', () => {
+    const text = `
+      Guaranty Trust Bank GTBank
+      Trans. Date Value. Date Reference Debits Credits Balance Originating Branch Remarks
+      This is a computer generated Email
+    `;
+
+    const [best] = detectBank({ format: 'pdf', text });
+
+    expect(best.confidence).toBe(1);
+  });
+});
+
+describe('getFileFormat', () => {
+  it('maps extensions to file formats', () => {
+    expect(getFileFormat('statement.PDF')).toBe('pdf');
+    expect(getFileFormat('statement.xlsx')).toBe('excel');
+    expect(getFileFormat('statement.xls')).toBe('excel');
+    expect(getFileFormat('statement.csv')).toBe('csv');
+    expect(getFileFormat('statement.ofx')).toBe('ofx');
+    expect(getFileFormat('statement.QFX')).toBe('ofx');
+  });
+
+  it('returns null for unknown extensions', () => {
+    expect(getFileFormat('statement.docx')).toBeNull();
+  });
+});
+
+describe('isBankMismatch', () => {
+  it('flags a confident match for a different bank', () => {
+    const candidates = [{ bank: BankType.GTB, confidence: 0.9 }];
+    expect(isBankMismatch(BankType.UBA, candidates)).toBe(true);
+  });
+
+  it('does not flag when the chosen bank is the best match', () => {
+    const candidates = [{ bank: BankType.GTB, confidence: 0.9 }];
+    expect(isBankMismatch(BankType.GTB, candidates)).toBe(false);
+  });
+
+  it('does not flag when the chosen bank is also a confident match', () => {
+    const candidates = [
+      { bank: BankType.GTB, confidence: 0.9 },
+      { bank: BankType.UBA, confidence: 0.6 },
+    ];
+    expect(isBankMismatch(BankType.UBA, candidates)).toBe(false);
+  });
+
+  it('does not flag when detection is unsure', () => {
+    const candidates = [{ bank: BankType.GTB, confidence: 0.2 }];
+    expect(isBankMismatch(BankType.UBA, candidates)).toBe(false);
+  });
+
+  it('does not flag when nothing was detected', () => {
+    expect(isBankMismatch(BankType.UBA, [])).toBe(false);
+  });
+});
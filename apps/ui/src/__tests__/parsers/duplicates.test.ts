@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { descriptionSimilarity, findLikelyDuplicates } from '~/lib/parsers/duplicates';
+import { BankType, SpendingCategory, TransactionCategory, type Transaction } from '~/types';
+
+function tx(id: string, date: string, amount: number, description: string, balanceAfter?: number): Transaction {
+  return {
+    id,
+    date,
+    createdAt: 0,
+    description,
+    amount,
+    currency: 'NGN',
+    category: amount > 0 ? TransactionCategory.Inflow : TransactionCategory.Outflow,
+    spendingCategory: amount > 0 ? SpendingCategory.Income : SpendingCategory.Other,
+    bankSource: BankType.GTB,
+    reference: '',
+    meta: balanceAfter === undefined ? {} : { balanceAfter },
+  };
+}
+
+describe('descriptionSimilarity', () => {
+  it('ignores case, spacing and punctuation', () => {
+    expect(descriptionSimilarity('POS Purchase - SHOPRITE', 'pos purchase shoprite')).toBe(1);
+  });
+
+  it('scores wrapped descriptions highly', () => {
+    expect(descriptionSimilarity('TRANSFER TO JOHN DOE/ACCESS BANK', 'TRANSFER TO JOHN DOE')).toBeGreaterThan(0.7);
+  });
+
+  it('scores unrelated descriptions low', () => {
+    expect(descriptionSimilarity('Airtime purchase', 'Salary credit')).toBeLessThan(0.3);
+  });
+});
+
+describe('findLikelyDuplicates', () => {
+  const stored = [
+    tx('gtb-a', '2025-11-15T00:00:00.000Z', -5000, 'TRANSFER TO JOHN DOE', 120000),
+    tx('gtb-b', '2025-11-16T00:00:00.000Z', -100, 'Airtime purchase MTN'),
+  ];
+
+  it('matches a row the other statement wrapped differently', () => {
+    const incoming = [tx('gtb-c', '2025-11-16T00:00:00.000Z', -100, 'Airtime purchase MTN 0803')];
+    const matches = findLikelyDuplicates(incoming, stored);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].existing.id).toBe('gtb-b');
+  });
+
+  it('matches on balance even when descriptions differ', () => {
+    const incoming = [tx('gtb-c', '2025-11-14T00:00:00.000Z', -5000, 'NIP/ACCESS/JOHN', 120000)];
+
+    expect(findLikelyDuplicates(incoming, stored)).toHaveLength(1);
+  });
+
+  it('does not match when balances disagree', () => {
+    const incoming = [tx('gtb-c', '2025-11-15T00:00:00.000Z', -5000, 'TRANSFER TO JOHN DOE', 115000)];
+
+    expect(findLikelyDuplicates(incoming, stored)).toEqual([]);
+  });
+
+  it('does not match dates more than a day apart', () => {
+    const incoming = [tx('gtb-c', '2025-11-18T00:00:00.000Z', -100, 'Airtime purchase MTN')];
+
+    expect(findLikelyDuplicates(incoming, stored)).toEqual([]);
+  });
+
+  it('does not match other banks or amounts', () => {
+    const incoming = [
+      { ...tx('kuda-c', '2025-11-16T00:00:00.000Z', -100, 'Airtime purchase MTN'), bankSource: BankType.Kuda },
+      tx('gtb-d', '2025-11-16T00:00:00.000Z', -200, 'Airtime purchase MTN'),
+    ];
+
+    expect(findLikelyDuplicates(incoming, stored)).toEqual([]);
+  });
+
+  it('does not match other currencies', () => {
+    const incoming = [{ ...tx('gtb-c', '2025-11-16T00:00:00.000Z', -100, 'Airtime purchase MTN'), currency: 'USD' as const }];
+
+    expect(findLikelyDuplicates(incoming, stored)).toEqual([]);
+  });
+
+  it('leaves out rows already stored under the same ID', () => {
+    expect(findLikelyDuplicates([stored[1]], stored)).toEqual([]);
+  });
+
+  it('matches each stored row once', () => {
+    const incoming = [
+      tx('gtb-c', '2025-11-16T00:00:00.000Z', -100, 'Airtime purchase MTN'),
+      tx('gtb-d', '2025-11-16T00:00:00.000Z', -100, 'Airtime purchase MTN.'),
+    ];
+    const matches = findLikelyDuplicates(incoming, stored);
+
+    expect(matches).toHaveLength(1);
+  });
+});
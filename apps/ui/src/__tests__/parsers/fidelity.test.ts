@@ -0,0 +1,376 @@
+import { describe, it, expect } from 'vitest';
+import { FidelityParser } from '~/lib/parsers/fidelity';
+import { BankType, TransactionCategory, TransactionType } from '~/types';
+
+describe('FidelityParser', () => {
+  const parser = new FidelityParser();
+
+  describe('parseTransaction', () => {
+    it('returns null for empty row', () => {
+      expect(parser.parseTransaction([])).toBeNull();
+    });
+
+    it('returns null for row with less than 6 columns', () => {
+      expect(parser.parseTransaction(['01-Jan-2025', '01-Jan-2025', 'Test'])).toBeNull();
+    });
+
+    it('parses a valid credit transaction', () => {
+      // [transDate, valueDate, narration, debit, credit, balance]
+      const row = [
+        '15-Nov-2025',
+        '15-Nov-2025',
+        'NIP FRM JOHN DOE/ACCESS/Salary',
+        '',
+        '50,000.00',
+        '150,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result).not.toBeNull();
+      expect(result!.bankSource).toBe(BankType.Fidelity);
+      expect(result!.amount).toBe(5000000);
+      expect(result!.category).toBe(TransactionCategory.Inflow);
+    });
+
+    it('parses a valid debit transaction', () => {
+      const row = [
+        '20-Dec-2025',
+        '20-Dec-2025',
+        'NIP TO JANE SMITH/GTB/Rent',
+        '25,000.00',
+        '',
+        '125,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result).not.toBeNull();
+      expect(result!.amount).toBe(-2500000);
+      expect(result!.category).toBe(TransactionCategory.Outflow);
+    });
+
+    it('parses NIP transfer and extracts counterparty', () => {
+      const row = [
+        '15-Nov-2025',
+        '15-Nov-2025',
+        'NIP FRM JOHN DOE/ZENITH/School fees refund',
+        '',
+        '10,000.00',
+        '110,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.Transfer);
+      expect(result!.meta?.counterpartyName).toBe('JOHN DOE');
+      expect(result!.meta?.counterpartyBank).toBe('Zenith Bank');
+      expect(result!.meta?.narration).toBe('School fees refund');
+    });
+
+    it('keeps unknown bank codes as they are', () => {
+      const row = [
+        '15-Nov-2025',
+        '15-Nov-2025',
+        'NIP TO JANE SMITH/PROVIDUS',
+        '1,000.00',
+        '',
+        '109,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.counterpartyBank).toBe('PROVIDUS');
+      expect(result!.meta?.narration).toBe('NIP TO JANE SMITH/PROVIDUS');
+    });
+
+    it('parses intra-bank online transfer', () => {
+      const row = [
+        '15-Nov-2025',
+        '15-Nov-2025',
+        'FIDELITY ONLINE TRF TO 4012345678 JANE SMITH',
+        '5,000.00',
+        '',
+        '105,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.Transfer);
+      expect(result!.meta?.counterpartyAccount).toBe('4012345678');
+      expect(result!.meta?.counterpartyName).toBe('JANE SMITH');
+      expect(result!.meta?.counterpartyBank).toBe('Fidelity Bank');
+    });
+
+    it('parses POS purchase', () => {
+      const row = [
+        '10-Jan-2025',
+        '10-Jan-2025',
+        'POS PURCHASE @ SHOPRITE IKEJA NG',
+        '5,000.00',
+        '',
+        '110,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.CardPayment);
+      expect(result!.meta?.counterpartyName).toBe('SHOPRITE IKEJA');
+    });
+
+    it('parses web purchase', () => {
+      const row = [
+        '10-Jan-2025',
+        '10-Jan-2025',
+        'WEB PURCHASE NETFLIX.COM',
+        '4,400.00',
+        '',
+        '105,600.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.CardPayment);
+    });
+
+    it('parses ATM withdrawal', () => {
+      const row = [
+        '20-Jan-2025',
+        '20-Jan-2025',
+        'ATM CASH WDL @ FIDELITY ATM MARINA',
+        '20,000.00',
+        '',
+        '80,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.AtmWithdrawal);
+      expect(result!.meta?.counterpartyName).toBe('FIDELITY ATM MARINA');
+    });
+
+    it('parses airtime purchase', () => {
+      const row = [
+        '25-Jan-2025',
+        '25-Jan-2025',
+        'AIRTIME PURCHASE 08012345678 MTN',
+        '1,000.00',
+        '',
+        '79,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.Airtime);
+      expect(result!.meta?.narration).toBe('Airtime for 08012345678');
+      expect(result!.meta?.counterpartyName).toBe('MTN');
+    });
+
+    it('parses NIP charge as a bank charge rather than a transfer', () => {
+      const row = [
+        '25-Jan-2025',
+        '25-Jan-2025',
+        'NIP CHARGE + VAT',
+        '26.88',
+        '',
+        '78,973.12',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.BankCharge);
+    });
+
+    it('parses other bank charges', () => {
+      const charges = ['SMS ALERT CHARGES', 'STAMP DUTY', 'EMTL', 'ACCOUNT MAINTENANCE FEE'];
+
+      for (const narration of charges) {
+        const row = ['01-Feb-2025', '01-Feb-2025', narration, '50.00', '', '78,450.00'];
+        expect(parser.parseTransaction(row)!.meta?.type).toBe(TransactionType.BankCharge);
+      }
+    });
+
+    it('parses interest payment', () => {
+      const row = [
+        '28-Feb-2025',
+        '28-Feb-2025',
+        'CREDIT INTEREST CAPITALISED',
+        '',
+        '150.00',
+        '78,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.Interest);
+    });
+
+    it('parses reversal', () => {
+      const row = [
+        '10-Feb-2025',
+        '10-Feb-2025',
+        'REVERSAL NIP TO JANE SMITH/GTB',
+        '',
+        '5,000.00',
+        '83,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.Reversal);
+    });
+
+    it('parses bill payment', () => {
+      const row = [
+        '15-Feb-2025',
+        '15-Feb-2025',
+        'BILL PAYMENT IKEDC PREPAID 45012345678',
+        '10,000.00',
+        '',
+        '73,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.BillPayment);
+    });
+
+    it('returns null for invalid date', () => {
+      const row = ['Invalid', '01-Jan-2025', 'Test', '', '1,000.00', '100,000.00'];
+      expect(parser.parseTransaction(row)).toBeNull();
+    });
+
+    it('returns null when no valid amount', () => {
+      const row = ['01-Jan-2025', '01-Jan-2025', 'Test', '', '', '100,000.00'];
+      expect(parser.parseTransaction(row)).toBeNull();
+    });
+
+    it('stores balance after in meta', () => {
+      const row = ['01-Jan-2025', '01-Jan-2025', 'Test', '', '1,000.00', '101,000.00'];
+
+      const result = parser.parseTransaction(row);
+      expect(result!.meta?.balanceAfter).toBe(10100000);
+    });
+
+    it('stores the value date apart from session IDs', () => {
+      const row = ['01-Jan-2025', '02-Jan-2025', 'Test', '', '1,000.00', '101,000.00'];
+
+      const result = parser.parseTransaction(row);
+      expect(result!.meta?.valueDate).toBe('2025-01-01T23:00:00.000Z');
+      expect(result!.meta?.hasTime).toBe(false);
+      expect(result!.meta?.sessionId).toBeUndefined();
+    });
+
+    it('handles all month abbreviations', () => {
+      const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+      months.forEach((month, index) => {
+        const row = [`15-${month}-2025`, `15-${month}-2025`, 'Test', '', '1,000.00', '100,000.00'];
+
+        const result = parser.parseTransaction(row);
+        expect(result).not.toBeNull();
+
+        const date = new Date(result!.date);
+        expect(date.getUTCMonth()).toBe(index);
+      });
+    });
+
+    it('generates unique IDs', () => {
+      const row1 = ['01-Jan-2025', '01-Jan-2025', 'Transaction 1', '', '1,000.00', '100,000.00'];
+      const row2 = ['01-Jan-2025', '01-Jan-2025', 'Transaction 2', '', '2,000.00', '102,000.00'];
+
+      const result1 = parser.parseTransaction(row1);
+      const result2 = parser.parseTransaction(row2);
+
+      expect(result1!.id).not.toBe(result2!.id);
+      expect(result1!.id).toMatch(/^fidelity-/);
+    });
+  });
+
+  describe('extractRowsFromPdfText', () => {
+    it('extracts rows and infers credit or debit from the balance', () => {
+      const pdfText = `
+        Fidelity Bank Plc Account Statement
+        Opening Balance 100,000.00
+        Transaction Date Value Date Transaction Details Debit Credit Balance
+        15-Nov-2025 15-Nov-2025 NIP FRM JOHN DOE/ACCESS/Salary 50,000.00 150,000.00
+        16-Nov-2025 16-Nov-2025 POS PURCHASE @ SHOPRITE IKEJA NG 12,500.00 137,500.00
+      `;
+
+      const rows = FidelityParser.extractRowsFromPdfText(pdfText);
+
+      expect(rows).toEqual([
+        ['15-Nov-2025', '15-Nov-2025', 'NIP FRM JOHN DOE/ACCESS/Salary', '', '50,000.00', '150,000.00'],
+        ['16-Nov-2025', '16-Nov-2025', 'POS PURCHASE @ SHOPRITE IKEJA NG', '12,500.00', '', '137,500.00'],
+      ]);
+    });
+
+    it('joins narrations that wrap onto the next line', () => {
+      const pdfText = `
+        Opening Balance 100,000.00
+        15-Nov-2025 15-Nov-2025 NIP TO JANE SMITH/GTB/house 25,000.00 75,000.00
+        rent for december
+        16-Nov-2025 16-Nov-2025 SMS ALERT CHARGES 20.00 74,980.00
+      `;
+
+      const rows = FidelityParser.extractRowsFromPdfText(pdfText);
+
+      expect(rows).toHaveLength(2);
+      expect(rows[0][2]).toBe('NIP TO JANE SMITH/GTB/house rent for december');
+      expect(rows[0][3]).toBe('25,000.00');
+      expect(rows[1][2]).toBe('SMS ALERT CHARGES');
+    });
+
+    it('keeps wrapped narrations intact across page breaks', () => {
+      const pdfText = `
+        Opening Balance 1,000.00
+        15-Nov-2025 15-Nov-2025 NIP FRM JOHN DOE/ACCESS/part 2,000.00 3,000.00
+        payment
+        Page 1 of 2
+        Transaction Date Value Date Transaction Details Debit Credit Balance
+        16-Nov-2025 16-Nov-2025 STAMP DUTY 50.00 2,950.00
+      `;
+
+      const rows = FidelityParser.extractRowsFromPdfText(pdfText);
+
+      expect(rows[0][2]).toBe('NIP FRM JOHN DOE/ACCESS/part payment');
+      expect(rows[0][4]).toBe('2,000.00');
+      expect(rows[1][3]).toBe('50.00');
+    });
+
+    it('seeds the running balance from a balance brought forward row', () => {
+      const pdfText = `
+        01-Nov-2025 01-Nov-2025 BALANCE B/F 0.00 5,000.00
+        02-Nov-2025 02-Nov-2025 STAMP DUTY 50.00 4,950.00
+      `;
+
+      const rows = FidelityParser.extractRowsFromPdfText(pdfText);
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0][3]).toBe('50.00');
+    });
+
+    it('ignores the closing balance summary', () => {
+      const pdfText = `
+        Opening Balance 1,000.00
+        15-Nov-2025 15-Nov-2025 STAMP DUTY 50.00 950.00
+        Closing Balance 950.00
+      `;
+
+      const rows = FidelityParser.extractRowsFromPdfText(pdfText);
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0][2]).toBe('STAMP DUTY');
+    });
+
+    it('returns empty array for text without transactions', () => {
+      expect(FidelityParser.extractRowsFromPdfText('No transaction data here')).toEqual([]);
+    });
+  });
+
+  describe('bankName', () => {
+    it('returns Fidelity Bank', () => {
+      expect(parser.bankName).toBe('Fidelity Bank');
+    });
+  });
+});
@@ -0,0 +1,304 @@
+import { describe, it, expect } from 'vitest';
+import { FirstBankParser } from '~/lib/parsers/firstbank';
+import { BankType, TransactionCategory, TransactionType } from '~/types';
+
+describe('FirstBankParser', () => {
+  const parser = new FirstBankParser();
+
+  describe('parseTransaction', () => {
+    it('returns null for empty row', () => {
+      expect(parser.parseTransaction([])).toBeNull();
+    });
+
+    it('returns null for row with less than 7 columns', () => {
+      expect(parser.parseTransaction(['15-Nov-25', 'FT25319ABCD', 'Test'])).toBeNull();
+    });
+
+    it('parses a valid credit transaction', () => {
+      // [transDate, reference, narration, valueDate, debit, credit, balance]
+      const row = [
+        '15-Nov-25',
+        'FT25319ABCD',
+        'NIP/ZENITH/JOHN DOE/Salary',
+        '15-Nov-25',
+        '',
+        '50,000.00',
+        '150,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result).not.toBeNull();
+      expect(result!.bankSource).toBe(BankType.FirstBank);
+      expect(result!.amount).toBe(5000000);
+      expect(result!.category).toBe(TransactionCategory.Inflow);
+      expect(result!.date).toBe('2025-11-14T23:00:00.000Z');
+    });
+
+    it('parses a valid debit transaction', () => {
+      const row = [
+        '20-Dec-25',
+        'FT25354WXYZ',
+        'MOB.APP TRF TO OPAY/JANE SMITH',
+        '20-Dec-25',
+        '25,000.00',
+        '',
+        '125,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result).not.toBeNull();
+      expect(result!.amount).toBe(-2500000);
+      expect(result!.category).toBe(TransactionCategory.Outflow);
+    });
+
+    it('accepts four digit years', () => {
+      const row = ['03-Feb-2025', 'FT1', 'SMS CHARGES', '03-Feb-2025', '4.00', '', '99,996.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.date).toBe('2025-02-02T23:00:00.000Z');
+    });
+
+    it('uses the statement reference', () => {
+      const row = ['15-Nov-25', 'FT25319ABCD', 'SMS CHARGES', '15-Nov-25', '4.00', '', '99,996.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.reference).toBe('FT25319ABCD');
+    });
+
+    it('generates a reference when the statement has none', () => {
+      const row = ['15-Nov-25', '', 'SMS CHARGES', '15-Nov-25', '4.00', '', '99,996.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.reference).toBeTruthy();
+    });
+
+    it('extracts counterparty from NIP transfer', () => {
+      const row = [
+        '15-Nov-25',
+        'FT1',
+        'NIP/GTB/JOHN DOE/school fees',
+        '15-Nov-25',
+        '',
+        '10,000.00',
+        '110,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.Transfer);
+      expect(result!.meta?.counterpartyBank).toBe('GTB');
+      expect(result!.meta?.counterpartyName).toBe('JOHN DOE');
+      expect(result!.meta?.narration).toBe('school fees');
+    });
+
+    it('keeps the full narration when a NIP transfer has no remark', () => {
+      const row = ['15-Nov-25', 'FT1', 'NIP/GTB/JOHN DOE', '15-Nov-25', '', '10,000.00', '110,000.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.counterpartyName).toBe('JOHN DOE');
+      expect(result!.meta?.narration).toBe('NIP/GTB/JOHN DOE');
+    });
+
+    it('extracts counterparty from mobile app transfer', () => {
+      const row = [
+        '15-Nov-25',
+        'FT1',
+        'MOB.APP TRF TO MONIEMFB/ADE STORES',
+        '15-Nov-25',
+        '3,000.00',
+        '',
+        '97,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.Transfer);
+      expect(result!.meta?.counterpartyBank).toBe('Moniepoint');
+      expect(result!.meta?.counterpartyName).toBe('ADE STORES');
+    });
+
+    it('extracts counterparty account from USSD transfer', () => {
+      const row = [
+        '15-Nov-25',
+        'FT1',
+        'TRF FROM 3012345678 JOHN DOE',
+        '15-Nov-25',
+        '',
+        '2,000.00',
+        '102,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.Transfer);
+      expect(result!.meta?.counterpartyAccount).toBe('3012345678');
+      expect(result!.meta?.counterpartyName).toBe('JOHN DOE');
+    });
+
+    it('parses POS transaction', () => {
+      const row = [
+        '15-Nov-25',
+        'FT1',
+        'POS/WEB PMT @ SHOPRITE LEKKI',
+        '15-Nov-25',
+        '12,500.00',
+        '',
+        '87,500.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.CardPayment);
+      expect(result!.meta?.counterpartyName).toBe('SHOPRITE LEKKI');
+    });
+
+    it('parses ATM withdrawal', () => {
+      const row = ['15-Nov-25', 'FT1', 'ATM WDL @ 10011 FBN IKEJA', '15-Nov-25', '20,000.00', '', '80,000.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.AtmWithdrawal);
+      expect(result!.meta?.counterpartyName).toBe('FBN IKEJA');
+    });
+
+    it('parses airtime purchase', () => {
+      const row = ['15-Nov-25', 'FT1', 'FBNMOBILE:AIRTIME/08012345678/MTN', '15-Nov-25', '1,000.00', '', '99,000.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.Airtime);
+      expect(result!.meta?.narration).toBe('Airtime for 08012345678');
+      expect(result!.meta?.counterpartyName).toBe('MTN');
+    });
+
+    it('parses bank charges', () => {
+      const charges = ['SMS CHARGES', 'STAMP DUTY', 'ELECTRONIC MONEY TRANSFER LEVY', 'ACCOUNT MAINTENANCE FEE', 'VAT ON COMM'];
+
+      for (const narration of charges) {
+        const row = ['15-Nov-25', 'FT1', narration, '15-Nov-25', '50.00', '', '99,950.00'];
+        expect(parser.parseTransaction(row)!.meta?.type).toBe(TransactionType.BankCharge);
+      }
+    });
+
+    it('does not mistake words containing vat for a charge', () => {
+      const row = ['15-Nov-25', 'FT1', 'NIP/GTB/PRIVATE SCHOOLS LTD/fees', '15-Nov-25', '50.00', '', '99,950.00'];
+
+      expect(parser.parseTransaction(row)!.meta?.type).toBe(TransactionType.Transfer);
+    });
+
+    it('parses bill payment', () => {
+      const row = ['15-Nov-25', 'FT1', 'BILLS PYMT DSTV 1234567890', '15-Nov-25', '9,000.00', '', '91,000.00'];
+
+      expect(parser.parseTransaction(row)!.meta?.type).toBe(TransactionType.BillPayment);
+    });
+
+    it('parses reversal transaction', () => {
+      const row = ['15-Nov-25', 'FT1', 'RVSL NIP/GTB/JOHN DOE', '15-Nov-25', '', '5,000.00', '105,000.00'];
+
+      expect(parser.parseTransaction(row)!.meta?.type).toBe(TransactionType.Reversal);
+    });
+
+    it('parses interest credit', () => {
+      const row = ['30-Nov-25', 'FT1', 'CREDIT INTEREST', '30-Nov-25', '', '150.00', '100,150.00'];
+
+      expect(parser.parseTransaction(row)!.meta?.type).toBe(TransactionType.Interest);
+    });
+
+    it('returns null for invalid date format', () => {
+      const row = ['2025-11-15', 'FT1', 'Test', '2025-11-15', '', '100.00', '100.00'];
+      expect(parser.parseTransaction(row)).toBeNull();
+    });
+
+    it('returns null when no valid amount', () => {
+      const row = ['15-Nov-25', 'FT1', 'Test', '15-Nov-25', '', '', '100.00'];
+      expect(parser.parseTransaction(row)).toBeNull();
+    });
+
+    it('stores balance after in meta', () => {
+      const row = ['15-Nov-25', 'FT1', 'Test', '15-Nov-25', '', '100.00', '1,234,567.89'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.balanceAfter).toBe(123456789);
+    });
+
+    it('stores the value date apart from session IDs', () => {
+      const row = ['15-Nov-25', 'FT1', 'Test', '17-Nov-25', '', '100.00', '100.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.valueDate).toBe('2025-11-16T23:00:00.000Z');
+      expect(result!.meta?.hasTime).toBe(false);
+      expect(result!.meta?.sessionId).toBeUndefined();
+    });
+
+    it('generates unique IDs for different transactions', () => {
+      const row1 = ['15-Nov-25', 'FT1', 'SMS CHARGES', '15-Nov-25', '4.00', '', '99,996.00'];
+      const row2 = ['15-Nov-25', 'FT2', 'SMS CHARGES', '15-Nov-25', '4.00', '', '99,992.00'];
+
+      expect(parser.parseTransaction(row1)!.id).not.toBe(parser.parseTransaction(row2)!.id);
+    });
+  });
+
+  describe('extractRowsFromPdfText', () => {
+    it('extracts rows and infers credit or debit from the balance', () => {
+      const pdfText = `
+        FIRST BANK OF NIGERIA LIMITED
+        Opening Balance 100,000.00
+        Trans Date Reference Transaction Details Value Date Withdrawals Lodgements Balance
+        15-Nov-25 FT25319ABCD NIP/ZENITH/JOHN DOE/Salary 15-Nov-25 50,000.00 150,000.00
+        16-Nov-25 FT25320EFGH POS/WEB PMT @ SHOPRITE LEKKI 16-Nov-25 12,500.00 137,500.00
+      `;
+
+      const rows = FirstBankParser.extractRowsFromPdfText(pdfText);
+
+      expect(rows).toEqual([
+        ['15-Nov-25', 'FT25319ABCD', 'NIP/ZENITH/JOHN DOE/Salary', '15-Nov-25', '', '50,000.00', '150,000.00'],
+        ['16-Nov-25', 'FT25320EFGH', 'POS/WEB PMT @ SHOPRITE LEKKI', '16-Nov-25', '12,500.00', '', '137,500.00'],
+      ]);
+    });
+
+    it('handles transactions split across pages', () => {
+      const pdfText = `
+        Opening Balance 1,000.00
+        15-Nov-25 FT1 SMS CHARGES 15-Nov-25 4.00 996.00
+        Page 1 of 2
+        Trans Date Reference Transaction Details Value Date Withdrawals Lodgements Balance
+        16-Nov-25 FT2 TRF FROM 3012345678 JOHN DOE 16-Nov-25 2,000.00 2,996.00
+      `;
+
+      const rows = FirstBankParser.extractRowsFromPdfText(pdfText);
+
+      expect(rows).toHaveLength(2);
+      expect(rows[1][5]).toBe('2,000.00');
+    });
+
+    it('skips balance brought forward rows', () => {
+      const pdfText = `
+        15-Nov-25 - BALANCE B/F 15-Nov-25 0.00 1,000.00
+        16-Nov-25 FT2 SMS CHARGES 16-Nov-25 4.00 996.00
+      `;
+
+      const rows = FirstBankParser.extractRowsFromPdfText(pdfText);
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0][2]).toBe('SMS CHARGES');
+    });
+
+    it('returns empty array for text without transactions', () => {
+      expect(FirstBankParser.extractRowsFromPdfText('No transaction data here')).toEqual([]);
+    });
+  });
+
+  describe('bankName', () => {
+    it('returns First Bank', () => {
+      expect(parser.bankName).toBe('First Bank');
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { GtbParser } from '~/lib/parsers/gtb';
+import { extractRowsFromLayout, type PositionedText } from '~/lib/parsers/processors/layout';
+import { mergePageText } from '~/lib/parsers/processors/pdf';
 import { BankType, TransactionCategory, TransactionType } from '~/types';
 
 describe('GtbParser', () => {
@@ -273,7 +275,7 @@ describe('GtbParser', () => {
       expect(result!.meta?.balanceAfter).toBe(10100000); // 101,000 * 100
     });
 
-    it('stores value date as sessionId', () => {
+    it('stores the value date apart from session IDs', () => {
       const row = [
         '15-Nov-2025',
         '16-Nov-2025',
@@ -285,7 +287,9 @@ describe('GtbParser', () => {
       ];
 
       const result = parser.parseTransaction(row);
-      expect(result!.meta?.sessionId).toBe('16-Nov-2025');
+      expect(result!.meta?.valueDate).toBe('2025-11-15T23:00:00.000Z');
+      expect(result!.meta?.hasTime).toBe(false);
+      expect(result!.meta?.sessionId).toBeUndefined();
     });
 
     it('generates unique IDs for different transactions', () => {
@@ -349,6 +353,73 @@ describe('GtbParser', () => {
     });
   });
 
+  describe('pdfLayout', () => {
+    const item = (text: string, x: number, y: number): PositionedText => ({
+      text,
+      x,
+      y,
+      width: text.length * 5,
+      height: 8,
+    });
+
+    const page = [
+      item('Opening Balance', 20, 740),
+      item('0.00', 100, 740),
+      item('Closing Balance', 200, 740),
+      item('49,000.00', 280, 740),
+      item('Value Date', 20, 725),
+      item('Reference', 80, 725),
+      item('Debits', 140, 725),
+      item('Credits', 200, 725),
+      item('Trans. Date', 20, 700),
+      item('Value. Date', 80, 700),
+      item('Reference', 140, 700),
+      item('Debits', 220, 700),
+      item('Credits', 290, 700),
+      item('Balance', 360, 700),
+      item('Originating Branch', 430, 700),
+      item('Remarks', 540, 700),
+      item('15-Nov-2025', 20, 680),
+      item('15-Nov-2025', 80, 680),
+      item("'REF1", 140, 680),
+      item('50,000.00', 288, 680),
+      item('50,000.00', 355, 680),
+      item('E-CHANNELS', 430, 680),
+      item('NIP TRANSFER FROM', 540, 680),
+      item('JOHN DOE', 540, 670),
+      item('16-Nov-2025', 20, 650),
+      item('16-Nov-2025', 80, 650),
+      item("'REF2", 140, 650),
+      item('1,000.00', 218, 650),
+      item('49,000.00', 355, 650),
+      item('E-CHANNELS', 430, 650),
+      item('AIRTIME', 540, 650),
+      item('This is a computer generated Email. Please contact your local branch.1.', 20, 100),
+    ];
+
+    it('reads debits and credits from their own columns', () => {
+      const rows = extractRowsFromLayout([page], parser.pdfLayout);
+      const transactions = rows.map((row) => parser.parseTransaction(row));
+
+      expect(rows).toHaveLength(2);
+      expect(transactions[0]!.amount).toBe(5000000);
+      expect(transactions[0]!.description).toBe('NIP TRANSFER FROM JOHN DOE');
+      expect(transactions[1]!.amount).toBe(-100000);
+      expect(transactions[1]!.meta?.balanceAfter).toBe(4900000);
+    });
+
+    it('gives the same IDs as rows read from the statement text', () => {
+      const text = mergePageText([{ text: page.map((piece) => piece.text).join('\n'), items: page, ocr: false }]);
+      const idsOf = (rows: ReturnType<typeof GtbParser.extractRowsFromPdfText>) =>
+        rows.map((row) => parser.parseTransaction(row)?.id);
+
+      const fromLayout = idsOf(extractRowsFromLayout([page], parser.pdfLayout));
+
+      expect(fromLayout).toHaveLength(2);
+      expect(fromLayout).toEqual(idsOf(GtbParser.extractRowsFromPdfText(text)));
+    });
+  });
+
   describe('bankName', () => {
     it('returns GTB', () => {
       expect(parser.bankName).toBe('GTB');
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { stableHash, transactionKey, withOccurrenceIds } from '~/lib/parsers/ids';
+import { CustomParser } from '~/lib/parsers/custom';
+import type { ImportTemplate, RawRow, Transaction } from '~/types';
+
+const template: ImportTemplate = {
+  id: 'tpl-1',
+  name: 'Test',
+  columns: { date: 0, description: 1, debit: 2, credit: 3, balance: 4 },
+  amountStyle: 'split',
+  dateFormat: 'DD/MM/YYYY',
+  headers: [],
+  createdAt: 0,
+};
+
+const parser = new CustomParser(template);
+
+function parseStatement(rows: RawRow[]): Transaction[] {
+  return withOccurrenceIds(rows.map((row) => parser.parseTransaction(row)!));
+}
+
+const salary: RawRow = ['14/11/2025', 'Salary', '', '50,000.00', '50,000.00'];
+const airtime: RawRow = ['15/11/2025', 'Airtime purchase', '100.00', '', ''];
+const rent: RawRow = ['16/11/2025', 'Rent', '20,000.00', '', ''];
+
+describe('stableHash', () => {
+  it('is deterministic', () => {
+    expect(stableHash('2025-11-15|100|airtime')).toBe(stableHash('2025-11-15|100|airtime'));
+  });
+
+  it('returns 28 hex characters', () => {
+    expect(stableHash('anything')).toMatch(/^[0-9a-f]{28}$/);
+  });
+
+  it('separates near-identical inputs', () => {
+    const hashes = new Set(Array.from({ length: 10000 }, (_, i) => stableHash(`airtime-${i}`)));
+
+    expect(hashes.size).toBe(10000);
+  });
+});
+
+describe('transactionKey', () => {
+  it('does not let fields run into each other', () => {
+    expect(transactionKey('2025-11-15', 100, 'a-b', 'c')).not.toBe(transactionKey('2025-11-15', 100, 'a', 'b-c'));
+  });
+
+  it('ignores empty parts', () => {
+    expect(transactionKey('2025-11-15', 100, '', 'desc')).toBe(transactionKey('2025-11-15', 100, 'desc'));
+  });
+});
+
+describe('currency in IDs', () => {
+  it('keeps the same row in two currencies apart', () => {
+    const dollars = new CustomParser(template);
+    dollars.currency = 'USD';
+
+    const naira = parser.parseTransaction(salary)!;
+    const usd = dollars.parseTransaction(salary)!;
+
+    expect(usd.currency).toBe('USD');
+    expect(usd.id).not.toBe(naira.id);
+  });
+
+  it('leaves naira IDs as they were', () => {
+    const tx = parser.parseTransaction(salary)!;
+
+    expect(tx.id).toBe(`custom-${stableHash(transactionKey(tx.date, tx.amount, tx.reference, tx.description))}`);
+  });
+});
+
+describe('withOccurrenceIds', () => {
+  it('keeps genuinely repeated transactions apart', () => {
+    const transactions = parseStatement([salary, airtime, airtime, rent]);
+    const ids = transactions.map((tx) => tx.id);
+
+    expect(new Set(ids).size).toBe(4);
+    expect(ids[2]).toBe(`${ids[1]}-1`);
+  });
+
+  it('leaves unique transactions untouched', () => {
+    const parsed = [salary, rent].map((row) => parser.parseTransaction(row)!);
+
+    expect(withOccurrenceIds(parsed)).toEqual(parsed);
+  });
+
+  it('gives the same IDs when a statement is imported again', () => {
+    const first = parseStatement([salary, airtime, airtime, rent]).map((tx) => tx.id);
+    const again = parseStatement([salary, airtime, airtime, rent]).map((tx) => tx.id);
+
+    expect(again).toEqual(first);
+  });
+
+  it('matches rows shared by overlapping statements', () => {
+    const january = parseStatement([salary, airtime, airtime]).map((tx) => tx.id);
+    const overlap = parseStatement([airtime, airtime, rent]).map((tx) => tx.id);
+
+    expect(overlap.slice(0, 2)).toEqual(january.slice(1));
+    expect(january).not.toContain(overlap[2]);
+  });
+
+  it('does not mutate the input', () => {
+    const parsed = [airtime, airtime].map((row) => parser.parseTransaction(row)!);
+    const originalIds = parsed.map((tx) => tx.id);
+
+    withOccurrenceIds(parsed);
+
+    expect(parsed.map((tx) => tx.id)).toEqual(originalIds);
+  });
+});
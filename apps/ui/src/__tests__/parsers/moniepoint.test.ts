@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { MoniepointParser } from '~/lib/parsers/moniepoint';
+import { BankType, TransactionCategory, TransactionType } from '~/types';
+
+describe('MoniepointParser', () => {
+  const parser = new MoniepointParser();
+
+  describe('parseTransaction', () => {
+    it('returns null for empty row', () => {
+      expect(parser.parseTransaction([])).toBeNull();
+    });
+
+    it('returns null for the header row', () => {
+      const row = ['Date', 'Narration', 'Reference', 'Debit', 'Credit', 'Balance'];
+      expect(parser.parseTransaction(row)).toBeNull();
+    });
+
+    it('parses a credit transaction', () => {
+      // [Date, Narration, Reference, Debit, Credit, Balance]
+      const row = [
+        '15/11/2025 14:32:10',
+        'Transfer from JOHN DOE (GTBank) - lunch',
+        'MFDS2025111514321000123',
+        '',
+        '5,000.00',
+        '25,000.00',
+      ];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result).not.toBeNull();
+      expect(result!.bankSource).toBe(BankType.Moniepoint);
+      expect(result!.amount).toBe(500000);
+      expect(result!.category).toBe(TransactionCategory.Inflow);
+      expect(result!.reference).toBe('MFDS2025111514321000123');
+      expect(result!.meta?.balanceAfter).toBe(2500000);
+    });
+
+    it('parses a debit transaction', () => {
+      const row = ['15/11/2025 15:00:00', 'Transfer to JANE SMITH (OPay)', 'REF2', '2,000.00', '', '23,000.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.amount).toBe(-200000);
+      expect(result!.category).toBe(TransactionCategory.Outflow);
+    });
+
+    it('keeps the time of day', () => {
+      const row = ['15/11/2025 14:32:10', 'Transfer to JANE SMITH', 'REF', '100.00', '', '900.00'];
+
+      expect(parser.parseTransaction(row)!.date).toBe('2025-11-15T13:32:10.000Z');
+    });
+
+    it('accepts ISO style dates', () => {
+      const row = ['2025-11-15 09:05:00', 'Transfer to JANE SMITH', 'REF', '100.00', '', '900.00'];
+
+      expect(parser.parseTransaction(row)!.date).toBe('2025-11-15T08:05:00.000Z');
+    });
+
+    it('extracts counterparty from transfers', () => {
+      const row = ['15/11/2025 14:32:10', 'Transfer from JOHN DOE (GTBank) - lunch', 'REF', '', '5,000.00', '25,000.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.Transfer);
+      expect(result!.meta?.counterpartyName).toBe('JOHN DOE');
+      expect(result!.meta?.counterpartyBank).toBe('GTBank');
+      expect(result!.meta?.narration).toBe('lunch');
+    });
+
+    it('keeps the full narration when a transfer has no remark', () => {
+      const row = ['15/11/2025 14:32:10', 'Transfer to JANE SMITH', 'REF', '100.00', '', '900.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.counterpartyName).toBe('JANE SMITH');
+      expect(result!.meta?.counterpartyBank).toBeUndefined();
+      expect(result!.meta?.narration).toBe('Transfer to JANE SMITH');
+    });
+
+    it('parses POS settlement rows on business accounts', () => {
+      const row = ['15/11/2025 23:59:00', 'POS Settlement - TID 2MPT0001 (12 txns)', 'STL123', '', '84,500.00', '184,500.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.amount).toBe(8450000);
+      expect(result!.meta?.type).toBe(TransactionType.CardPayment);
+      expect(result!.meta?.rawCategory).toBe('POS Settlement');
+      expect(result!.meta?.counterpartyName).toBe('POS terminal 2MPT0001');
+      expect(result!.meta?.narration).toBe('POS settlement for terminal 2MPT0001, 12 transactions');
+      expect(result!.meta?.balanceAfter).toBe(18450000);
+    });
+
+    it('parses POS settlement rows without a transaction count', () => {
+      const row = ['15/11/2025 23:59:00', 'POS Settlement: TID:2MPT0002', 'STL124', '', '1,000.00', '2,000.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.rawCategory).toBe('POS Settlement');
+      expect(result!.meta?.narration).toBe('POS settlement for terminal 2MPT0002');
+    });
+
+    it('treats terminal charges as bank charges', () => {
+      const row = ['15/11/2025 23:59:00', 'POS Charge - TID 2MPT0001', 'CHG1', '422.50', '', '184,077.50'];
+
+      expect(parser.parseTransaction(row)!.meta?.type).toBe(TransactionType.BankCharge);
+    });
+
+    it('parses card purchase', () => {
+      const row = ['15/11/2025 10:00:00', 'Card purchase - JUMIA NIGERIA', 'REF', '12,000.00', '', '13,000.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.CardPayment);
+      expect(result!.meta?.counterpartyName).toBe('JUMIA NIGERIA');
+    });
+
+    it('parses airtime purchase', () => {
+      const row = ['15/11/2025 10:00:00', 'Airtime purchase - 08012345678 (MTN)', 'REF', '500.00', '', '12,500.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.Airtime);
+      expect(result!.meta?.narration).toBe('Airtime for 08012345678');
+      expect(result!.meta?.counterpartyName).toBe('MTN');
+    });
+
+    it('parses bill payment', () => {
+      const row = ['15/11/2025 10:00:00', 'Electricity - IKEDC Prepaid', 'REF', '10,000.00', '', '2,500.00'];
+
+      const result = parser.parseTransaction(row);
+
+      expect(result!.meta?.type).toBe(TransactionType.BillPayment);
+      expect(result!.meta?.counterpartyName).toBe('IKEDC Prepaid');
+    });
+
+    it('parses cash withdrawal', () => {
+      const row = ['15/11/2025 10:00:00', 'Cash withdrawal - Agent 2MPA0042', 'REF', '5,000.00', '', '7,500.00'];
+
+      expect(parser.parseTransaction(row)!.meta?.type).toBe(TransactionType.AtmWithdrawal);
+    });
+
+    it('parses transfer fees and stamp duty as bank charges', () => {
+      for (const narration of ['Transfer fee', 'Stamp duty', 'EMTL']) {
+        const row = ['15/11/2025 10:00:00', narration, 'REF', '10.00', '', '7,490.00'];
+        expect(parser.parseTransaction(row)!.meta?.type).toBe(TransactionType.BankCharge);
+      }
+    });
+
+    it('parses reversal', () => {
+      const row = ['15/11/2025 10:00:00', 'Reversal - Transfer to JANE SMITH', 'REF', '', '2,000.00', '9,490.00'];
+
+      expect(parser.parseTransaction(row)!.meta?.type).toBe(TransactionType.Reversal);
+    });
+
+    it('generates a reference when the export has none', () => {
+      const row = ['15/11/2025 10:00:00', 'Stamp duty', '', '50.00', '', '9,440.00'];
+
+      expect(parser.parseTransaction(row)!.reference).toBeTruthy();
+    });
+
+    it('returns null when no valid amount', () => {
+      const row = ['15/11/2025 10:00:00', 'Opening balance', '', '', '', '9,440.00'];
+      expect(parser.parseTransaction(row)).toBeNull();
+    });
+
+    it('generates unique IDs', () => {
+      const row1 = ['15/11/2025 10:00:00', 'Transfer to A', 'REF1', '100.00', '', '900.00'];
+      const row2 = ['15/11/2025 10:00:00', 'Transfer to B', 'REF2', '100.00', '', '800.00'];
+
+      const result1 = parser.parseTransaction(row1);
+      const result2 = parser.parseTransaction(row2);
+
+      expect(result1!.id).not.toBe(result2!.id);
+      expect(result1!.id).toMatch(/^moniepoint-/);
+    });
+  });
+
+  describe('bankName', () => {
+    it('returns Moniepoint', () => {
+      expect(parser.bankName).toBe('Moniepoint');
+    });
+  });
+});
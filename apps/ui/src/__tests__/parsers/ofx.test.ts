@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import { OfxParser } from '~/lib/parsers/ofx';
+import { extractRowsFromOfx } from '~/lib/parsers/processors';
+import { BankType, TransactionCategory, TransactionType } from '~/types';
+
+function toBuffer(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+const SGML_OFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+SECURITY:NONE
+ENCODING:USASCII
+CHARSET:1252
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<CURDEF>NGN
+<BANKTRANLIST>
+<DTSTART>20251101
+<DTEND>20251130
+<STMTTRN>
+<TRNTYPE>DIRECTDEP
+<DTPOSTED>20251115120000.000[+1:WAT]
+<TRNAMT>50000.00
+<FITID>2025111500001
+<NAME>JOHN DOE
+<MEMO>Salary November
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>POS
+<DTPOSTED>20251116
+<TRNAMT>-12500.50
+<FITID>2025111600002
+<NAME>SHOPRITE LEKKI
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>FEE
+<DTPOSTED>20251116
+<TRNAMT>-50.00
+<FITID>2025111600003
+<MEMO>Stamp duty
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>137449.50
+<DTASOF>20251130
+</LEDGERBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>`;
+
+const XML_OFX = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE"?>
+<OFX>
+  <BANKMSGSRSV1><STMTTRNRS><STMTRS>
+    <BANKTRANLIST>
+      <STMTTRN>
+        <TRNTYPE>DEBIT</TRNTYPE>
+        <DTPOSTED>20251101</DTPOSTED>
+        <TRNAMT>-1000,50</TRNAMT>
+        <FITID>X1</FITID>
+        <NAME>Tom &amp; Jerry Ltd</NAME>
+      </STMTTRN>
+    </BANKTRANLIST>
+  </STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+// A current account and a credit card in one download, each with its own ledger balance
+const TWO_ACCOUNT_OFX = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE"?>
+<OFX>
+  <BANKMSGSRSV1><STMTTRNRS><STMTRS>
+    <BANKTRANLIST>
+      <STMTTRN><TRNTYPE>CREDIT</TRNTYPE><DTPOSTED>20251101</DTPOSTED><TRNAMT>20000.00</TRNAMT><FITID>A1</FITID></STMTTRN>
+      <STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20251102</DTPOSTED><TRNAMT>-5000.00</TRNAMT><FITID>A2</FITID></STMTTRN>
+    </BANKTRANLIST>
+    <LEDGERBAL><BALAMT>65000.00</BALAMT><DTASOF>20251130</DTASOF></LEDGERBAL>
+  </STMTRS></STMTTRNRS></BANKMSGSRSV1>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <BANKTRANLIST>
+      <STMTTRN><TRNTYPE>POS</TRNTYPE><DTPOSTED>20251103</DTPOSTED><TRNAMT>-1500.00</TRNAMT><FITID>C1</FITID></STMTTRN>
+    </BANKTRANLIST>
+    <LEDGERBAL><BALAMT>-1500.00</BALAMT><DTASOF>20251130</DTASOF></LEDGERBAL>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+describe('extractRowsFromOfx', () => {
+  it('extracts STMTTRN entries from SGML files', () => {
+    const rows = extractRowsFromOfx(toBuffer(SGML_OFX));
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0].slice(0, 6)).toEqual([
+      '20251115120000.000[+1:WAT]',
+      '50000.00',
+      '2025111500001',
+      'JOHN DOE',
+      'Salary November',
+      'DIRECTDEP',
+    ]);
+    expect(rows[2][3]).toBeUndefined();
+    expect(rows[2][4]).toBe('Stamp duty');
+  });
+
+  it('works back running balances from LEDGERBAL', () => {
+    const rows = extractRowsFromOfx(toBuffer(SGML_OFX));
+
+    expect(rows.map((r) => r[6])).toEqual(['150000.00', '137499.50', '137449.50']);
+  });
+
+  it('works back balances for each account from its own LEDGERBAL', () => {
+    const rows = extractRowsFromOfx(toBuffer(TWO_ACCOUNT_OFX));
+
+    expect(rows.map((r) => r[2])).toEqual(['A1', 'A2', 'C1']);
+    expect(rows.map((r) => r[6])).toEqual(['70000.00', '65000.00', '-1500.00']);
+  });
+
+  it('extracts entries from XML files', () => {
+    const rows = extractRowsFromOfx(toBuffer(XML_OFX));
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0][1]).toBe('-1000.50');
+    expect(rows[0][3]).toBe('Tom & Jerry Ltd');
+  });
+
+  it('leaves balances empty without a ledger balance', () => {
+    const rows = extractRowsFromOfx(toBuffer(XML_OFX));
+
+    expect(rows[0][6]).toBeUndefined();
+  });
+
+  it('rejects files that are not OFX', () => {
+    expect(() => extractRowsFromOfx(toBuffer('Date,Amount\n2025-11-01,100'))).toThrow('Not a valid OFX file');
+  });
+});
+
+describe('OfxParser', () => {
+  const parser = new OfxParser();
+  const rows = extractRowsFromOfx(toBuffer(SGML_OFX));
+
+  it('imports as custom by default', () => {
+    expect(parser.parseTransaction(rows[0])!.bankSource).toBe(BankType.Custom);
+  });
+
+  it('uses the bank it was created for', () => {
+    expect(new OfxParser(BankType.Kuda).parseTransaction(rows[0])!.bankSource).toBe(BankType.Kuda);
+  });
+
+  it('parses a credit', () => {
+    const result = parser.parseTransaction(rows[0]);
+
+    expect(result!.amount).toBe(5000000);
+    expect(result!.category).toBe(TransactionCategory.Inflow);
+    expect(result!.description).toBe('JOHN DOE');
+    expect(result!.meta?.narration).toBe('Salary November');
+    expect(result!.meta?.counterpartyName).toBe('JOHN DOE');
+    expect(result!.meta?.balanceAfter).toBe(15000000);
+  });
+
+  it('parses a debit', () => {
+    const result = parser.parseTransaction(rows[1]);
+
+    expect(result!.amount).toBe(-1250050);
+    expect(result!.category).toBe(TransactionCategory.Outflow);
+  });
+
+  it('uses FITID as the reference', () => {
+    expect(parser.parseTransaction(rows[0])!.reference).toBe('2025111500001');
+  });
+
+  it('gives the same ID when the file is imported again', () => {
+    const again = extractRowsFromOfx(toBuffer(SGML_OFX));
+
+    expect(parser.parseTransaction(again[0])!.id).toBe(parser.parseTransaction(rows[0])!.id);
+  });
+
+  it('applies the timezone offset in DTPOSTED', () => {
+    const result = parser.parseTransaction(rows[0]);
+
+    expect(result!.date).toBe('2025-11-15T11:00:00.000Z');
+  });
+
+  it('treats dates without an offset as GMT', () => {
+    expect(parser.parseTransaction(rows[1])!.date).toBe('2025-11-16T00:00:00.000Z');
+  });
+
+  it('only marks dates with a real time of day as timed', () => {
+    expect(parser.parseTransaction(rows[0])!.meta?.hasTime).toBe(true);
+    expect(parser.parseTransaction(rows[1])!.meta?.hasTime).toBe(false);
+  });
+
+  it('maps TRNTYPE to a transaction type', () => {
+    expect(parser.parseTransaction(rows[0])!.meta?.type).toBe(TransactionType.Transfer);
+    expect(parser.parseTransaction(rows[1])!.meta?.type).toBe(TransactionType.CardPayment);
+    expect(parser.parseTransaction(rows[2])!.meta?.type).toBe(TransactionType.BankCharge);
+    expect(parser.parseTransaction(rows[2])!.meta?.rawCategory).toBe('FEE');
+  });
+
+  it('falls back to the memo when there is no name', () => {
+    expect(parser.parseTransaction(rows[2])!.description).toBe('Stamp duty');
+  });
+
+  it('returns null for rows without a valid date or amount', () => {
+    expect(parser.parseTransaction(['not a date', '100.00'])).toBeNull();
+    expect(parser.parseTransaction(['20251101', ''])).toBeNull();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { PalmPayParser } from '~/lib/parsers/palmpay';
 import { BankType, TransactionCategory, TransactionType } from '~/types';
+import { zonedParts } from '~/lib/utils/timezone';
 
 describe('PalmPayParser', () => {
   const parser = new PalmPayParser();
@@ -204,15 +205,15 @@ describe('PalmPayParser', () => {
       expect(result12AM).not.toBeNull();
       expect(result12PM).not.toBeNull();
 
-      const dateAM = new Date(resultAM!.date);
-      const datePM = new Date(resultPM!.date);
-      const date12AM = new Date(result12AM!.date);
-      const date12PM = new Date(result12PM!.date);
+      const dateAM = zonedParts(resultAM!.date);
+      const datePM = zonedParts(resultPM!.date);
+      const date12AM = zonedParts(result12AM!.date);
+      const date12PM = zonedParts(result12PM!.date);
 
-      expect(dateAM.getHours()).toBe(11);
-      expect(datePM.getHours()).toBe(23);
-      expect(date12AM.getHours()).toBe(0);
-      expect(date12PM.getHours()).toBe(12);
+      expect(dateAM.hour).toBe(11);
+      expect(datePM.hour).toBe(23);
+      expect(date12AM.hour).toBe(0);
+      expect(date12PM.hour).toBe(12);
     });
 
     it('generates unique IDs', () => {
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { reconcileBalances } from '~/lib/parsers/reconcile';
+import { BankType, SpendingCategory, TransactionCategory, type Transaction } from '~/types';
+
+function tx(id: string, amount: number, balanceAfter?: number): Transaction {
+  return {
+    id,
+    date: '2025-11-15T00:00:00.000Z',
+    createdAt: 0,
+    description: `tx ${id}`,
+    amount,
+    currency: 'NGN',
+    category: amount > 0 ? TransactionCategory.Inflow : TransactionCategory.Outflow,
+    spendingCategory: amount > 0 ? SpendingCategory.Income : SpendingCategory.Other,
+    bankSource: BankType.GTB,
+    reference: id,
+    meta: balanceAfter === undefined ? {} : { balanceAfter },
+  };
+}
+
+describe('reconcileBalances', () => {
+  it('reconciles an oldest-first statement', () => {
+    const result = reconcileBalances([tx('a', 10000, 10000), tx('b', -2500, 7500), tx('c', 500, 8000)]);
+
+    expect(result).toEqual({ status: 'reconciled', checked: 2, breaks: [] });
+  });
+
+  it('reconciles a newest-first statement', () => {
+    const result = reconcileBalances([tx('c', 500, 8000), tx('b', -2500, 7500), tx('a', 10000, 10000)]);
+
+    expect(result.status).toBe('reconciled');
+    expect(result.checked).toBe(2);
+  });
+
+  it('flags a missing row', () => {
+    // A -1000 debit between b and c was dropped
+    const result = reconcileBalances([tx('a', 10000, 10000), tx('b', -2500, 7500), tx('c', 500, 7000)]);
+
+    expect(result.status).toBe('unreconciled');
+    expect(result.breaks).toEqual([
+      {
+        transactionId: 'c',
+        date: '2025-11-15T00:00:00.000Z',
+        description: 'tx c',
+        expectedBalance: 8000,
+        actualBalance: 7000,
+      },
+    ]);
+  });
+
+  it('flags a misparsed amount once instead of cascading', () => {
+    const result = reconcileBalances([
+      tx('a', 10000, 10000),
+      tx('b', -250, 7500),
+      tx('c', 500, 8000),
+      tx('d', -1000, 7000),
+    ]);
+
+    expect(result.breaks.map((b) => b.transactionId)).toEqual(['b']);
+    expect(result.checked).toBe(3);
+  });
+
+  it('carries amounts of rows without a balance into the next check', () => {
+    const result = reconcileBalances([tx('a', 10000, 10000), tx('b', -2500), tx('c', 500, 8000)]);
+
+    expect(result.status).toBe('reconciled');
+    expect(result.checked).toBe(1);
+  });
+
+  it('is unavailable without at least two balances', () => {
+    expect(reconcileBalances([tx('a', 10000), tx('b', -2500)]).status).toBe('unavailable');
+    expect(reconcileBalances([tx('a', 10000, 10000)]).status).toBe('unavailable');
+    expect(reconcileBalances([]).status).toBe('unavailable');
+  });
+});
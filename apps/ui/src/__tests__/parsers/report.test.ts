@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { CustomParser } from '~/lib/parsers/custom';
+import { noopLogger, type ParseResult } from '~/lib/parsers/base';
+import { SKIPPED_SAMPLE_ROWS, buildImportReport } from '~/lib/parsers/report';
+import type { ImportTemplate, RawRow } from '~/types';
+
+const template: ImportTemplate = {
+  id: 'tpl-1',
+  name: 'Test',
+  columns: { date: 0, description: 1, debit: 2, credit: 3, balance: 4 },
+  amountStyle: 'split',
+  dateFormat: 'DD/MM/YYYY',
+  headers: [],
+  createdAt: 0,
+};
+
+const parser = new CustomParser(template, noopLogger);
+
+function report(rows: RawRow[], results = rows.map((row, i) => parser.parseTransactionSafe(row, i))) {
+  return buildImportReport({ rows, results, currency: 'NGN', processingTimeMs: 12 });
+}
+
+describe('buildImportReport', () => {
+  it('counts what happened to every row', () => {
+    const rows: RawRow[] = [
+      ['14/11/2025', 'Salary', '', '50,000.00', '50,000.00'],
+      ['', '', '', '', ''],
+      ['15/11/2025', 'Airtime purchase', '100.00', '', '49,900.00'],
+      ['15/11/2025', 'Airtime purchase', '100.00', '', '49,800.00'],
+    ];
+    const { transactions, report: result } = report(rows);
+
+    expect(result.stats).toEqual({
+      totalRows: 4,
+      successfulTransactions: 3,
+      skippedRows: 1,
+      errors: 0,
+      processingTimeMs: 12,
+    });
+    expect(result.skippedRows).toEqual([]);
+    expect(result.reconciliation.status).toBe('reconciled');
+    expect(result.currency).toBe('NGN');
+    expect(transactions[2].id).toBe(`${transactions[1].id}-1`);
+  });
+
+  it('keeps the raw content of rows that failed', () => {
+    const rows: RawRow[] = [['31/02/2025', 'Transfer', '1,000.00', '', '']];
+    const results: ParseResult[] = [{ success: false, error: { rowIndex: 0, message: 'Invalid date', row: rows[0] } }];
+
+    const { report: result } = report(rows, results);
+
+    expect(result.stats.errors).toBe(1);
+    expect(result.failedRows).toEqual([{ rowIndex: 0, message: 'Invalid date', row: rows[0] }]);
+  });
+
+  it('lists no more than a sample of skipped rows', () => {
+    const rows: RawRow[] = Array.from({ length: SKIPPED_SAMPLE_ROWS + 10 }, (_, i) => ['Page', String(i + 1)]);
+    const results: ParseResult[] = rows.map(() => ({ success: false, error: null }));
+
+    const { report: result } = report(rows, results);
+
+    expect(SKIPPED_SAMPLE_ROWS).toBe(50);
+    expect(result.stats.skippedRows).toBe(60);
+    expect(result.skippedRows).toHaveLength(50);
+    expect(result.skippedRows[49]).toEqual({ rowIndex: 49, row: ['Page', '50'] });
+  });
+
+  it('notes pages read with OCR only when there were some', () => {
+    const rows: RawRow[] = [];
+
+    expect(report(rows).report.ocrPages).toBeUndefined();
+    expect(buildImportReport({ rows, results: [], currency: 'USD', processingTimeMs: 0, ocrPages: 2 }).report.ocrPages).toBe(2);
+  });
+});
@@ -339,7 +339,7 @@ describe('UbaParser', () => {
       expect(result!.meta?.balanceAfter).toBe(10100000);
     });
 
-    it('stores value date as sessionId', () => {
+    it('stores the value date apart from session IDs', () => {
       const row = [
         '01-Jan-2025',
         '02-Jan-2025',
@@ -350,7 +350,9 @@ describe('UbaParser', () => {
       ];
 
       const result = parser.parseTransaction(row);
-      expect(result!.meta?.sessionId).toBe('02-Jan-2025');
+      expect(result!.meta?.valueDate).toBe('2025-01-01T23:00:00.000Z');
+      expect(result!.meta?.hasTime).toBe(false);
+      expect(result!.meta?.sessionId).toBeUndefined();
     });
 
     it('handles all month abbreviations', () => {
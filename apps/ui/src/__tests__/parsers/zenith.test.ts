@@ -259,6 +259,14 @@ describe('ZenithParser', () => {
       expect(result!.meta?.balanceAfter).toBe(10100000);
     });
 
+    it('stores the value date', () => {
+      const row = ['01/01/2025', 'Test', '0.00', '1,000.00', '02/01/2025', '101,000.00'];
+
+      const result = parser.parseTransaction(row);
+      expect(result!.meta?.valueDate).toBe('2025-01-01T23:00:00.000Z');
+      expect(result!.meta?.hasTime).toBe(false);
+    });
+
     it('generates unique IDs', () => {
       const row1 = ['01/01/2025', 'Transaction 1', '0.00', '1,000.00', '01/01/2025', '100,000.00'];
       const row2 = ['01/01/2025', 'Transaction 2', '0.00', '2,000.00', '01/01/2025', '102,000.00'];
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CsvReader,
+  detectDelimiter,
+  detectEncoding,
+  extractRowsFromCsv,
+} from '~/lib/parsers/processors/csv';
+
+function utf8(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+function utf16(text: string, { bigEndian = false, bom = true } = {}): ArrayBuffer {
+  const units = (bom ? '\uFEFF' : '') + text;
+  const bytes = new Uint8Array(units.length * 2);
+  for (let i = 0; i < units.length; i++) {
+    const code = units.charCodeAt(i);
+    bytes[i * 2] = bigEndian ? code >> 8 : code & 0xff;
+    bytes[i * 2 + 1] = bigEndian ? code & 0xff : code >> 8;
+  }
+  return bytes.buffer;
+}
+
+describe('CsvReader', () => {
+  it('splits records and fields', () => {
+    const reader = new CsvReader();
+
+    expect([...reader.push('a,b,c\n1,2,3\n'), ...reader.end()]).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('keeps delimiters and line breaks inside quoted fields', () => {
+    const reader = new CsvReader();
+    const rows = [...reader.push('15/11/2025,"TRF FROM ADA,\nFOR RENT","1,000.00"\n'), ...reader.end()];
+
+    expect(rows).toEqual([['15/11/2025', 'TRF FROM ADA,\nFOR RENT', '1,000.00']]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    const reader = new CsvReader();
+
+    expect(reader.push('"POS ""SHOPRITE"" LEKKI",5\n')).toEqual([['POS "SHOPRITE" LEKKI', '5']]);
+  });
+
+  it('reads records split across chunks', () => {
+    const reader = new CsvReader();
+    const rows = [
+      ...reader.push('date,"narra'),
+      ...reader.push('tion ""x"""'),
+      ...reader.push(',amount\r'),
+      ...reader.push('\n1,2,3'),
+      ...reader.end(),
+    ];
+
+    expect(rows).toEqual([
+      ['date', 'narration "x"', 'amount'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('treats CR, LF and CRLF as line breaks', () => {
+    const reader = new CsvReader();
+
+    expect([...reader.push('a\rb\nc\r\nd'), ...reader.end()]).toEqual([['a'], ['b'], ['c'], ['d']]);
+  });
+
+  it('trims cells, turns empty ones into undefined and skips blank lines', () => {
+    const reader = new CsvReader();
+    const rows = [...reader.push(' a , ,"  "\n\n   \n,,\n'), ...reader.end()];
+
+    expect(rows).toEqual([
+      ['a', undefined, undefined],
+      [undefined, undefined, undefined],
+    ]);
+  });
+
+  it('is lenient with stray quotes', () => {
+    const reader = new CsvReader();
+
+    expect(reader.push('5" TV, "quoted"after,x\n')).toEqual([['5" TV', 'quotedafter', 'x']]);
+  });
+
+  it('keeps the rest of the file in a field whose quote never closes', () => {
+    const reader = new CsvReader();
+
+    expect([...reader.push('a,"open\nrest'), ...reader.end()]).toEqual([['a', 'open\nrest']]);
+  });
+
+  it('uses the delimiter it was given', () => {
+    const reader = new CsvReader(';');
+
+    expect(reader.push('1,5;"a;b";c\n')).toEqual([['1,5', 'a;b', 'c']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it.each([
+    [',', 'date,narration,amount\n01/11/2025,Salary,100\n02/11/2025,Rent,50\n'],
+    [';', 'date;narration;amount\n01/11/2025;Salary, Nov;100,00\n02/11/2025;Rent;50,00\n'],
+    ['\t', 'date\tnarration\tamount\n01/11/2025\tSalary, Nov\t100\n'],
+    ['|', 'date|narration|amount\n01/11/2025|Salary|100\n'],
+  ])('detects %j', (delimiter, sample) => {
+    expect(detectDelimiter(sample)).toBe(delimiter);
+  });
+
+  it('looks past account details above the table', () => {
+    const sample = [
+      'Account Name: Ada Obi',
+      'Period: 01 Nov, 2025 - 30 Nov, 2025',
+      'Date;Narration;Debit;Credit;Balance',
+      '01/11/2025;Salary;;100,00;100,00',
+      '02/11/2025;Rent;50,00;;50,00',
+      '',
+    ].join('\n');
+
+    expect(detectDelimiter(sample)).toBe(';');
+  });
+
+  it('ignores delimiters inside quotes', () => {
+    expect(detectDelimiter('a;b\n"1,2,3";4\n"5,6";7\n')).toBe(';');
+  });
+
+  it('falls back to commas', () => {
+    expect(detectDelimiter('just one column\nanother\n')).toBe(',');
+  });
+});
+
+describe('detectEncoding', () => {
+  it('reads byte order marks', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8');
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0]))).toBe('utf-16le');
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0, 0x61]))).toBe('utf-16be');
+  });
+
+  it('spots UTF-16 without a byte order mark', () => {
+    expect(detectEncoding(new Uint8Array(utf16('date,amount\n', { bom: false })))).toBe('utf-16le');
+    expect(detectEncoding(new Uint8Array(utf16('date,amount\n', { bom: false, bigEndian: true })))).toBe('utf-16be');
+  });
+
+  it('defaults to UTF-8', () => {
+    expect(detectEncoding(new Uint8Array(utf8('date,amount\n')))).toBe('utf-8');
+  });
+});
+
+describe('extractRowsFromCsv', () => {
+  it('strips a UTF-8 byte order mark', () => {
+    expect(extractRowsFromCsv(utf8('\uFEFFdate,amount\n01/11/2025,100\n'))).toEqual([
+      ['date', 'amount'],
+      ['01/11/2025', '100'],
+    ]);
+  });
+
+  it('reads UTF-16 in either byte order', () => {
+    const text = 'date\tnarration\n01/11/2025\tTRF ₦500\n';
+    const expected = [
+      ['date', 'narration'],
+      ['01/11/2025', 'TRF ₦500'],
+    ];
+
+    expect(extractRowsFromCsv(utf16(text))).toEqual(expected);
+    expect(extractRowsFromCsv(utf16(text, { bigEndian: true }))).toEqual(expected);
+  });
+
+  it('falls back to Windows-1252 when the file is not UTF-8', () => {
+    // "Café €5" in Windows-1252
+    const bytes = new Uint8Array([0x43, 0x61, 0x66, 0xe9, 0x2c, 0x80, 0x35, 0x0a]);
+
+    expect(extractRowsFromCsv(bytes.buffer)).toEqual([['Café', '€5']]);
+  });
+
+  it('reads files larger than one chunk', () => {
+    const narration = 'x'.repeat(70 * 1024);
+    const rows = extractRowsFromCsv(utf8(`date,narration\n01/11/2025,"${narration}\n€"\n02/11/2025,end\n`));
+
+    expect(rows).toHaveLength(3);
+    expect(rows[1][1]).toBe(`${narration}\n€`);
+    expect(rows[2]).toEqual(['02/11/2025', 'end']);
+  });
+
+  it('takes an explicit delimiter and encoding', () => {
+    const bytes = new Uint8Array([0x61, 0x7c, 0xe9, 0x0a]);
+
+    expect(extractRowsFromCsv(bytes.buffer, { delimiter: '|', encoding: 'windows-1252' })).toEqual([['a', 'é']]);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { extractRowsFromLayout, type PdfLayout, type PositionedText } from '~/lib/parsers/processors/layout';
+
+function item(text: string, x: number, y: number): PositionedText {
+  return { text, x, y, width: text.length * 5, height: 8 };
+}
+
+const layout: PdfLayout = {
+  columns: [/Date/i, /Description/i, /Debit/i, /Credit/i, /Balance/i],
+  rowStart: { column: 0, pattern: /^\d{2}\/\d{2}\/\d{4}$/ },
+  end: /end of statement/i,
+};
+
+const header = [
+  item('Date', 20, 700),
+  item('Description', 100, 700),
+  item('Debit', 300, 700),
+  item('Credit', 370, 700),
+  item('Balance', 440, 700),
+];
+
+describe('extractRowsFromLayout', () => {
+  it('puts text in the column it sits under', () => {
+    const rows = extractRowsFromLayout(
+      [
+        [
+          ...header,
+          item('01/11/2025', 20, 680),
+          item('Salary', 100, 680),
+          item('50,000.00', 365, 680),
+          item('50,000.00', 435, 680),
+          item('02/11/2025', 20, 660),
+          item('Airtime', 100, 660),
+          item('100.00', 300, 660),
+          item('49,900.00', 435, 660),
+        ],
+      ],
+      layout
+    );
+
+    expect(rows).toEqual([
+      ['01/11/2025', 'Salary', '', '50,000.00', '50,000.00'],
+      ['02/11/2025', 'Airtime', '100.00', '', '49,900.00'],
+    ]);
+  });
+
+  it('folds wrapped lines into the row above', () => {
+    const rows = extractRowsFromLayout(
+      [
+        [
+          ...header,
+          item('01/11/2025', 20, 680),
+          item('Transfer to', 100, 680),
+          item('5,000.00', 300, 680),
+          item('JOHN DOE', 100, 670),
+        ],
+      ],
+      layout
+    );
+
+    expect(rows[0][1]).toBe('Transfer to JOHN DOE');
+  });
+
+  it('keeps items with slightly different baselines on one line', () => {
+    const rows = extractRowsFromLayout(
+      [[...header, item('01/11/2025', 20, 680), item('Salary', 100, 681.5), item('50,000.00', 365, 679)]],
+      layout
+    );
+
+    expect(rows).toEqual([['01/11/2025', 'Salary', '', '50,000.00', '']]);
+  });
+
+  it('ignores text above the header and below the end marker', () => {
+    const rows = extractRowsFromLayout(
+      [
+        [
+          item('01/10/2025 opening', 20, 750),
+          ...header,
+          item('01/11/2025', 20, 680),
+          item('Salary', 100, 680),
+          item('End of statement', 20, 600),
+          item('Printed 02/12/2025', 20, 580),
+        ],
+      ],
+      layout
+    );
+
+    expect(rows).toEqual([['01/11/2025', 'Salary', '', '', '']]);
+  });
+
+  it('reuses the columns on pages without a header', () => {
+    const rows = extractRowsFromLayout(
+      [
+        [...header, item('01/11/2025', 20, 680), item('Salary', 100, 680)],
+        [item('02/11/2025', 20, 780), item('Airtime', 100, 780), item('100.00', 300, 780)],
+      ],
+      layout
+    );
+
+    expect(rows).toHaveLength(2);
+    expect(rows[1]).toEqual(['02/11/2025', 'Airtime', '100.00', '', '']);
+  });
+
+  it('does not take a line that mentions the column titles for a header', () => {
+    const rows = extractRowsFromLayout(
+      [
+        [...header, item('01/11/2025', 20, 680), item('Salary', 100, 680)],
+        [
+          item('Date, Description, Debit and Credit as at Balance date', 20, 800),
+          item('02/11/2025', 20, 780),
+          item('Airtime', 100, 780),
+          item('100.00', 300, 780),
+        ],
+      ],
+      layout
+    );
+
+    expect(rows[1]).toEqual(['02/11/2025', 'Airtime', '100.00', '', '']);
+  });
+
+  it('returns nothing when no header is found', () => {
+    expect(extractRowsFromLayout([[item('01/11/2025', 20, 680), item('Salary', 100, 680)]], layout)).toEqual([]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import type { Block } from 'tesseract.js';
+import { toRgba, wordsToItems } from '~/lib/parsers/processors/ocr';
+
+describe('toRgba', () => {
+  it('expands greyscale pixels', () => {
+    const rgba = toRgba({ data: new Uint8Array([10, 200]), width: 2, height: 1, channels: 1 });
+
+    expect([...rgba]).toEqual([10, 10, 10, 255, 200, 200, 200, 255]);
+  });
+
+  it('adds opacity to RGB pixels', () => {
+    const rgba = toRgba({ data: new Uint8Array([1, 2, 3]), width: 1, height: 1, channels: 3 });
+
+    expect([...rgba]).toEqual([1, 2, 3, 255]);
+  });
+
+  it('keeps RGBA pixels as they are', () => {
+    const rgba = toRgba({ data: new Uint8Array([1, 2, 3, 4]), width: 1, height: 1, channels: 4 });
+
+    expect([...rgba]).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe('wordsToItems', () => {
+  it('flips image coordinates so lines read top to bottom like PDF text', () => {
+    const word = (text: string, x0: number, y0: number) => ({
+      text,
+      bbox: { x0, y0, x1: x0 + 40, y1: y0 + 10 },
+    });
+    const blocks = [
+      {
+        paragraphs: [
+          {
+            lines: [
+              { words: [word('01/11/2025', 10, 100), word('Salary', 80, 100)] },
+              { words: [word('02/11/2025', 10, 120)] },
+            ],
+          },
+        ],
+      },
+    ] as unknown as Block[];
+
+    const items = wordsToItems(blocks);
+
+    expect(items.map((item) => item.text)).toEqual(['01/11/2025', 'Salary', '02/11/2025']);
+    expect(items[0]).toEqual({ text: '01/11/2025', x: 10, y: -110, width: 40, height: 10 });
+    expect(items[0].y).toBeGreaterThan(items[2].y);
+  });
+});
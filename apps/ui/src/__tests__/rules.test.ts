@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { applyRules, matchesRule, previewRules } from '~/lib/rules';
+import {
+  BankType,
+  SpendingCategory,
+  TransactionCategory,
+  TransactionType,
+  type Transaction,
+  type TransactionRule,
+} from '~/types';
+
+function tx(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'gtb-1',
+    date: '2025-11-14T23:00:00.000Z',
+    createdAt: 0,
+    description: 'NIP Transfer to JOHN O OKAFOR',
+    amount: -50000000,
+    currency: 'NGN',
+    category: TransactionCategory.Outflow,
+    spendingCategory: SpendingCategory.Transfers,
+    bankSource: BankType.GTB,
+    reference: 'ref',
+    meta: {
+      type: TransactionType.Transfer,
+      counterpartyName: 'JOHN O OKAFOR',
+      counterpartyAccount: '0123456789',
+    },
+    ...overrides,
+  };
+}
+
+function rule(overrides: Partial<TransactionRule>): TransactionRule {
+  return {
+    id: 'r1',
+    name: 'landlord',
+    conditions: {},
+    actions: {},
+    enabled: true,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+const landlord = rule({
+  conditions: { counterparty: 'okafor' },
+  actions: { category: SpendingCategory.Rent, counterpartyName: 'Landlord', tag: 'house' },
+});
+
+describe('matchesRule', () => {
+  it('matches text without regard to case', () => {
+    expect(matchesRule(tx(), rule({ conditions: { description: 'john o' } }))).toBe(true);
+    expect(matchesRule(tx(), rule({ conditions: { description: 'jane' } }))).toBe(false);
+  });
+
+  it('matches the counterparty name or account number', () => {
+    expect(matchesRule(tx(), rule({ conditions: { counterparty: 'Okafor' } }))).toBe(true);
+    expect(matchesRule(tx(), rule({ conditions: { counterparty: '0123456789' } }))).toBe(true);
+    expect(matchesRule(tx({ meta: {} }), rule({ conditions: { counterparty: 'okafor' } }))).toBe(false);
+  });
+
+  it('compares amounts either way round', () => {
+    const between = rule({ conditions: { amountMin: 40000000, amountMax: 60000000 } });
+
+    expect(matchesRule(tx(), between)).toBe(true);
+    expect(matchesRule(tx({ amount: 50000000 }), between)).toBe(true);
+    expect(matchesRule(tx({ amount: -100 }), between)).toBe(false);
+  });
+
+  it('needs every condition to hold', () => {
+    expect(matchesRule(tx(), rule({ conditions: { counterparty: 'okafor', bank: BankType.GTB } }))).toBe(true);
+    expect(matchesRule(tx(), rule({ conditions: { counterparty: 'okafor', bank: BankType.Kuda } }))).toBe(false);
+    expect(
+      matchesRule(tx(), rule({ conditions: { counterparty: 'okafor', type: TransactionType.CardPayment } }))
+    ).toBe(false);
+  });
+});
+
+describe('applyRules', () => {
+  it('sets the category, renames the counterparty and adds a tag', () => {
+    const result = applyRules(tx(), [landlord]);
+
+    expect(result.spendingCategory).toBe(SpendingCategory.Rent);
+    expect(result.meta?.counterpartyName).toBe('Landlord');
+    expect(result.meta?.bankCounterpartyName).toBe('JOHN O OKAFOR');
+    expect(result.meta?.tags).toEqual(['house']);
+  });
+
+  it('excludes transactions from analytics', () => {
+    const result = applyRules(tx(), [rule({ conditions: { description: 'okafor' }, actions: { exclude: true } })]);
+
+    expect(result.meta?.excluded).toBe(true);
+  });
+
+  it('lets a later rule win and collects tags from each', () => {
+    const result = applyRules(tx(), [
+      landlord,
+      rule({ id: 'r2', conditions: { bank: BankType.GTB }, actions: { category: SpendingCategory.Family, tag: 'gtb' } }),
+    ]);
+
+    expect(result.spendingCategory).toBe(SpendingCategory.Family);
+    expect(result.meta?.tags).toEqual(['house', 'gtb']);
+  });
+
+  it('skips disabled rules', () => {
+    expect(applyRules(tx(), [{ ...landlord, enabled: false }]).spendingCategory).toBe(SpendingCategory.Transfers);
+  });
+
+  it('gives the same result when run again over its own output', () => {
+    const once = applyRules(tx(), [landlord]);
+
+    expect(applyRules(once, [landlord])).toEqual(once);
+  });
+
+  it('undoes what a removed rule did', () => {
+    const result = applyRules(applyRules(tx(), [landlord]), []);
+
+    expect(result.spendingCategory).toBe(SpendingCategory.Transfers);
+    expect(result.meta?.counterpartyName).toBe('JOHN O OKAFOR');
+    expect(result.meta?.bankCounterpartyName).toBeUndefined();
+    expect(result.meta?.tags).toBeUndefined();
+  });
+});
+
+describe('previewRules', () => {
+  it('lists only the transactions that would change, and how', () => {
+    const changes = previewRules(
+      [
+        tx(),
+        tx({
+          id: 'gtb-2',
+          description: 'POS PURCHASE',
+          spendingCategory: SpendingCategory.Other,
+          meta: { type: TransactionType.CardPayment },
+        }),
+      ],
+      [landlord]
+    );
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].before.id).toBe('gtb-1');
+    expect(changes[0].fields).toEqual(['category', 'counterparty', 'tags']);
+  });
+
+  it('finds nothing to do once the rules have been applied', () => {
+    expect(previewRules([applyRules(tx(), [landlord])], [landlord])).toEqual([]);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { extractStatementInfo, hashFile, mergeCoverage, sortChronologically, summarizeStatement } from '~/lib/statements';
+import { BankType, SpendingCategory, TransactionCategory, type StatementRecord, type Transaction } from '~/types';
+
+function tx(date: string, amount: number, balanceAfter?: number): Transaction {
+  return {
+    id: `${date}-${amount}`,
+    date,
+    createdAt: 0,
+    description: 'test',
+    amount,
+    currency: 'NGN',
+    category: amount > 0 ? TransactionCategory.Inflow : TransactionCategory.Outflow,
+    spendingCategory: amount > 0 ? SpendingCategory.Income : SpendingCategory.Other,
+    bankSource: BankType.GTB,
+    reference: 'ref',
+    meta: balanceAfter === undefined ? {} : { balanceAfter },
+  };
+}
+
+function statement(overrides: Partial<StatementRecord>): StatementRecord {
+  return {
+    id: 's1',
+    bankSource: BankType.GTB,
+    fileName: 'statement.pdf',
+    fileHash: 'hash',
+    importedAt: 0,
+    ...overrides,
+  };
+}
+
+describe('extractStatementInfo', () => {
+  it('reads account details from PDF header text', () => {
+    const text = [
+      'Account Name JOHN ADEBAYO DOE   Account Number 0123456789',
+      'Period: 01-Jan-2025 to 31-Mar-2025',
+      'Opening Balance 12,500.00 Closing Balance 8,250.50',
+    ].join('\n');
+
+    const info = extractStatementInfo(text);
+
+    expect(info.accountName).toBe('JOHN ADEBAYO DOE');
+    expect(info.accountNumber).toBe('0123456789');
+    expect(info.periodStart).toBe('2024-12-31T23:00:00.000Z');
+    expect(info.periodEnd).toBe('2025-03-30T23:00:00.000Z');
+    expect(info.openingBalance).toBe(1250000);
+    expect(info.closingBalance).toBe(825050);
+  });
+
+  it('reads numeric periods and naira signs', () => {
+    const info = extractStatementInfo('From 01/11/2025 To 30/11/2025\nOpening Balance: ₦1,000.00');
+
+    expect(info.periodEnd).toBe('2025-11-29T23:00:00.000Z');
+    expect(info.openingBalance).toBe(100000);
+  });
+
+  it('reads the currency of domiciliary accounts', () => {
+    expect(extractStatementInfo('Account Currency: USD\nOpening Balance: $1,000.00')).toEqual({
+      currency: 'USD',
+      openingBalance: 100000,
+    });
+    expect(extractStatementInfo('DOMICILIARY ACCOUNT - POUNDS STERLING').currency).toBe('GBP');
+    expect(extractStatementInfo('Currency EURO').currency).toBe('EUR');
+    expect(extractStatementInfo('Currency: Naira').currency).toBe('NGN');
+  });
+
+  it('reads the currency of OFX files', () => {
+    expect(extractStatementInfo('<STMTRS>\n<CURDEF>GBP\n<BANKACCTFROM>').currency).toBe('GBP');
+  });
+
+  it('returns nothing it cannot find', () => {
+    expect(extractStatementInfo('Trans Date Narration Debit Credit Balance')).toEqual({});
+  });
+});
+
+describe('sortChronologically', () => {
+  it('keeps statement order within a day either way round', () => {
+    const a = tx('2025-11-01T00:00:00.000Z', 100);
+    const b = tx('2025-11-05T00:00:00.000Z', 200);
+    const c = tx('2025-11-05T00:00:00.000Z', 300);
+    const d = tx('2025-11-09T00:00:00.000Z', 400);
+
+    expect(sortChronologically([a, b, c, d])).toEqual([a, b, c, d]);
+    expect(sortChronologically([d, c, b, a])).toEqual([a, b, c, d]);
+  });
+});
+
+describe('summarizeStatement', () => {
+  const oldestFirst = [
+    tx('2025-11-01T00:00:00.000Z', 10000, 15000),
+    tx('2025-11-05T00:00:00.000Z', -2000, 13000),
+    tx('2025-11-09T00:00:00.000Z', 500, 13500),
+  ];
+
+  it('works out the period and balances from transactions', () => {
+    expect(summarizeStatement({}, oldestFirst)).toEqual({
+      periodStart: '2025-11-01T00:00:00.000Z',
+      periodEnd: '2025-11-09T00:00:00.000Z',
+      openingBalance: 5000,
+      closingBalance: 13500,
+    });
+  });
+
+  it('handles newest-first statements', () => {
+    const summary = summarizeStatement({}, [...oldestFirst].reverse());
+
+    expect(summary.openingBalance).toBe(5000);
+    expect(summary.closingBalance).toBe(13500);
+  });
+
+  it('keeps what the header stated', () => {
+    const summary = summarizeStatement({ openingBalance: 1, accountNumber: '0123456789' }, oldestFirst);
+
+    expect(summary.openingBalance).toBe(1);
+    expect(summary.accountNumber).toBe('0123456789');
+    expect(summary.closingBalance).toBe(13500);
+  });
+
+  it('leaves balances out when no transaction has one', () => {
+    const summary = summarizeStatement({}, [tx('2025-11-01T00:00:00.000Z', 100)]);
+
+    expect(summary.openingBalance).toBeUndefined();
+    expect(summary.closingBalance).toBeUndefined();
+  });
+});
+
+describe('mergeCoverage', () => {
+  it('merges overlapping and touching periods and keeps gaps', () => {
+    const coverage = mergeCoverage([
+      statement({ id: 'a', accountNumber: '1', periodStart: '2025-01-01T00:00:00.000Z', periodEnd: '2025-03-31T00:00:00.000Z' }),
+      statement({ id: 'b', accountNumber: '1', periodStart: '2025-03-01T00:00:00.000Z', periodEnd: '2025-04-30T00:00:00.000Z' }),
+      statement({ id: 'c', accountNumber: '1', periodStart: '2025-05-01T00:00:00.000Z', periodEnd: '2025-05-31T00:00:00.000Z' }),
+      statement({ id: 'd', accountNumber: '1', periodStart: '2025-08-01T00:00:00.000Z', periodEnd: '2025-08-31T00:00:00.000Z' }),
+    ]);
+
+    expect(coverage).toHaveLength(1);
+    expect(coverage[0].ranges).toEqual([
+      { start: '2025-01-01T00:00:00.000Z', end: '2025-05-31T00:00:00.000Z' },
+      { start: '2025-08-01T00:00:00.000Z', end: '2025-08-31T00:00:00.000Z' },
+    ]);
+  });
+
+  it('keeps accounts apart', () => {
+    const coverage = mergeCoverage([
+      statement({ accountNumber: '1', periodStart: '2025-01-01T00:00:00.000Z', periodEnd: '2025-01-31T00:00:00.000Z' }),
+      statement({ accountNumber: '2', periodStart: '2025-01-01T00:00:00.000Z', periodEnd: '2025-01-31T00:00:00.000Z' }),
+      statement({ bankSource: BankType.Kuda, periodStart: '2025-01-01T00:00:00.000Z', periodEnd: '2025-01-31T00:00:00.000Z' }),
+    ]);
+
+    expect(coverage).toHaveLength(3);
+  });
+
+  it('ignores statements without a period', () => {
+    expect(mergeCoverage([statement({})])).toEqual([]);
+  });
+});
+
+describe('hashFile', () => {
+  it('returns the SHA-256 hex digest', async () => {
+    const buffer = new TextEncoder().encode('abc').buffer as ArrayBuffer;
+
+    expect(await hashFile(buffer)).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { GtbParser } from '~/lib/parsers/gtb';
+import { stableHash, transactionKey } from '~/lib/parsers/ids';
+import { KudaParser } from '~/lib/parsers/kuda';
+import { MoniepointParser } from '~/lib/parsers/moniepoint';
+import { extractStatementInfo } from '~/lib/statements';
+import { formatDate, formatDateTime } from '~/lib/utils/format';
+import { zonedDate, zonedDay, zonedParts } from '~/lib/utils/timezone';
+
+const DEVICE_TIME_ZONES = ['UTC', 'Africa/Lagos', 'America/New_York', 'Asia/Tokyo', 'Pacific/Kiritimati'];
+
+const originalTimeZone = process.env.TZ;
+
+afterEach(() => {
+  // Assigning undefined would set the string "undefined"
+  if (originalTimeZone === undefined) delete process.env.TZ;
+  else process.env.TZ = originalTimeZone;
+});
+
+describe('zonedDate', () => {
+  it('places a wall-clock time in the time zone', () => {
+    expect(zonedDate(2025, 0, 31, 23, 30).toISOString()).toBe('2025-01-31T22:30:00.000Z');
+    expect(zonedDate(2025, 10, 15, 0, 0, 0, 'UTC').toISOString()).toBe('2025-11-15T00:00:00.000Z');
+    expect(zonedDate(2025, 10, 15, 0, 0, 0, 'Asia/Tokyo').toISOString()).toBe('2025-11-14T15:00:00.000Z');
+  });
+
+  it('follows daylight saving changes', () => {
+    expect(zonedDate(2025, 0, 15, 12, 0, 0, 'Europe/London').toISOString()).toBe('2025-01-15T12:00:00.000Z');
+    expect(zonedDate(2025, 6, 15, 12, 0, 0, 'Europe/London').toISOString()).toBe('2025-07-15T11:00:00.000Z');
+  });
+
+  it('rolls over out-of-range values like Date.UTC', () => {
+    expect(zonedDate(2025, 0, 32).toISOString()).toBe(zonedDate(2025, 1, 1).toISOString());
+  });
+
+  it('gives an invalid date for invalid input', () => {
+    expect(isNaN(zonedDate(NaN, 0, 1).getTime())).toBe(true);
+  });
+});
+
+describe('zonedParts', () => {
+  it('reads the clock in the time zone', () => {
+    expect(zonedParts('2025-01-31T23:30:00.000Z')).toEqual({
+      year: 2025,
+      month: 2,
+      day: 1,
+      hour: 0,
+      minute: 30,
+      second: 0,
+    });
+    expect(zonedParts('2025-01-31T23:30:00.000Z', 'UTC').day).toBe(31);
+  });
+
+  it('reads midnight as hour 0', () => {
+    expect(zonedParts('2025-11-14T23:00:00.000Z').hour).toBe(0);
+  });
+});
+
+describe.each(DEVICE_TIME_ZONES)('on a device set to %s', (timeZone) => {
+  const use = () => {
+    process.env.TZ = timeZone;
+  };
+
+  it('reads dates without a time as midnight in Lagos', () => {
+    use();
+    const tx = new GtbParser().parseTransaction([
+      '15-Nov-2025',
+      '16-Nov-2025',
+      'REF123',
+      '',
+      '1,000.00',
+      '101,000.00',
+      'Test',
+    ]);
+
+    expect(tx!.date).toBe('2025-11-14T23:00:00.000Z');
+    expect(tx!.meta?.valueDate).toBe('2025-11-15T23:00:00.000Z');
+    expect(zonedDay(tx!.date)).toBe('2025-11-15');
+  });
+
+  it('reads times as Lagos time', () => {
+    use();
+    const tx = new MoniepointParser().parseTransaction([
+      '31/01/2025 23:30:00',
+      'Transfer to JANE SMITH',
+      'REF',
+      '100.00',
+      '',
+      '900.00',
+    ]);
+
+    expect(tx!.date).toBe('2025-01-31T22:30:00.000Z');
+  });
+
+  it('reads definition date formats as Lagos time', () => {
+    use();
+    const tx = new KudaParser().parseTransaction([
+      '22/01/23 12:46:35', '', '₦10,000.00', '', '', '', 'Transfer', '', 'John Doe/0123456789/GTBank', '', 'rent', '', '₦15,000.00',
+    ]);
+
+    expect(tx!.date).toBe('2023-01-22T11:46:35.000Z');
+  });
+
+  it('reads statement periods as Lagos days', () => {
+    use();
+    const info = extractStatementInfo('Period: 01-Jan-2025 to 31-Mar-2025');
+
+    expect(info.periodStart).toBe('2024-12-31T23:00:00.000Z');
+    expect(info.periodEnd).toBe('2025-03-30T23:00:00.000Z');
+  });
+
+  it('keeps a late-night transaction on the day and in the month the bank printed', () => {
+    use();
+
+    expect(formatDate('2025-01-31T22:30:00.000Z')).toBe('31/01/2025');
+    expect(formatDateTime('2025-01-31T22:30:00.000Z')).toBe('31/01/2025 23:30');
+    expect(zonedDay('2025-01-31T22:30:00.000Z').slice(0, 7)).toBe('2025-01');
+  });
+
+  it('gives the same IDs and references', () => {
+    use();
+    const tx = new GtbParser().parseTransaction([
+      '15-Nov-2025',
+      '15-Nov-2025',
+      '',
+      '500.00',
+      '',
+      '100,000.00',
+      'POS PURCHASE',
+    ]);
+
+    expect(tx!.id).toBe(
+      `gtb-${stableHash(transactionKey('2025-11-14T23:00:00.000Z', tx!.amount, tx!.reference, tx!.description))}`
+    );
+    expect(tx!.reference).toContain('20251115');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parserApi } from '~/workers/parser.worker';
+
+// Tesseract needs a browser worker and canvas, so the scan is "read" as a GTB statement header
+vi.mock('~/lib/parsers/processors/ocr', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('~/lib/parsers/processors/ocr')>()),
+  recognizePageImage: vi.fn(async () => ({
+    text: 'Guaranty Trust Bank Customer Statement Trans. Date Value. Date Reference Debits Credits Balance',
+    items: [],
+  })),
+}));
+
+/**
+ * A one-page PDF holding nothing but a small grey image, like a scanned statement
+ */
+function imageOnlyPdf(): ArrayBuffer {
+  const pixels = 'ffffff00ffffff00';
+  const content = 'q 200 0 0 200 0 0 cm /Scan Do Q';
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 200 200] /Resources << /XObject << /Scan 4 0 R >> >> /Contents 5 0 R >>',
+    `<< /Type /XObject /Subtype /Image /Width 4 /Height 4 /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /ASCIIHexDecode /Length ${pixels.length * 2 + 1} >>\nstream\n${pixels}${pixels}>\nendstream`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+  // Built by hand: jsdom's TextEncoder hands back a buffer from another realm, which pdf.js rejects
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i);
+  return bytes.buffer;
+}
+
+describe('parser worker with a scanned statement', () => {
+  it('recognises the bank with OCR and goes on to parse the file', async () => {
+    const detection = await parserApi.detectBank(imageOnlyPdf(), 'scan.pdf', undefined);
+
+    expect(detection.error).toBeUndefined();
+    expect(detection.candidates[0]?.bank).toBe('gtb');
+
+    const result = await parserApi.parseFile(imageOnlyPdf(), 'scan.pdf', detection.candidates[0].bank, undefined, () => {});
+
+    expect(result.report?.ocrPages).toBe(1);
+  });
+});
@@ -7,25 +7,38 @@ import { ChatFab } from '~/components/chat/chat-fab';
 import { ChatSheet } from '~/components/chat/chat-sheet';
 import { SettingsSheet } from '~/components/settings/settings-sheet';
 import { UploadSheet } from '~/components/upload/upload-sheet';
+import { ReconciliationBadge } from '~/components/upload/reconciliation-badge';
+import { DEFAULT_CURRENCY, STATEMENT_TIME_ZONE } from '~/lib/constants';
+import { cn } from '~/lib/utils';
+import type { Currency } from '~/types';
 
 interface StatsRow {
-  total_inflow: string;
-  total_outflow: string;
   count: string;
   min_date: Date | null;
   max_date: Date | null;
 }
 
+interface ReconciliationRow {
+  reconciled: string;
+  unreconciled: string;
+  breaks: string;
+}
+
+interface CurrencyTotalsRow {
+  currency: Currency;
+  total_inflow: string;
+  total_outflow: string;
+}
+
 interface MonthlyRow {
   month: string;
+  currency: Currency;
   inflow: string;
   outflow: string;
 }
 
 const STATS_QUERY = `
   SELECT 
-    COALESCE(SUM(CASE WHEN amount > 0 THEN amount ELSE 0 END), 0) as total_inflow,
-    COALESCE(SUM(CASE WHEN amount < 0 THEN ABS(amount) ELSE 0 END), 0) as total_outflow,
     COUNT(*) as count,
     MIN(date) as min_date,
     MAX(date) as max_date
@@ -36,7 +49,7 @@ function formatDateRange(minDate: Date | null, maxDate: Date | null): string {
   if (!minDate || !maxDate) return '';
   
   const format = (d: Date) =>
-    d.toLocaleDateString('en-NG', { month: 'short', year: 'numeric' });
+    d.toLocaleDateString('en-NG', { month: 'short', year: 'numeric', timeZone: STATEMENT_TIME_ZONE });
   
   const start = format(minDate);
   const end = format(maxDate);
@@ -44,13 +57,36 @@ function formatDateRange(minDate: Date | null, maxDate: Date | null): string {
   return start === end ? start : `${start} - ${end}`;
 }
 
+const RECONCILIATION_QUERY = `
+  SELECT
+    COUNT(*) FILTER (WHERE reconciliation->>'status' = 'reconciled') as reconciled,
+    COUNT(*) FILTER (WHERE reconciliation->>'status' = 'unreconciled') as unreconciled,
+    COALESCE(SUM(jsonb_array_length(reconciliation->'breaks')), 0) as breaks
+  FROM imports
+`;
+
+// Money is only ever summed within a currency; the account with the most activity comes first.
+// Rows a rule excluded from analytics stay in the list but out of the totals.
+const CURRENCY_TOTALS_QUERY = `
+  SELECT
+    currency,
+    COALESCE(SUM(CASE WHEN amount > 0 THEN amount ELSE 0 END), 0) as total_inflow,
+    COALESCE(SUM(CASE WHEN amount < 0 THEN ABS(amount) ELSE 0 END), 0) as total_outflow
+  FROM transactions
+  WHERE NOT excluded
+  GROUP BY currency
+  ORDER BY COUNT(*) DESC, currency ASC
+`;
+
 const MONTHLY_QUERY = `
   SELECT 
     TO_CHAR(date, 'YYYY-MM') as month,
+    currency,
     COALESCE(SUM(CASE WHEN amount > 0 THEN amount ELSE 0 END), 0) as inflow,
     COALESCE(SUM(CASE WHEN amount < 0 THEN ABS(amount) ELSE 0 END), 0) as outflow
   FROM transactions
-  GROUP BY TO_CHAR(date, 'YYYY-MM')
+  WHERE NOT excluded
+  GROUP BY TO_CHAR(date, 'YYYY-MM'), currency
   ORDER BY month ASC
 `;
 
@@ -58,21 +94,35 @@ export function Dashboard() {
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [selectedCurrency, setSelectedCurrency] = useState<Currency | null>(null);
 
   const statsResult = useLiveQuery<StatsRow>(STATS_QUERY);
+  const totalsResult = useLiveQuery<CurrencyTotalsRow>(CURRENCY_TOTALS_QUERY);
   const monthlyResult = useLiveQuery<MonthlyRow>(MONTHLY_QUERY);
+  const reconciliationResult = useLiveQuery<ReconciliationRow>(RECONCILIATION_QUERY);
 
   const stats = statsResult?.rows?.[0];
-  const totalInflow = Number(stats?.total_inflow ?? 0);
-  const totalOutflow = Number(stats?.total_outflow ?? 0);
+  const currencyTotals = totalsResult?.rows ?? [];
+  const totals =
+    currencyTotals.find((row) => row.currency === selectedCurrency) ?? currencyTotals[0];
+  const currency = totals?.currency ?? DEFAULT_CURRENCY;
+  const totalInflow = Number(totals?.total_inflow ?? 0);
+  const totalOutflow = Number(totals?.total_outflow ?? 0);
   const transactionCount = Number(stats?.count ?? 0);
   const dateRangeText = formatDateRange(stats?.min_date ?? null, stats?.max_date ?? null);
 
-  const byMonth = (monthlyResult?.rows ?? []).map(row => ({
-    month: row.month,
-    inflow: Number(row.inflow),
-    outflow: Number(row.outflow),
-  }));
+  const reconciliationRow = reconciliationResult?.rows?.[0];
+  const unreconciledImports = Number(reconciliationRow?.unreconciled ?? 0);
+  const reconciledImports = Number(reconciliationRow?.reconciled ?? 0);
+  const balanceBreaks = Number(reconciliationRow?.breaks ?? 0);
+
+  const byMonth = (monthlyResult?.rows ?? [])
+    .filter(row => row.currency === currency)
+    .map(row => ({
+      month: row.month,
+      inflow: Number(row.inflow),
+      outflow: Number(row.outflow),
+    }));
 
   const statusText =
     transactionCount > 0
@@ -111,18 +161,46 @@ export function Dashboard() {
               <span>{dateRangeText}</span>
             </>
           )}
+          {(unreconciledImports > 0 || reconciledImports > 0) && (
+            <span className="ml-auto">
+              <ReconciliationBadge
+                status={unreconciledImports > 0 ? 'unreconciled' : 'reconciled'}
+                breaks={balanceBreaks}
+              />
+            </span>
+          )}
         </div>
       </header>
 
       <main className="flex-1 space-y-6 px-4 py-6 pb-24">
+        {currencyTotals.length > 1 && (
+          <div className="flex gap-1">
+            {currencyTotals.map(row => (
+              <button
+                key={row.currency}
+                onClick={() => setSelectedCurrency(row.currency)}
+                className={cn(
+                  'text-xs px-2 py-1 border transition-colors',
+                  row.currency === currency
+                    ? 'bg-accent text-accent-foreground border-accent'
+                    : 'bg-muted border-border hover:border-border-strong'
+                )}
+              >
+                {row.currency.toLowerCase()}
+              </button>
+            ))}
+          </div>
+        )}
+
         <StatsRow
           inflow={totalInflow}
           outflow={totalOutflow}
           net={totalInflow - totalOutflow}
+          currency={currency}
         />
 
         {byMonth.length > 0 && (
-          <FlowChart data={byMonth} />
+          <FlowChart data={byMonth} currency={currency} />
         )}
 
         <TransactionList disableShortcuts={isChatOpen || isSettingsOpen || isUploadOpen} />
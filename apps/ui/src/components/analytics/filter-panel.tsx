@@ -1,6 +1,8 @@
 import { type FilterState } from '~/lib/filters';
 import { useFilterOptions } from '~/hooks/useFilterOptions';
+import { SPENDING_CATEGORY_LABELS } from '~/lib/constants';
 import { cn } from '~/lib/utils';
+import type { SpendingCategory } from '~/types';
 
 interface FilterPanelProps {
   filters: FilterState;
@@ -8,7 +10,7 @@ interface FilterPanelProps {
 }
 
 export function FilterPanel({ filters, onChange }: FilterPanelProps) {
-  const { banks, minDate, maxDate } = useFilterOptions();
+  const { banks, categories, minDate, maxDate } = useFilterOptions();
 
   const toggleBank = (bank: string) => {
     const newBanks = filters.banks.includes(bank)
@@ -17,6 +19,13 @@ export function FilterPanel({ filters, onChange }: FilterPanelProps) {
     onChange({ ...filters, banks: newBanks });
   };
 
+  const toggleCategory = (category: SpendingCategory) => {
+    const newCategories = filters.categories.includes(category)
+      ? filters.categories.filter(c => c !== category)
+      : [...filters.categories, category];
+    onChange({ ...filters, categories: newCategories });
+  };
+
   const setFlow = (flow: 'in' | 'out' | null) => {
     onChange({ ...filters, flow: filters.flow === flow ? null : flow });
   };
@@ -89,6 +98,28 @@ export function FilterPanel({ filters, onChange }: FilterPanelProps) {
             ))}
           </div>
         </div>
+
+        {categories.length > 0 && (
+          <div>
+            <div className="text-[10px] text-muted-foreground mb-1.5">&gt; category</div>
+            <div className="flex flex-wrap gap-1">
+              {categories.map(category => (
+                <button
+                  key={category}
+                  onClick={() => toggleCategory(category)}
+                  className={cn(
+                    'text-xs px-2 py-1 border transition-colors',
+                    filters.categories.includes(category)
+                      ? 'bg-accent text-accent-foreground border-accent'
+                      : 'bg-muted border-border hover:border-border-strong'
+                  )}
+                >
+                  {SPENDING_CATEGORY_LABELS[category] ?? category}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
@@ -8,17 +8,18 @@ import {
   CartesianGrid,
   type TooltipProps,
 } from 'recharts';
-import type { MonthlyData } from '~/types';
+import type { Currency, MonthlyData } from '~/types';
 import { formatCompactCurrency, millify } from '~/lib/utils';
 
 interface FlowChartProps {
   data: MonthlyData[];
+  currency: Currency;
 }
 
-export function FlowChart({ data }: FlowChartProps) {
+export function FlowChart({ data, currency }: FlowChartProps) {
   const chartData = data.map((d) => ({
     ...d,
-    // Convert from kobo to naira for display
+    // Convert from minor units (kobo, cents) for display
     inflow: d.inflow / 100,
     outflow: d.outflow / 100,
     // Format month label with year context
@@ -77,7 +78,7 @@ export function FlowChart({ data }: FlowChartProps) {
               tickFormatter={(value: number) => millify(value)}
               width={45}
             />
-            <Tooltip content={<CustomTooltip />} />
+            <Tooltip content={<CustomTooltip currency={currency} />} />
             <Area
               type="monotone"
               dataKey="inflow"
@@ -106,7 +107,7 @@ export function FlowChart({ data }: FlowChartProps) {
 }
 
 // Custom tooltip component
-function CustomTooltip({ active, payload, label }: TooltipProps<number, string>) {
+function CustomTooltip({ active, payload, label, currency }: TooltipProps<number, string> & { currency: Currency }) {
   if (!active || !payload || !payload.length) return null;
 
   const inflow = payload.find((p) => p.dataKey === 'inflow')?.value as number | undefined;
@@ -118,13 +119,13 @@ function CustomTooltip({ active, payload, label }: TooltipProps<number, string>)
       {inflow !== undefined && (
         <p className="flex items-center justify-between gap-4">
           <span className="text-muted-foreground">in</span>
-          <span className="text-success mono-nums">+{formatCompactCurrency(inflow * 100)}</span>
+          <span className="text-success mono-nums">+{formatCompactCurrency(inflow * 100, currency)}</span>
         </p>
       )}
       {outflow !== undefined && (
         <p className="flex items-center justify-between gap-4">
           <span className="text-muted-foreground">out</span>
-          <span className="text-destructive mono-nums">-{formatCompactCurrency(outflow * 100)}</span>
+          <span className="text-destructive mono-nums">-{formatCompactCurrency(outflow * 100, currency)}</span>
         </p>
       )}
     </div>
@@ -1,30 +1,32 @@
 import { formatCompactCurrency } from '~/lib/utils';
 import { cn } from '~/lib/utils';
+import type { Currency } from '~/types';
 
 interface StatsRowProps {
   inflow: number;
   outflow: number;
   net: number;
+  currency: Currency;
 }
 
-export function StatsRow({ inflow, outflow, net }: StatsRowProps) {
+export function StatsRow({ inflow, outflow, net, currency }: StatsRowProps) {
   return (
     <div className="grid grid-cols-3 gap-2">
       <StatCard
         label="in"
-        value={formatCompactCurrency(inflow)}
+        value={formatCompactCurrency(inflow, currency)}
         prefix="+"
         variant="green"
       />
       <StatCard
         label="out"
-        value={formatCompactCurrency(outflow)}
+        value={formatCompactCurrency(outflow, currency)}
         prefix="-"
         variant="red"
       />
       <StatCard
         label="net"
-        value={formatCompactCurrency(Math.abs(net))}
+        value={formatCompactCurrency(Math.abs(net), currency)}
         prefix={net >= 0 ? '+' : '-'}
         variant={net >= 0 ? 'green' : 'red'}
       />
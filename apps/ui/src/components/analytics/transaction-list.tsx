@@ -1,8 +1,8 @@
 import { useState, useMemo, useEffect, useRef } from 'react';
-import dayjs from 'dayjs';
 import type { Transaction } from '~/types';
 import { TransactionCategory, TransactionType } from '~/types';
-import { formatCurrency, formatDateWithYear } from '~/lib/utils';
+import { formatCurrency, formatDate, formatDateTime, formatDateWithYear } from '~/lib/utils';
+import { SPENDING_CATEGORY_LABELS, STATEMENT_TIME_ZONE } from '~/lib/constants';
 import { cn } from '~/lib/utils';
 import { BottomSheet } from '~/components/ui';
 import { useTransactions } from '~/hooks/useTransactions';
@@ -222,10 +222,13 @@ function TransactionRow({ transaction, onClick }: TransactionRowProps) {
         <p className="truncate text-xs font-medium">{transaction.description}</p>
         <p 
           className="mt-0.5 text-xs text-muted-foreground truncate"
-          title={dayjs(transaction.date).format('DD/MM/YYYY h:mm A')}
+          title={transaction.meta?.hasTime === false ? formatDate(transaction.date) : formatDateTime(transaction.date)}
         >
-          {dayjs(transaction.date).format('DD/MM/YYYY')}
+          {formatDate(transaction.date)}
           <span> · {transaction.bankSource}</span>
+          <span> · {SPENDING_CATEGORY_LABELS[transaction.spendingCategory]}</span>
+          {transaction.meta?.provisional && <span className="text-warning"> · alert</span>}
+          {transaction.meta?.excluded && <span> · excluded</span>}
         </p>
       </div>
 
@@ -236,7 +239,7 @@ function TransactionRow({ transaction, onClick }: TransactionRowProps) {
         )}
       >
         {isInflow ? '+' : '-'}
-        {formatCurrency(Math.abs(transaction.amount))}
+        {formatCurrency(Math.abs(transaction.amount), transaction.currency)}
       </div>
     </button>
   );
@@ -267,7 +270,7 @@ function TransactionDetailSheet({ transaction, onClose }: TransactionDetailSheet
                 isInflow ? 'text-green-500' : 'text-red-500'
               )}
             >
-              {isInflow ? '+' : '-'}{formatCurrency(Math.abs(transaction.amount))}
+              {isInflow ? '+' : '-'}{formatCurrency(Math.abs(transaction.amount), transaction.currency)}
             </p>
           </div>
           <span className={cn('tui-badge', isInflow ? 'tui-badge-success' : '')}>
@@ -277,13 +280,30 @@ function TransactionDetailSheet({ transaction, onClose }: TransactionDetailSheet
 
         <div className="mt-4 tui-box p-3">
           <DetailRow label="date" value={formatDateWithYear(transaction.date)} />
-          <DetailRow label="time" value={new Date(transaction.date).toLocaleTimeString('en-NG', { hour: '2-digit', minute: '2-digit' })} />
+          {meta?.hasTime !== false && (
+            <DetailRow label="time" value={new Date(transaction.date).toLocaleTimeString('en-NG', { hour: '2-digit', minute: '2-digit', timeZone: STATEMENT_TIME_ZONE })} />
+          )}
+          {meta?.valueDate && <DetailRow label="value date" value={formatDateWithYear(meta.valueDate)} />}
         </div>
 
+        {meta?.provisional && (
+          <p className="mt-3 text-xs text-warning">
+            warn: read from an alert. it's replaced when the statement covering it is imported
+          </p>
+        )}
+
         <div className="mt-3 tui-box p-3">
           <DetailRow label="description" value={transaction.description} />
+          <DetailRow label="category" value={SPENDING_CATEGORY_LABELS[transaction.spendingCategory]} />
+          {meta?.tags && <DetailRow label="tags" value={meta.tags.join(', ')} />}
         </div>
 
+        {meta?.excluded && (
+          <p className="mt-3 text-xs text-muted-foreground">
+            left out of totals by one of your rules
+          </p>
+        )}
+
         {(meta?.counterpartyName || meta?.counterpartyAccount || meta?.counterpartyBank) && (
           <div className="mt-3 tui-box p-3">
             <p className="text-xs text-muted-foreground uppercase tracking-wider mb-2">
@@ -292,6 +312,9 @@ function TransactionDetailSheet({ transaction, onClose }: TransactionDetailSheet
             {meta.counterpartyName && (
               <DetailRow label="name" value={meta.counterpartyName} />
             )}
+            {meta.bankCounterpartyName && (
+              <DetailRow label="bank name" value={meta.bankCounterpartyName} />
+            )}
             {meta.counterpartyAccount && (
               <DetailRow label="account" value={maskAccountNumber(meta.counterpartyAccount)} mono />
             )}
@@ -322,7 +345,7 @@ function TransactionDetailSheet({ transaction, onClose }: TransactionDetailSheet
         {meta?.rawCategory && (
           <div className="mt-3">
             <span className="text-xs text-muted-foreground">
-              category: {meta.rawCategory}
+              bank category: {meta.rawCategory}
             </span>
           </div>
         )}
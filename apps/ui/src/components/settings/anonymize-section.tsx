@@ -0,0 +1,111 @@
+import { useRef, useState } from 'react';
+import { BankPicker } from '~/components/upload/bank-picker';
+import { ParseProgress } from '~/components/upload/parse-progress';
+import { useStatementAnonymizer } from '~/hooks/useStatementAnonymizer';
+import { downloadFile } from '~/lib/csv';
+import { ACCEPTED_FILE_TYPES, SUPPORTED_BANKS } from '~/lib/constants';
+import type { BankType } from '~/types';
+
+export function AnonymizeSection() {
+  const [bank, setBank] = useState<BankType | null>(null);
+  const [password, setPassword] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const { status, anonymize, cancel, reset } = useStatementAnonymizer();
+  const needsPassword = SUPPORTED_BANKS.find((b) => b.id === bank)?.requiresPassword ?? false;
+
+  const handleFile = (file: File | undefined) => {
+    if (file && bank) anonymize(file, bank, password);
+  };
+
+  const handleSelectBank = (next: BankType) => {
+    setBank(next);
+    setPassword('');
+    reset();
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground/50">
+        share a statement for a parser fix without sharing yourself. names, account and phone
+        numbers and references are replaced and amounts scaled, all on this device
+      </p>
+
+      <BankPicker selectedBank={bank} onSelectBank={handleSelectBank} allowCustom={false} />
+
+      {bank && status.stage !== 'working' && (
+        <div className="flex gap-1">
+          {needsPassword && (
+            <input
+              type="password"
+              placeholder="pdf password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="min-w-0 flex-1 border border-border bg-background px-3 py-1.5 text-xs focus:border-accent focus:outline-none"
+            />
+          )}
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="text-xs px-3 py-1.5 border bg-muted border-border hover:border-border-strong"
+          >
+            choose statement
+          </button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ACCEPTED_FILE_TYPES}
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+
+      {status.stage === 'working' && (
+        <ParseProgress progress={status.progress} message={status.message} onCancel={cancel} />
+      )}
+
+      {status.stage === 'error' && <p className="text-xs text-destructive">err: {status.message}</p>}
+
+      {status.stage === 'done' && (
+        <div className="tui-box p-3 space-y-2 text-xs">
+          <p>
+            <span className="text-accent mono-nums">{status.result.transactions}</span> transactions
+            read from the anonymized statement
+          </p>
+          <p className="text-warning">
+            warn: only names the parser picks out are replaced. read both files before sharing them
+          </p>
+          <div className="flex gap-1">
+            <button
+              onClick={() =>
+                downloadFile(
+                  status.result.fixture,
+                  `${status.result.bank}-statement.test.ts`,
+                  'text/typescript;charset=utf-8;'
+                )
+              }
+              className="text-xs px-3 py-1.5 border bg-muted border-border hover:border-border-strong"
+            >
+              download test
+            </button>
+            <button
+              onClick={() =>
+                downloadFile(
+                  status.result.statement.content,
+                  `${status.result.bank}-anonymized.${status.result.statement.extension}`,
+                  status.result.statement.extension === 'csv' ? 'text/csv;charset=utf-8;' : 'text/plain;charset=utf-8;'
+                )
+              }
+              className="text-xs px-3 py-1.5 border bg-muted border-border hover:border-border-strong"
+            >
+              download statement
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
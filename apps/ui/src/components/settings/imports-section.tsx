@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { useLiveQuery } from '@electric-sql/pglite-react';
+import { useTransactionStore } from '~/stores/transactions';
+import { ReconciliationBadge } from '~/components/upload/reconciliation-badge';
+import { SUPPORTED_BANKS } from '~/lib/constants';
+import type { ReconciliationStatus } from '~/types';
+
+interface ImportHistoryRow {
+  id: string;
+  created_at: string;
+  file_name: string;
+  bank_source: string;
+  status: ReconciliationStatus;
+  transaction_count: string;
+}
+
+interface BankCountRow {
+  bank_source: string;
+  count: string;
+}
+
+const IMPORTS_QUERY = `
+  SELECT
+    i.id,
+    i.created_at,
+    i.file_name,
+    i.bank_source,
+    i.reconciliation->>'status' as status,
+    COUNT(t.id) as transaction_count
+  FROM imports i
+  LEFT JOIN transactions t ON t.import_id = i.id
+  GROUP BY i.id
+  ORDER BY i.created_at DESC
+`;
+
+const BANKS_QUERY = `
+  SELECT bank_source, COUNT(*) as count
+  FROM transactions
+  GROUP BY bank_source
+  ORDER BY bank_source ASC
+`;
+
+interface PendingDelete {
+  kind: 'import' | 'bank';
+  id: string;
+  label: string;
+}
+
+function bankName(bank: string): string {
+  return (SUPPORTED_BANKS.find((b) => b.id === bank)?.name ?? bank).toLowerCase();
+}
+
+function formatDay(timestamp: number): string {
+  return new Date(timestamp)
+    .toLocaleDateString('en-NG', { day: 'numeric', month: 'short', year: 'numeric' })
+    .toLowerCase();
+}
+
+export function ImportsSection() {
+  const [pending, setPending] = useState<PendingDelete | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const undoImport = useTransactionStore((s) => s.undoImport);
+  const clearBank = useTransactionStore((s) => s.clearBank);
+
+  const importsResult = useLiveQuery<ImportHistoryRow>(IMPORTS_QUERY);
+  const banksResult = useLiveQuery<BankCountRow>(BANKS_QUERY);
+
+  const imports = importsResult?.rows ?? [];
+  const banks = banksResult?.rows ?? [];
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+    setIsDeleting(true);
+    try {
+      if (pending.kind === 'import') {
+        await undoImport(pending.id);
+      } else {
+        await clearBank(pending.id);
+      }
+      setPending(null);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (imports.length === 0 && banks.length === 0) {
+    return <p className="text-xs text-muted-foreground/50">nothing imported yet</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {imports.length > 0 && (
+        <ul className="max-h-56 overflow-y-auto border border-border text-xs">
+          {imports.map((row) => (
+            <li
+              key={row.id}
+              className="flex items-center gap-2 border-b border-border/50 px-2 py-1.5 last:border-0"
+            >
+              <div className="min-w-0 flex-1 space-y-0.5">
+                <p className="truncate">{row.file_name}</p>
+                <p className="text-muted-foreground mono-nums">
+                  {bankName(row.bank_source)} · {formatDay(Number(row.created_at))} · {row.transaction_count} tx
+                </p>
+              </div>
+              <ReconciliationBadge status={row.status} />
+              <button
+                onClick={() => setPending({ kind: 'import', id: row.id, label: row.file_name })}
+                disabled={isDeleting}
+                className="text-muted-foreground hover:text-destructive disabled:opacity-50"
+              >
+                [undo]
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {banks.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {banks.map((row) => (
+            <button
+              key={row.bank_source}
+              onClick={() => setPending({ kind: 'bank', id: row.bank_source, label: bankName(row.bank_source) })}
+              disabled={isDeleting}
+              className="text-xs px-2 py-1 border bg-muted border-border hover:border-destructive/50 hover:text-destructive disabled:opacity-50"
+            >
+              remove {bankName(row.bank_source)} <span className="mono-nums">({row.count})</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {pending && (
+        <div className="tui-box border-destructive/30 bg-destructive-muted p-3">
+          <p className="text-xs text-destructive mb-2">
+            {pending.kind === 'import'
+              ? `this will remove the transactions added by ${pending.label}. are you sure?`
+              : `this will remove every ${pending.label} transaction. are you sure?`}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleConfirm}
+              disabled={isDeleting}
+              className="text-xs px-3 py-1 bg-destructive text-white border border-destructive disabled:opacity-50"
+            >
+              {isDeleting ? 'removing...' : 'yes, remove'}
+            </button>
+            <button
+              onClick={() => setPending(null)}
+              className="text-xs px-3 py-1 border border-border hover:bg-muted"
+            >
+              cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,444 @@
+import { useState } from 'react';
+import { useSettingsStore } from '~/stores/settings';
+import { useTransactionStore } from '~/stores/transactions';
+import { SPENDING_CATEGORY_LABELS, SUPPORTED_BANKS } from '~/lib/constants';
+import { cn, formatCurrency } from '~/lib/utils';
+import type { RuleChange, RuleChangeField } from '~/lib/rules';
+import { BankType, SpendingCategory, TransactionType, type Transaction, type TransactionRule } from '~/types';
+
+const PREVIEW_LIMIT = 20;
+
+type RunStatus =
+  | { stage: 'idle' }
+  | { stage: 'working' }
+  | { stage: 'preview'; changes: RuleChange[] }
+  | { stage: 'done'; updated: number }
+  | { stage: 'error'; message: string };
+
+/** Editor fields, kept as typed until the rule is saved */
+interface RuleDraft {
+  id: string | null;
+  name: string;
+  description: string;
+  counterparty: string;
+  amountMin: string;
+  amountMax: string;
+  bank: BankType | '';
+  type: TransactionType | '';
+  category: SpendingCategory | '';
+  counterpartyName: string;
+  tag: string;
+  exclude: boolean;
+}
+
+const emptyDraft: RuleDraft = {
+  id: null,
+  name: '',
+  description: '',
+  counterparty: '',
+  amountMin: '',
+  amountMax: '',
+  bank: '',
+  type: '',
+  category: '',
+  counterpartyName: '',
+  tag: '',
+  exclude: false,
+};
+
+const BANK_OPTIONS = [...SUPPORTED_BANKS.map((b) => ({ id: b.id, name: b.name })), { id: BankType.Custom, name: 'Custom' }];
+
+function toDraft(rule: TransactionRule): RuleDraft {
+  const { conditions, actions } = rule;
+  return {
+    id: rule.id,
+    name: rule.name,
+    description: conditions.description ?? '',
+    counterparty: conditions.counterparty ?? '',
+    amountMin: conditions.amountMin === undefined ? '' : String(conditions.amountMin / 100),
+    amountMax: conditions.amountMax === undefined ? '' : String(conditions.amountMax / 100),
+    bank: conditions.bank ?? '',
+    type: conditions.type ?? '',
+    category: actions.category ?? '',
+    counterpartyName: actions.counterpartyName ?? '',
+    tag: actions.tag ?? '',
+    exclude: actions.exclude ?? false,
+  };
+}
+
+function toMinorUnits(value: string): number | undefined {
+  const amount = parseFloat(value);
+  return isNaN(amount) ? undefined : Math.round(amount * 100);
+}
+
+/**
+ * The rule a draft describes, or what's missing from it
+ */
+function fromDraft(draft: RuleDraft, existing?: TransactionRule): TransactionRule | string {
+  const amountMin = toMinorUnits(draft.amountMin);
+  const amountMax = toMinorUnits(draft.amountMax);
+  const conditions: TransactionRule['conditions'] = {
+    ...(draft.description.trim() && { description: draft.description.trim() }),
+    ...(draft.counterparty.trim() && { counterparty: draft.counterparty.trim() }),
+    ...(amountMin !== undefined && { amountMin }),
+    ...(amountMax !== undefined && { amountMax }),
+    ...(draft.bank && { bank: draft.bank }),
+    ...(draft.type && { type: draft.type }),
+  };
+  const actions: TransactionRule['actions'] = {
+    ...(draft.category && { category: draft.category }),
+    ...(draft.counterpartyName.trim() && { counterpartyName: draft.counterpartyName.trim() }),
+    ...(draft.tag.trim() && { tag: draft.tag.trim().toLowerCase() }),
+    ...(draft.exclude && { exclude: true }),
+  };
+
+  if (Object.keys(conditions).length === 0) return 'add at least one condition';
+  if (Object.keys(actions).length === 0) return 'add at least one action';
+  if (amountMin !== undefined && amountMax !== undefined && amountMin > amountMax) {
+    return 'the smallest amount is more than the largest';
+  }
+
+  return {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: draft.name.trim() || conditions.description || conditions.counterparty || 'rule',
+    conditions,
+    actions,
+    enabled: existing?.enabled ?? true,
+    createdAt: existing?.createdAt ?? Date.now(),
+  };
+}
+
+function describeRule(rule: TransactionRule): string {
+  const { conditions: c, actions: a } = rule;
+  const when = [
+    c.description && `description has "${c.description}"`,
+    c.counterparty && `counterparty has "${c.counterparty}"`,
+    c.amountMin !== undefined && `≥ ${formatCurrency(c.amountMin)}`,
+    c.amountMax !== undefined && `≤ ${formatCurrency(c.amountMax)}`,
+    c.bank,
+    c.type?.replace('_', ' '),
+  ].filter(Boolean);
+  const then = [
+    a.category && SPENDING_CATEGORY_LABELS[a.category],
+    a.counterpartyName && `rename to ${a.counterpartyName}`,
+    a.tag && `#${a.tag}`,
+    a.exclude && 'exclude',
+  ].filter(Boolean);
+
+  return `${when.join(', ')} → ${then.join(', ')}`;
+}
+
+function describeChange(field: RuleChangeField, before: Transaction, after: Transaction): string {
+  switch (field) {
+    case 'category':
+      return `${SPENDING_CATEGORY_LABELS[before.spendingCategory]} → ${SPENDING_CATEGORY_LABELS[after.spendingCategory]}`;
+    case 'counterparty':
+      return `${before.meta?.counterpartyName ?? '--'} → ${after.meta?.counterpartyName ?? '--'}`;
+    case 'tags':
+      return `tags: ${after.meta?.tags?.map((t) => `#${t}`).join(' ') ?? 'none'}`;
+    case 'excluded':
+      return after.meta?.excluded ? 'excluded' : 'included';
+  }
+}
+
+export function RulesSection() {
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [run, setRun] = useState<RunStatus>({ stage: 'idle' });
+
+  const rules = useSettingsStore((s) => s.rules);
+  const saveRule = useSettingsStore((s) => s.saveRule);
+  const deleteRule = useSettingsStore((s) => s.deleteRule);
+  const previewRuleRun = useTransactionStore((s) => s.previewRuleRun);
+  const applyRuleRun = useTransactionStore((s) => s.applyRuleRun);
+
+  const update = (fields: Partial<RuleDraft>) => {
+    setDraft((current) => current && { ...current, ...fields });
+    setError(null);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const rule = fromDraft(draft, rules.find((r) => r.id === draft.id));
+    if (typeof rule === 'string') {
+      setError(rule);
+      return;
+    }
+    saveRule(rule);
+    setDraft(null);
+    setRun({ stage: 'idle' });
+  };
+
+  const handlePreview = async () => {
+    setRun({ stage: 'working' });
+    try {
+      setRun({ stage: 'preview', changes: await previewRuleRun() });
+    } catch (err) {
+      setRun({ stage: 'error', message: err instanceof Error ? err.message.toLowerCase() : 'could not run rules' });
+    }
+  };
+
+  const handleApply = async (changes: RuleChange[]) => {
+    setRun({ stage: 'working' });
+    try {
+      await applyRuleRun(changes);
+      setRun({ stage: 'done', updated: changes.length });
+    } catch (err) {
+      setRun({ stage: 'error', message: err instanceof Error ? err.message.toLowerCase() : 'could not apply rules' });
+    }
+  };
+
+  const inputClass =
+    'w-full border border-border bg-background px-2 py-1.5 text-xs focus:border-accent focus:outline-none';
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground/50">
+        rules run in order on every import, so a later rule's category or name wins
+      </p>
+
+      {rules.length > 0 && (
+        <ul className="border border-border text-xs">
+          {rules.map((rule) => (
+            <li
+              key={rule.id}
+              className="flex items-center gap-2 border-b border-border/50 px-2 py-1.5 last:border-0"
+            >
+              <div className="min-w-0 flex-1 space-y-0.5">
+                <p className={rule.enabled ? 'truncate' : 'truncate text-muted-foreground line-through'}>{rule.name}</p>
+                <p className="truncate text-muted-foreground">{describeRule(rule)}</p>
+              </div>
+              <button
+                onClick={() => saveRule({ ...rule, enabled: !rule.enabled })}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                {rule.enabled ? '[on]' : '[off]'}
+              </button>
+              <button
+                onClick={() => {
+                  setDraft(toDraft(rule));
+                  setError(null);
+                }}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                [edit]
+              </button>
+              <button onClick={() => deleteRule(rule.id)} className="text-muted-foreground hover:text-destructive">
+                [del]
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <div className="tui-box p-3 space-y-3 text-xs">
+          <input
+            type="text"
+            placeholder="rule name, e.g. landlord"
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            className={inputClass}
+          />
+
+          <div className="space-y-2">
+            <div className="text-[10px] text-muted-foreground">&gt; when</div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <input
+                type="text"
+                placeholder="description has"
+                value={draft.description}
+                onChange={(e) => update({ description: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                placeholder="counterparty name or account has"
+                value={draft.counterparty}
+                onChange={(e) => update({ counterparty: e.target.value })}
+                className={inputClass}
+              />
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  placeholder="min"
+                  value={draft.amountMin}
+                  onChange={(e) => update({ amountMin: e.target.value })}
+                  className={`${inputClass} mono-nums`}
+                />
+                <span className="text-muted-foreground text-[10px]">to</span>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  placeholder="max"
+                  value={draft.amountMax}
+                  onChange={(e) => update({ amountMax: e.target.value })}
+                  className={`${inputClass} mono-nums`}
+                />
+              </div>
+              <div className="flex gap-1">
+                <select
+                  value={draft.bank}
+                  onChange={(e) => update({ bank: e.target.value as RuleDraft['bank'] })}
+                  className="w-full tui-input text-xs bg-muted"
+                >
+                  <option value="">any bank</option>
+                  {BANK_OPTIONS.map((bank) => (
+                    <option key={bank.id} value={bank.id}>
+                      {bank.name.toLowerCase()}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={draft.type}
+                  onChange={(e) => update({ type: e.target.value as RuleDraft['type'] })}
+                  className="w-full tui-input text-xs bg-muted"
+                >
+                  <option value="">any type</option>
+                  {Object.values(TransactionType).map((type) => (
+                    <option key={type} value={type}>
+                      {type.replace('_', ' ')}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-[10px] text-muted-foreground">&gt; then</div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <select
+                value={draft.category}
+                onChange={(e) => update({ category: e.target.value as RuleDraft['category'] })}
+                className="w-full tui-input text-xs bg-muted"
+              >
+                <option value="">keep category</option>
+                {Object.values(SpendingCategory).map((category) => (
+                  <option key={category} value={category}>
+                    {SPENDING_CATEGORY_LABELS[category]}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder="rename counterparty to"
+                value={draft.counterpartyName}
+                onChange={(e) => update({ counterpartyName: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                placeholder="add tag"
+                value={draft.tag}
+                onChange={(e) => update({ tag: e.target.value })}
+                className={inputClass}
+              />
+              <button
+                onClick={() => update({ exclude: !draft.exclude })}
+                className={cn(
+                  'text-xs px-2 py-1 border transition-colors',
+                  draft.exclude
+                    ? 'bg-accent text-accent-foreground border-accent'
+                    : 'bg-muted border-border hover:border-border-strong'
+                )}
+              >
+                exclude from analytics
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="text-destructive">err: {error}</p>}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              className="text-xs px-3 py-1.5 border bg-accent text-accent-foreground border-accent"
+            >
+              save rule
+            </button>
+            <button
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+              className="text-xs px-3 py-1.5 border border-border hover:bg-muted"
+            >
+              cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-1">
+          <button
+            onClick={() => setDraft(emptyDraft)}
+            className="text-xs px-3 py-1.5 border bg-muted border-border hover:border-border-strong"
+          >
+            new rule
+          </button>
+          <button
+            onClick={handlePreview}
+            disabled={run.stage === 'working'}
+            className="text-xs px-3 py-1.5 border bg-muted border-border hover:border-border-strong disabled:opacity-50"
+          >
+            {run.stage === 'working' ? 'checking...' : 'run on past transactions'}
+          </button>
+        </div>
+      )}
+
+      {run.stage === 'preview' && (
+        <div className="tui-box p-3 space-y-2 text-xs">
+          {run.changes.length === 0 ? (
+            <p className="text-muted-foreground">nothing would change</p>
+          ) : (
+            <>
+              <p>
+                <span className="text-accent mono-nums">{run.changes.length}</span> transactions would change
+              </p>
+              <ul className="max-h-56 overflow-y-auto border border-border">
+                {run.changes.slice(0, PREVIEW_LIMIT).map(({ before, after, fields }) => (
+                  <li key={before.id} className="border-b border-border/50 px-2 py-1.5 last:border-0">
+                    <p className="truncate">{before.description}</p>
+                    <p className="text-muted-foreground">
+                      {fields.map((field) => describeChange(field, before, after)).join(' · ')}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+              {run.changes.length > PREVIEW_LIMIT && (
+                <p className="text-muted-foreground">
+                  and <span className="mono-nums">{run.changes.length - PREVIEW_LIMIT}</span> more
+                </p>
+              )}
+            </>
+          )}
+          <div className="flex gap-2">
+            {run.changes.length > 0 && (
+              <button
+                onClick={() => handleApply(run.changes)}
+                className="text-xs px-3 py-1 border bg-accent text-accent-foreground border-accent"
+              >
+                apply
+              </button>
+            )}
+            <button
+              onClick={() => setRun({ stage: 'idle' })}
+              className="text-xs px-3 py-1 border border-border hover:bg-muted"
+            >
+              {run.changes.length > 0 ? 'cancel' : 'close'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {run.stage === 'error' && <p className="text-xs text-destructive">err: {run.message}</p>}
+
+      {run.stage === 'done' && (
+        <p className="text-xs text-muted-foreground">
+          updated <span className="text-accent mono-nums">{run.updated}</span> transactions
+        </p>
+      )}
+    </div>
+  );
+}
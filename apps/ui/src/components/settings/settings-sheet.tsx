@@ -6,6 +6,10 @@ import { mapRowToTransaction, type TransactionRow } from '~/hooks/useTransaction
 import { useSettingsStore } from '~/stores/settings';
 import { useTransactionStore } from '~/stores/transactions';
 import { LocalServerConfig } from './local-server-section';
+import { StatementsSection } from './statements-section';
+import { ImportsSection } from './imports-section';
+import { RulesSection } from './rules-section';
+import { AnonymizeSection } from './anonymize-section';
 import type { Theme } from '~/types';
 
 interface SettingsSheetProps {
@@ -105,6 +109,42 @@ export function SettingsSheet({ isOpen, onClose }: SettingsSheetProps) {
 
         <div className="tui-divider my-4" />
 
+        <section>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+            <span>statements</span>
+          </div>
+          <StatementsSection />
+        </section>
+
+        <div className="tui-divider my-4" />
+
+        <section>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+            <span>imports</span>
+          </div>
+          <ImportsSection />
+        </section>
+
+        <div className="tui-divider my-4" />
+
+        <section>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+            <span>rules</span>
+          </div>
+          <RulesSection />
+        </section>
+
+        <div className="tui-divider my-4" />
+
+        <section>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+            <span>bug report</span>
+          </div>
+          <AnonymizeSection />
+        </section>
+
+        <div className="tui-divider my-4" />
+
         <section>
           <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
             <span>data</span>
@@ -0,0 +1,52 @@
+import { useMemo } from 'react';
+import { useLiveQuery } from '@electric-sql/pglite-react';
+import { mapRowToStatement, type StatementRow } from '~/lib/db';
+import { mergeCoverage } from '~/lib/statements';
+import { DEFAULT_CURRENCY, STATEMENT_TIME_ZONE, SUPPORTED_BANKS } from '~/lib/constants';
+
+function formatDay(iso: string): string {
+  return new Date(iso)
+    .toLocaleDateString('en-NG', { day: 'numeric', month: 'short', year: 'numeric', timeZone: STATEMENT_TIME_ZONE })
+    .toLowerCase();
+}
+
+function bankName(bank: string): string {
+  return (SUPPORTED_BANKS.find((b) => b.id === bank)?.name ?? bank).toLowerCase();
+}
+
+export function StatementsSection() {
+  const result = useLiveQuery<StatementRow>('SELECT * FROM statements ORDER BY period_start ASC');
+  const coverage = useMemo(
+    () => mergeCoverage((result?.rows ?? []).map(mapRowToStatement)),
+    [result?.rows]
+  );
+
+  if (coverage.length === 0) {
+    return <p className="text-xs text-muted-foreground/50">no statements imported yet</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {coverage.map((account) => (
+        <li key={`${account.bankSource}:${account.accountNumber ?? ''}`} className="tui-box p-2 text-xs space-y-1">
+          <p className="truncate">
+            <span className="text-accent">{bankName(account.bankSource)}</span>
+            {account.accountNumber && <span className="mono-nums ml-2">{account.accountNumber}</span>}
+            {account.currency && account.currency !== DEFAULT_CURRENCY && (
+              <span className="tui-badge ml-2">{account.currency.toLowerCase()}</span>
+            )}
+            {account.accountName && (
+              <span className="text-muted-foreground ml-2">{account.accountName.toLowerCase()}</span>
+            )}
+          </p>
+          {account.ranges.map((range, i) => (
+            <p key={range.start} className="text-muted-foreground mono-nums">
+              {i > 0 && <span className="text-warning mr-2">gap</span>}
+              {formatDay(range.start)} – {formatDay(range.end)}
+            </p>
+          ))}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,140 @@
+import { useRef, useState } from 'react';
+import { readSmsBackup, splitPastedAlerts, type AlertMessage } from '~/lib/parsers/alerts';
+import { SUPPORTED_BANKS } from '~/lib/constants';
+import { cn } from '~/lib/utils';
+import { useTransactionStore, type AlertImportResult } from '~/stores/transactions';
+import type { BankType } from '~/types';
+
+type AlertImportStatus =
+  | { stage: 'idle' }
+  | { stage: 'working' }
+  | { stage: 'done'; result: AlertImportResult }
+  | { stage: 'error'; message: string };
+
+interface AlertImportProps {
+  /** Bank to read alerts as when they don't say which bank sent them */
+  bank: BankType | null;
+  className?: string;
+  onDone: () => void;
+}
+
+export function AlertImport({ bank, className, onDone }: AlertImportProps) {
+  const [text, setText] = useState('');
+  const [status, setStatus] = useState<AlertImportStatus>({ stage: 'idle' });
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const addAlerts = useTransactionStore((s) => s.addAlerts);
+  const bankName = SUPPORTED_BANKS.find((b) => b.id === bank)?.name.toLowerCase();
+
+  const importMessages = async (messages: AlertMessage[], fileName: string) => {
+    if (messages.length === 0) {
+      setStatus({ stage: 'error', message: 'no messages found' });
+      return;
+    }
+
+    setStatus({ stage: 'working' });
+    try {
+      const result = await addAlerts(messages, bank, fileName);
+      setStatus({ stage: 'done', result });
+      if (result.added > 0) setText('');
+    } catch (err) {
+      setStatus({ stage: 'error', message: err instanceof Error ? err.message.toLowerCase() : 'import failed' });
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    await importMessages(readSmsBackup(await file.text()), file.name);
+  };
+
+  const working = status.stage === 'working';
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <p className="text-xs text-muted-foreground/50">
+        debit and credit alerts fill the gap until your next statement. they're marked as alerts and
+        replaced when the statement covering them is imported
+      </p>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={working}
+        rows={6}
+        placeholder="paste alerts here, with a blank line between each"
+        className="w-full resize-y border border-border bg-background px-3 py-2 text-xs focus:border-accent focus:outline-none"
+      />
+
+      <div className="flex gap-1">
+        <button
+          onClick={() => importMessages(splitPastedAlerts(text), 'pasted alerts')}
+          disabled={working || !text.trim()}
+          className="text-xs px-3 py-1.5 border bg-accent text-accent-foreground border-accent disabled:opacity-50"
+        >
+          import pasted
+        </button>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={working}
+          className="text-xs px-3 py-1.5 border bg-muted border-border hover:border-border-strong disabled:opacity-50"
+        >
+          choose sms backup
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".xml,text/xml,application/xml"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground/50">
+        {bankName
+          ? `alerts that don't name their bank are read as ${bankName}`
+          : 'pick a bank above to read alerts that don\'t name their bank'}
+      </p>
+
+      {working && <p className="text-xs text-muted-foreground">reading alerts...</p>}
+
+      {status.stage === 'error' && <p className="text-xs text-destructive">err: {status.message}</p>}
+
+      {status.stage === 'done' && (
+        <div className="tui-box p-3 space-y-2 text-xs">
+          <p>
+            <span className="text-accent mono-nums">{status.result.added}</span> alerts added
+          </p>
+          {status.result.onStatement > 0 && (
+            <p className="text-muted-foreground">
+              <span className="mono-nums">{status.result.onStatement}</span> already on an imported statement
+            </p>
+          )}
+          {status.result.existing > 0 && (
+            <p className="text-muted-foreground">
+              <span className="mono-nums">{status.result.existing}</span> imported before
+            </p>
+          )}
+          {status.result.skipped > 0 && (
+            <p className="text-muted-foreground">
+              <span className="mono-nums">{status.result.skipped}</span> messages weren't bank alerts
+            </p>
+          )}
+          {status.result.failed > 0 && (
+            <p className="text-warning">
+              warn: <span className="mono-nums">{status.result.failed}</span> alerts had no date we could read
+            </p>
+          )}
+          <button
+            onClick={onDone}
+            className="text-xs px-3 py-1.5 border bg-muted border-border hover:border-border-strong"
+          >
+            done
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { cn } from '~/lib/utils';
+import { SUPPORTED_BANKS } from '~/lib/constants';
+import type { BankMismatch } from '~/hooks/useStatementUpload';
+import type { BankType } from '~/types';
+
+interface BankMismatchNoticeProps {
+  mismatch: BankMismatch;
+  className?: string;
+  onResolve: (bank: BankType) => void;
+  onCancel: () => void;
+}
+
+function bankName(bank: BankType): string {
+  return (SUPPORTED_BANKS.find((b) => b.id === bank)?.name ?? bank).toLowerCase();
+}
+
+export function BankMismatchNotice({ mismatch, className, onResolve, onCancel }: BankMismatchNoticeProps) {
+  const detected = bankName(mismatch.detected.bank);
+  const selected = bankName(mismatch.selected);
+
+  return (
+    <div className={cn('tui-box border-warning/30 bg-warning-muted p-4 space-y-4', className)}>
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">selected file</p>
+        <p className="text-sm truncate">{mismatch.file.name}</p>
+      </div>
+
+      <p className="text-xs">
+        <span className="text-warning mr-2">warn:</span>
+        this looks like a <span className="text-accent">{detected}</span> statement
+        ({Math.round(mismatch.detected.confidence * 100)}% match), not {selected}
+      </p>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="border border-border px-3 py-2 text-xs hover:bg-muted"
+        >
+          cancel
+        </button>
+        <button
+          onClick={() => onResolve(mismatch.selected)}
+          className="flex-1 border border-border px-3 py-2 text-xs hover:bg-muted"
+        >
+          use {selected}
+        </button>
+        <button
+          onClick={() => onResolve(mismatch.detected.bank)}
+          className="flex-1 bg-accent text-accent-foreground px-3 py-2 text-xs"
+        >
+          use {detected}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,15 @@
 import { cn } from '~/lib/utils';
 import { SUPPORTED_BANKS } from '~/lib/constants';
-import type { BankType } from '~/types';
+import { BankType } from '~/types';
 
 interface BankPickerProps {
   selectedBank: BankType | null;
   onSelectBank: (bank: BankType) => void;
+  /** Offer "other bank" for a custom column mapping */
+  allowCustom?: boolean;
 }
 
-export function BankPicker({ selectedBank, onSelectBank }: BankPickerProps) {
+export function BankPicker({ selectedBank, onSelectBank, allowCustom = true }: BankPickerProps) {
   const availableBanks = SUPPORTED_BANKS.filter((b) => b.available);
   const comingSoonBanks = SUPPORTED_BANKS.filter((b) => !b.available);
 
@@ -29,6 +31,19 @@ export function BankPicker({ selectedBank, onSelectBank }: BankPickerProps) {
             [{bank.name.toLowerCase()}]
           </button>
         ))}
+        {allowCustom && (
+          <button
+            onClick={() => onSelectBank(BankType.Custom)}
+            className={cn(
+              'border border-dashed px-3 py-1.5 text-xs transition-colors',
+              selectedBank === BankType.Custom
+                ? 'bg-accent text-accent-foreground border-accent'
+                : 'border-border text-muted-foreground hover:border-accent hover:text-accent'
+            )}
+          >
+            [other bank]
+          </button>
+        )}
       </div>
 
       {/* Coming Soon Banks */}
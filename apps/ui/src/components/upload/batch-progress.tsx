@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { cn } from '~/lib/utils';
+import { Progress } from '~/components/ui';
+import { ImportReport } from './import-report';
+import type { BatchEntry, BatchFileState, UploadBatch, UploadStatus } from '~/hooks/useStatementUpload';
+
+interface BatchProgressProps {
+  batch: UploadBatch;
+  status: UploadStatus;
+  className?: string;
+  onCancelFile?: () => void;
+  onDone?: () => void;
+}
+
+const STATE_BADGES: Record<BatchFileState, [string, string]> = {
+  queued: ['queued', 'tui-badge'],
+  processing: ['working', 'tui-badge-accent'],
+  imported: ['imported ●', 'tui-badge-success'],
+  failed: ['failed', 'tui-badge-destructive'],
+  skipped: ['skipped', 'tui-badge'],
+};
+
+interface BatchRowProps {
+  entry: BatchEntry;
+  status: UploadStatus;
+  onCancel?: () => void;
+}
+
+function BatchRow({ entry, status, onCancel }: BatchRowProps) {
+  const [showReport, setShowReport] = useState(false);
+  const [label, badge] = STATE_BADGES[entry.state];
+
+  return (
+    <li className="border-b border-border/50 px-2 py-1.5 last:border-0 space-y-1">
+      <div className="flex items-center gap-2">
+        <p className="min-w-0 flex-1 truncate">{entry.file.name}</p>
+        <span className={cn(badge, 'text-xs')}>{label}</span>
+      </div>
+
+      {entry.state === 'processing' && status.stage === 'parsing' && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-muted-foreground">
+            <span className="min-w-0 flex-1 truncate">{status.message}</span>
+            <span className="mono-nums">{status.progress}%</span>
+            {onCancel && (
+              <button onClick={onCancel} className="hover:text-destructive">
+                [skip]
+              </button>
+            )}
+          </div>
+          <Progress value={status.progress} />
+        </div>
+      )}
+
+      {entry.state === 'failed' && (
+        <p className="text-destructive">
+          <span className="text-muted-foreground mr-2">err:</span>
+          {entry.message}
+        </p>
+      )}
+
+      {entry.state === 'imported' && (
+        <p className="text-muted-foreground">
+          {entry.message}
+          {entry.report && (
+            <button onClick={() => setShowReport((v) => !v)} className="ml-2 hover:text-accent">
+              [{showReport ? '-' : '+'}] report
+            </button>
+          )}
+        </p>
+      )}
+
+      {showReport && entry.report && <ImportReport report={entry.report} />}
+    </li>
+  );
+}
+
+export function BatchProgress({ batch, status, className, onCancelFile, onDone }: BatchProgressProps) {
+  const { entries } = batch;
+  const finished = entries.every((entry) => entry.state !== 'queued' && entry.state !== 'processing');
+  const count = (state: BatchFileState) => entries.filter((entry) => entry.state === state).length;
+  const added = entries.reduce((sum, entry) => sum + (entry.added ?? 0), 0);
+  const done = entries.length - count('queued') - count('processing');
+
+  return (
+    <div className={cn('tui-box p-4 space-y-4', className)}>
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">{finished ? 'batch summary' : 'importing files'}</span>
+        <span className="mono-nums text-muted-foreground">
+          {done}/{entries.length}
+        </span>
+      </div>
+
+      <ul className="max-h-72 overflow-y-auto border border-border text-xs">
+        {entries.map((entry) => (
+          <BatchRow key={entry.id} entry={entry} status={status} onCancel={onCancelFile} />
+        ))}
+      </ul>
+
+      {finished && (
+        <>
+          <dl className="space-y-1 text-xs">
+            <div className="flex items-center justify-between">
+              <dt className="text-muted-foreground">files imported</dt>
+              <dd className="mono-nums text-accent">
+                {count('imported')} of {entries.length}
+              </dd>
+            </div>
+            <div className="flex items-center justify-between">
+              <dt className="text-muted-foreground">transactions added</dt>
+              <dd className="mono-nums">{added}</dd>
+            </div>
+            {count('failed') > 0 && (
+              <div className="flex items-center justify-between">
+                <dt className="text-muted-foreground">files failed</dt>
+                <dd className="mono-nums text-destructive">{count('failed')}</dd>
+              </div>
+            )}
+            {count('skipped') > 0 && (
+              <div className="flex items-center justify-between">
+                <dt className="text-muted-foreground">files skipped</dt>
+                <dd className="mono-nums">{count('skipped')}</dd>
+              </div>
+            )}
+          </dl>
+
+          {onDone && (
+            <button
+              onClick={onDone}
+              className="w-full bg-accent text-accent-foreground px-3 py-2 text-xs"
+            >
+              done
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useMemo, useState } from 'react';
+import { cn } from '~/lib/utils';
+import { useSettingsStore } from '~/stores/settings';
+import {
+  DATE_FORMATS,
+  findMatchingTemplate,
+  findTemplateToReplace,
+  guessColumnMapping,
+  guessDateFormat,
+  isMappingComplete,
+  normalizeHeader,
+} from '~/lib/parsers/custom';
+import type { CustomImport } from '~/hooks/useStatementUpload';
+import type { AmountStyle, ColumnMapping, ImportTemplate } from '~/types';
+
+interface ColumnMapperProps {
+  customImport: CustomImport;
+  disabled?: boolean;
+  className?: string;
+  onImport: (template: ImportTemplate) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_LIMIT = 5;
+
+const FIELD_LABELS: Record<keyof ColumnMapping, string> = {
+  date: 'date',
+  description: 'description',
+  debit: 'debit',
+  credit: 'credit',
+  amount: 'amount',
+  balance: 'balance',
+  reference: 'reference',
+};
+
+function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index; n >= 0; n = Math.floor(n / 26) - 1) {
+    letter = String.fromCharCode(65 + (n % 26)) + letter;
+  }
+  return letter;
+}
+
+export function ColumnMapper({ customImport, disabled, className, onImport, onCancel }: ColumnMapperProps) {
+  const { file, rows, headerIndex } = customImport;
+
+  const templates = useSettingsStore((s) => s.importTemplates);
+  const saveImportTemplate = useSettingsStore((s) => s.saveImportTemplate);
+  const deleteImportTemplate = useSettingsStore((s) => s.deleteImportTemplate);
+
+  const header = headerIndex >= 0 ? rows[headerIndex] : undefined;
+  const dataRows = useMemo(() => rows.slice(headerIndex + 1), [rows, headerIndex]);
+  const columnCount = useMemo(() => Math.max(0, ...rows.map((r) => r.length)), [rows]);
+
+  const guessed = useMemo(() => (header ? guessColumnMapping(header) : {}), [header]);
+  const matchingTemplate = useMemo(() => findMatchingTemplate(templates, header), [templates, header]);
+
+  const [mapping, setMapping] = useState<Partial<ColumnMapping>>(guessed);
+  const [amountStyle, setAmountStyle] = useState<AmountStyle>(
+    guessed.amount !== undefined && guessed.debit === undefined && guessed.credit === undefined
+      ? 'signed'
+      : 'split'
+  );
+  const [dateFormat, setDateFormat] = useState<string>(() => {
+    if (guessed.date === undefined) return DATE_FORMATS[0];
+    const samples = dataRows.map((r) => r[guessed.date!]?.toString() ?? '').filter(Boolean);
+    return guessDateFormat(samples) ?? DATE_FORMATS[0];
+  });
+  const [name, setName] = useState('');
+
+  const amountFields: (keyof ColumnMapping)[] = amountStyle === 'split' ? ['debit', 'credit'] : ['amount'];
+  const fields: (keyof ColumnMapping)[] = ['date', 'description', ...amountFields, 'balance', 'reference'];
+
+  const canImport = isMappingComplete(mapping, amountStyle) && name.trim().length > 0 && !disabled;
+
+  const handleFieldChange = (field: keyof ColumnMapping, value: string) => {
+    setMapping((prev) => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+  };
+
+  const handleImport = () => {
+    if (!isMappingComplete(mapping, amountStyle)) return;
+
+    const columns: ColumnMapping = amountStyle === 'split'
+      ? { ...mapping, amount: undefined }
+      : { ...mapping, debit: undefined, credit: undefined };
+
+    const existing = findTemplateToReplace(templates, header, name);
+    const template: ImportTemplate = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name: name.trim(),
+      columns,
+      amountStyle,
+      dateFormat,
+      headers: header ? normalizeHeader(header) : [],
+      createdAt: existing?.createdAt ?? Date.now(),
+    };
+
+    saveImportTemplate(template);
+    onImport(template);
+  };
+
+  return (
+    <div className={cn('tui-box p-4 space-y-4 w-full', className)}>
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">map columns</p>
+        <p className="text-sm truncate">{file.name}</p>
+      </div>
+
+      {templates.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">saved templates</p>
+          <div className="flex flex-wrap gap-2">
+            {templates.map((t) => (
+              <span
+                key={t.id}
+                className={cn(
+                  'flex items-center border text-xs',
+                  t.id === matchingTemplate?.id ? 'border-accent text-accent' : 'border-border'
+                )}
+              >
+                <button
+                  onClick={() => onImport(t)}
+                  disabled={disabled}
+                  className="px-2 py-1 hover:text-accent disabled:opacity-50"
+                >
+                  [{t.name.toLowerCase()}]
+                </button>
+                <button
+                  onClick={() => deleteImportTemplate(t.id)}
+                  className="px-1.5 py-1 text-muted-foreground hover:text-destructive"
+                  aria-label={`Delete ${t.name} template`}
+                >
+                  x
+                </button>
+              </span>
+            ))}
+          </div>
+          {matchingTemplate && (
+            <p className="text-xs">
+              <span className="text-accent mr-2">hint:</span>
+              this file matches [{matchingTemplate.name.toLowerCase()}]
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto border border-border">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-border text-muted-foreground">
+              {Array.from({ length: columnCount }, (_, i) => (
+                <th key={i} className="px-2 py-1 text-left font-normal whitespace-nowrap">
+                  {columnLetter(i)}
+                  {header?.[i] !== undefined && <span className="ml-1">{String(header[i])}</span>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {dataRows.slice(0, PREVIEW_LIMIT).map((row, r) => (
+              <tr key={r} className="border-b border-border/50 last:border-0">
+                {Array.from({ length: columnCount }, (_, i) => (
+                  <td key={i} className="px-2 py-1 whitespace-nowrap mono-nums">
+                    {row[i] ?? ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex gap-2">
+        {(['split', 'signed'] as const).map((style) => (
+          <button
+            key={style}
+            onClick={() => setAmountStyle(style)}
+            className={cn(
+              'flex-1 border px-3 py-1.5 text-xs transition-colors',
+              amountStyle === style
+                ? 'bg-accent text-accent-foreground border-accent'
+                : 'border-border hover:border-accent hover:text-accent'
+            )}
+          >
+            {style === 'split' ? 'debit / credit columns' : 'signed amount column'}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {fields.map((field) => (
+          <label key={field} className="space-y-1">
+            <span className="text-xs text-muted-foreground">{FIELD_LABELS[field]}</span>
+            <select
+              value={mapping[field] ?? ''}
+              onChange={(e) => handleFieldChange(field, e.target.value)}
+              className="w-full tui-input text-xs bg-muted"
+            >
+              <option value="">--</option>
+              {Array.from({ length: columnCount }, (_, i) => (
+                <option key={i} value={i}>
+                  {columnLetter(i)}
+                  {header?.[i] !== undefined ? ` · ${String(header[i]).toLowerCase()}` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+
+        <label className="space-y-1">
+          <span className="text-xs text-muted-foreground">date format</span>
+          <select
+            value={dateFormat}
+            onChange={(e) => setDateFormat(e.target.value)}
+            className="w-full tui-input text-xs bg-muted"
+          >
+            {DATE_FORMATS.map((format) => (
+              <option key={format} value={format}>
+                {format}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <input
+        type="text"
+        placeholder="template name, e.g. providus"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className="w-full border border-border bg-background px-3 py-2 text-sm focus:border-accent focus:outline-none"
+      />
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="flex-1 border border-border px-3 py-2 text-xs hover:bg-muted"
+        >
+          cancel
+        </button>
+        <button
+          onClick={handleImport}
+          disabled={!canImport}
+          className="flex-1 bg-accent text-accent-foreground px-3 py-2 text-xs disabled:opacity-50"
+        >
+          save & import
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { ACCEPTED_FILE_TYPES } from '~/lib/constants';
 import type { FileFormat } from '~/types';
 
 interface DropZoneProps {
-  onFileSelect: (file: File) => void;
+  onFileSelect: (files: File[]) => void;
   onError?: (message: string) => void;
   disabled?: boolean;
   fileFormat?: FileFormat;
@@ -14,35 +14,40 @@ const FORMAT_LABELS: Record<FileFormat, string> = {
   pdf: '.pdf',
   excel: '.xlsx',
   csv: '.csv',
+  ofx: '.ofx',
 };
 
 const FORMAT_EXTENSIONS: Record<FileFormat, string[]> = {
   pdf: ['.pdf'],
   excel: ['.xlsx', '.xls'],
   csv: ['.csv'],
+  ofx: ['.ofx', '.qfx'],
 };
 
 const FORMAT_ACCEPT: Record<FileFormat, string> = {
   pdf: 'application/pdf,.pdf',
   excel: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel,.xlsx,.xls',
   csv: 'text/csv,application/csv,.csv',
+  ofx: 'application/x-ofx,application/vnd.intu.qfx,.ofx,.qfx',
 };
 
+// Any bank's OFX export can be imported, whatever format its statements usually come in
 function validateFileFormat(file: File, expectedFormat: FileFormat): boolean {
   const fileName = file.name.toLowerCase();
-  const validExtensions = FORMAT_EXTENSIONS[expectedFormat];
+  const validExtensions = [...FORMAT_EXTENSIONS[expectedFormat], ...FORMAT_EXTENSIONS.ofx];
   return validExtensions.some(ext => fileName.endsWith(ext));
 }
 
 export function DropZone({ onFileSelect, onError, disabled, fileFormat }: DropZoneProps) {
   const [isDragging, setIsDragging] = useState(false);
 
-  const handleFile = useCallback((file: File) => {
-    if (fileFormat && !validateFileFormat(file, fileFormat)) {
-      onError?.(`expected ${FORMAT_LABELS[fileFormat]} file`);
+  const handleFiles = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+    if (fileFormat && !files.every((file) => validateFileFormat(file, fileFormat))) {
+      onError?.(`expected ${FORMAT_LABELS[fileFormat]} file${files.length > 1 ? 's' : ''}`);
       return;
     }
-    onFileSelect(file);
+    onFileSelect(files);
   }, [fileFormat, onFileSelect, onError]);
 
   const handleDragOver = useCallback((e: DragEvent<HTMLDivElement>) => {
@@ -67,26 +72,22 @@ export function DropZone({ onFileSelect, onError, disabled, fileFormat }: DropZo
 
       if (disabled) return;
 
-      const file = e.dataTransfer.files[0];
-      if (file) {
-        handleFile(file);
-      }
+      handleFiles(Array.from(e.dataTransfer.files));
     },
-    [handleFile, disabled]
+    [handleFiles, disabled]
   );
 
   const handleFileInput = useCallback(
     (e: ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file) {
-        handleFile(file);
-      }
+      handleFiles(Array.from(e.target.files ?? []));
       e.target.value = '';
     },
-    [handleFile]
+    [handleFiles]
   );
 
-  const acceptTypes = fileFormat ? FORMAT_ACCEPT[fileFormat] : ACCEPTED_FILE_TYPES;
+  const acceptTypes = fileFormat
+    ? `${FORMAT_ACCEPT[fileFormat]},${FORMAT_ACCEPT.ofx}`
+    : ACCEPTED_FILE_TYPES;
 
   return (
     <div
@@ -138,7 +139,7 @@ export function DropZone({ onFileSelect, onError, disabled, fileFormat }: DropZo
               )}
             </p>
             <p className="text-xs text-muted-foreground/70">
-              {fileFormat ? FORMAT_LABELS[fileFormat] : '.xlsx · .csv · .pdf'}
+              {fileFormat ? `${FORMAT_LABELS[fileFormat]} · .ofx` : '.xlsx · .csv · .pdf · .ofx'}
             </p>
           </div>
 
@@ -151,6 +152,7 @@ export function DropZone({ onFileSelect, onError, disabled, fileFormat }: DropZo
         <input
           type="file"
           accept={acceptTypes}
+          multiple
           onChange={handleFileInput}
           disabled={disabled}
           className="sr-only"
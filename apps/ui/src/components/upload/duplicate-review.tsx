@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { cn, formatCurrency, formatDate } from '~/lib/utils';
+import type { DuplicateReview as DuplicateReviewData } from '~/hooks/useStatementUpload';
+import type { Transaction } from '~/types';
+
+interface DuplicateReviewProps {
+  review: DuplicateReviewData;
+  className?: string;
+  onConfirm: (skipIds: string[]) => void;
+  onCancel: () => void;
+}
+
+function TransactionLine({ label, tx }: { label: string; tx: Transaction }) {
+  return (
+    <p className="truncate">
+      <span className="text-muted-foreground mr-2">{label}</span>
+      <span className="text-muted-foreground mr-2 mono-nums">{formatDate(tx.date)}</span>
+      {tx.description.toLowerCase()}
+    </p>
+  );
+}
+
+export function DuplicateReview({ review, className, onConfirm, onCancel }: DuplicateReviewProps) {
+  const [skipped, setSkipped] = useState(() => new Set(review.matches.map((m) => m.incoming.id)));
+
+  const toggle = (id: string) => {
+    setSkipped((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className={cn('tui-box border-warning/30 bg-warning-muted p-4 space-y-4', className)}>
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">selected file</p>
+        <p className="text-sm truncate">{review.file.name}</p>
+      </div>
+
+      <p className="text-xs">
+        <span className="text-warning mr-2">warn:</span>
+        {review.matches.length} transactions look like ones you already imported. ticked rows will be skipped
+      </p>
+
+      <ul className="max-h-64 overflow-y-auto border border-border text-xs">
+        {review.matches.map(({ incoming, existing, similarity }) => (
+          <li key={incoming.id} className="border-b border-border/50 last:border-0">
+            <label className="flex items-start gap-2 px-2 py-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={skipped.has(incoming.id)}
+                onChange={() => toggle(incoming.id)}
+                className="mt-0.5 accent-accent"
+              />
+              <div className="min-w-0 flex-1 space-y-0.5">
+                <p className="flex items-center justify-between gap-2">
+                  <span className={cn('mono-nums', incoming.amount > 0 ? 'text-accent' : undefined)}>
+                    {formatCurrency(incoming.amount, incoming.currency)}
+                  </span>
+                  <span className="text-muted-foreground mono-nums">{Math.round(similarity * 100)}% alike</span>
+                </p>
+                <TransactionLine label="new" tx={incoming} />
+                <TransactionLine label="old" tx={existing} />
+              </div>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="border border-border px-3 py-2 text-xs hover:bg-muted"
+        >
+          cancel
+        </button>
+        <button
+          onClick={() => onConfirm([])}
+          className="flex-1 border border-border px-3 py-2 text-xs hover:bg-muted"
+        >
+          import all
+        </button>
+        <button
+          onClick={() => onConfirm([...skipped])}
+          disabled={skipped.size === 0}
+          className="flex-1 bg-accent text-accent-foreground px-3 py-2 text-xs disabled:opacity-50"
+        >
+          skip {skipped.size} & import
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { cn, formatCurrency, formatDate } from '~/lib/utils';
+import { ReconciliationBadge } from './reconciliation-badge';
+import type { ImportReport as ImportReportData, RawRow } from '~/types';
+
+interface ImportReportProps {
+  report: ImportReportData;
+  className?: string;
+  onDone?: () => void;
+}
+
+function formatRow(row: RawRow | undefined): string {
+  if (!row) return '';
+  return row
+    .map((cell) => (cell === undefined || cell === null ? '' : String(cell).trim()))
+    .join(' | ');
+}
+
+export function ImportReport({ report, className, onDone }: ImportReportProps) {
+  const [showSkipped, setShowSkipped] = useState(false);
+  const { stats, failedRows, skippedRows, reconciliation } = report;
+
+  const lines: [string, number, string?][] = [
+    ['rows read', stats.totalRows],
+    ['transactions created', stats.successfulTransactions, 'text-accent'],
+    ['rows skipped', stats.skippedRows],
+    ['rows failed', stats.errors, stats.errors > 0 ? 'text-destructive' : undefined],
+  ];
+
+  return (
+    <div className={cn('tui-box p-4 space-y-4', className)}>
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">import report</span>
+        <div className="flex items-center gap-2">
+          <span className="mono-nums text-muted-foreground">{stats.processingTimeMs}ms</span>
+          <ReconciliationBadge status={reconciliation.status} breaks={reconciliation.breaks.length} />
+        </div>
+      </div>
+
+      <dl className="space-y-1 text-xs">
+        {lines.map(([label, value, tone]) => (
+          <div key={label} className="flex items-center justify-between">
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className={cn('mono-nums', tone)}>{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {report.ocrPages !== undefined && report.ocrPages > 0 && (
+        <p className="text-xs">
+          <span className="text-warning mr-2">warn:</span>
+          {report.ocrPages} {report.ocrPages === 1 ? 'page was' : 'pages were'} scanned and read with ocr.
+          check amounts and dates against the statement, ocr can misread them
+        </p>
+      )}
+
+      {reconciliation.breaks.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs">
+            <span className="text-warning mr-2">warn:</span>
+            the running balance breaks at these transactions, a row may be misread or missing
+          </p>
+          <ul className="max-h-48 overflow-y-auto border border-border text-xs">
+            {reconciliation.breaks.map((b, i) => (
+              <li key={`${b.transactionId}-${i}`} className="border-b border-border/50 px-2 py-1.5 last:border-0 space-y-0.5">
+                <p className="truncate">
+                  <span className="text-muted-foreground mr-2 mono-nums">{formatDate(b.date)}</span>
+                  {b.description.toLowerCase()}
+                </p>
+                <p className="text-muted-foreground mono-nums">
+                  expected {formatCurrency(b.expectedBalance, report.currency)} · statement{' '}
+                  {formatCurrency(b.actualBalance, report.currency)}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {failedRows.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs">
+            <span className="text-destructive mr-2">err:</span>
+            these rows could not be read and were left out
+          </p>
+          <ul className="max-h-48 overflow-y-auto border border-border text-xs">
+            {failedRows.map((failed) => (
+              <li key={failed.rowIndex} className="border-b border-border/50 px-2 py-1.5 last:border-0 space-y-0.5">
+                <p>
+                  <span className="text-muted-foreground mr-2 mono-nums">row {failed.rowIndex + 1}</span>
+                  {failed.message.toLowerCase()}
+                </p>
+                <p className="text-muted-foreground break-all">{formatRow(failed.row)}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {skippedRows.length > 0 && (
+        <div className="space-y-2">
+          <button
+            onClick={() => setShowSkipped((v) => !v)}
+            className="text-xs text-muted-foreground hover:text-accent"
+          >
+            [{showSkipped ? '-' : '+'}] skipped rows
+            {stats.skippedRows > skippedRows.length && ` (first ${skippedRows.length})`}
+          </button>
+          {showSkipped && (
+            <ul className="max-h-48 overflow-y-auto border border-border text-xs">
+              {skippedRows.map((skipped) => (
+                <li key={skipped.rowIndex} className="border-b border-border/50 px-2 py-1.5 last:border-0">
+                  <span className="text-muted-foreground mr-2 mono-nums">row {skipped.rowIndex + 1}</span>
+                  <span className="break-all">{formatRow(skipped.row)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {onDone && (
+        <button
+          onClick={onDone}
+          className="w-full bg-accent text-accent-foreground px-3 py-2 text-xs"
+        >
+          done
+        </button>
+      )}
+    </div>
+  );
+}
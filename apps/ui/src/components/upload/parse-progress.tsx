@@ -0,0 +1,26 @@
+import { cn } from '~/lib/utils';
+import { Progress } from '~/components/ui';
+
+interface ParseProgressProps {
+  progress: number;
+  message: string;
+  className?: string;
+  onCancel?: () => void;
+}
+
+export function ParseProgress({ progress, message, className, onCancel }: ParseProgressProps) {
+  return (
+    <div className={cn('tui-box p-3 space-y-2', className)}>
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="min-w-0 flex-1 truncate text-muted-foreground">{message}</span>
+        <span className="mono-nums">{progress}%</span>
+        {onCancel && (
+          <button onClick={onCancel} className="text-muted-foreground hover:text-destructive">
+            [cancel]
+          </button>
+        )}
+      </div>
+      <Progress value={progress} />
+    </div>
+  );
+}
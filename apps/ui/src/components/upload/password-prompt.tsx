@@ -0,0 +1,70 @@
+import { cn } from '~/lib/utils';
+
+interface PasswordPromptProps {
+  fileName: string;
+  password: string;
+  error: string | null;
+  disabled?: boolean;
+  className?: string;
+  onPasswordChange: (password: string) => void;
+  onUnlock: () => void;
+  onCancel: () => void;
+}
+
+export function PasswordPrompt({
+  fileName,
+  password,
+  error,
+  disabled,
+  className,
+  onPasswordChange,
+  onUnlock,
+  onCancel,
+}: PasswordPromptProps) {
+  return (
+    <div className={cn('tui-box p-4 space-y-4', className)}>
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">selected file</p>
+        <p className="text-sm truncate">{fileName}</p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs text-muted-foreground">
+          this pdf is password protected
+        </label>
+        <input
+          type="password"
+          placeholder="enter password"
+          value={password}
+          onChange={(e) => onPasswordChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && password) {
+              onUnlock();
+            }
+          }}
+          className="w-full border border-border bg-background px-3 py-2 text-sm focus:border-accent focus:outline-none"
+          autoFocus
+        />
+        {error && (
+          <p className="text-xs text-destructive">{error}</p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="flex-1 border border-border px-3 py-2 text-xs hover:bg-muted"
+        >
+          cancel
+        </button>
+        <button
+          onClick={onUnlock}
+          disabled={!password || disabled}
+          className="flex-1 bg-accent text-accent-foreground px-3 py-2 text-xs disabled:opacity-50"
+        >
+          unlock
+        </button>
+      </div>
+    </div>
+  );
+}
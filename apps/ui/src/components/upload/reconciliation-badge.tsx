@@ -0,0 +1,22 @@
+import type { ReconciliationStatus } from '~/types';
+
+interface ReconciliationBadgeProps {
+  status: ReconciliationStatus;
+  breaks?: number;
+}
+
+export function ReconciliationBadge({ status, breaks }: ReconciliationBadgeProps) {
+  if (status === 'reconciled') {
+    return <span className="tui-badge tui-badge-success text-xs">reconciled ●</span>;
+  }
+
+  if (status === 'unreconciled') {
+    return (
+      <span className="tui-badge tui-badge-warning text-xs">
+        unreconciled{breaks ? ` · ${breaks}` : ''} ◐
+      </span>
+    );
+  }
+
+  return <span className="tui-badge text-xs">no balances ○</span>;
+}
@@ -1,21 +1,20 @@
-import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
-import * as Comlink from 'comlink';
-import { BottomSheet, Progress } from '~/components/ui';
-import { useTransactionStore } from '~/stores/transactions';
+import { useMemo, useState } from 'react';
+import { BottomSheet } from '~/components/ui';
+import { useStatementUpload } from '~/hooks/useStatementUpload';
 import { DropZone } from './drop-zone';
 import { BankPicker } from './bank-picker';
+import { PasswordPrompt } from './password-prompt';
+import { BankMismatchNotice } from './bank-mismatch';
+import { ColumnMapper } from './column-mapper';
+import { ImportReport } from './import-report';
+import { DuplicateReview } from './duplicate-review';
+import { BatchProgress } from './batch-progress';
+import { ParseProgress } from './parse-progress';
+import { AlertImport } from './alert-import';
 import { SUPPORTED_BANKS } from '~/lib/constants';
-import type { BankType, Transaction } from '~/types';
+import { cn } from '~/lib/utils';
 
-interface ParserApi {
-  parseFile(
-    fileBuffer: ArrayBuffer,
-    fileName: string,
-    bankType: BankType,
-    password: string | undefined,
-    onProgress: (progress: number, message: string) => void
-  ): Promise<{ transactions: Transaction[]; error?: string }>;
-}
+type UploadMode = 'statement' | 'alerts';
 
 interface UploadSheetProps {
   isOpen: boolean;
@@ -23,242 +22,160 @@ interface UploadSheetProps {
 }
 
 export function UploadSheet({ isOpen, onClose }: UploadSheetProps) {
-  const [selectedBank, setSelectedBank] = useState<BankType | null>(null);
-  const [uploadStatus, setUploadStatus] = useState<{
-    stage: 'idle' | 'parsing' | 'error' | 'success';
-    progress?: number;
-    message?: string;
-  }>({ stage: 'idle' });
-  const [pendingFile, setPendingFile] = useState<File | null>(null);
-  const [password, setPassword] = useState('');
-  const [passwordError, setPasswordError] = useState<string | null>(null);
-
-  const workerRef = useRef<Worker | null>(null);
-  const apiRef = useRef<Comlink.Remote<ParserApi> | null>(null);
-
-  const addParsedTransactions = useTransactionStore((s) => s.addParsedTransactions);
+  const [mode, setMode] = useState<UploadMode>('statement');
+
+  const {
+    selectedBank,
+    selectBank,
+    status,
+    isProcessing,
+    cancelProcessing,
+    pendingFile,
+    password,
+    setPassword,
+    passwordError,
+    mismatch,
+    handleFileSelect,
+    handleUnlock,
+    handleCancelPending,
+    handleFileError,
+    resolveMismatch,
+    cancelMismatch,
+    customImport,
+    importWithTemplate,
+    cancelCustomImport,
+    report,
+    dismissReport,
+    duplicateReview,
+    resolveDuplicates,
+    cancelDuplicateReview,
+    batch,
+    dismissBatch,
+  } = useStatementUpload({ enabled: isOpen });
 
   const selectedBankInfo = useMemo(
     () => SUPPORTED_BANKS.find((b) => b.id === selectedBank),
     [selectedBank]
   );
 
-  useEffect(() => {
-    setPendingFile(null);
-    setPassword('');
-    setPasswordError(null);
-  }, [selectedBank]);
-
-  useEffect(() => {
-    if (!isOpen) return;
-
-    workerRef.current = new Worker(
-      new URL('../../workers/parser.worker.ts', import.meta.url),
-      { type: 'module' }
-    );
-    apiRef.current = Comlink.wrap<ParserApi>(workerRef.current);
-
-    return () => {
-      workerRef.current?.terminate();
-      workerRef.current = null;
-      apiRef.current = null;
-    };
-  }, [isOpen]);
-
-  useEffect(() => {
-    if (!isOpen) {
-      setUploadStatus({ stage: 'idle' });
-      setSelectedBank(null);
-      setPendingFile(null);
-      setPassword('');
-      setPasswordError(null);
-    }
-  }, [isOpen]);
-
-  const processFile = useCallback(
-    async (file: File, filePassword?: string) => {
-      if (!selectedBank || !apiRef.current) return;
-
-      setPasswordError(null);
-      setUploadStatus({ stage: 'parsing', progress: 0, message: 'reading file...' });
-
-      try {
-        const buffer = await file.arrayBuffer();
-
-        const result = await apiRef.current.parseFile(
-          buffer,
-          file.name,
-          selectedBank,
-          filePassword,
-          Comlink.proxy((progress: number, message: string) => {
-            setUploadStatus({ stage: 'parsing', progress, message: message.toLowerCase() });
-          })
-        );
-
-        if (result.error) {
-          const isPasswordError = result.error.toLowerCase().includes('password') || 
-                                  result.error.toLowerCase().includes('decrypt') ||
-                                  result.error.toLowerCase().includes('encrypted');
-          
-          if (isPasswordError) {
-            setPendingFile(file);
-            setPasswordError(filePassword ? 'incorrect password, please try again' : null);
-            setUploadStatus({ stage: 'idle' });
-          } else {
-            setUploadStatus({ stage: 'error', message: result.error });
-            setPendingFile(null);
-          }
-          return;
-        }
-
-        setPendingFile(null);
-        setPassword('');
-        await addParsedTransactions(result.transactions as Transaction[]);
-        setUploadStatus({ stage: 'success', message: `Added ${result.transactions.length} transactions` });
-
-        setTimeout(() => {
-          onClose();
-        }, 1000);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'failed to process file';
-        const isPasswordError = errorMessage.toLowerCase().includes('password') || 
-                                errorMessage.toLowerCase().includes('decrypt') ||
-                                errorMessage.toLowerCase().includes('encrypted');
-        
-        if (isPasswordError) {
-          setPendingFile(file);
-          setPasswordError(filePassword ? 'incorrect password, please try again' : null);
-          setUploadStatus({ stage: 'idle' });
-        } else {
-          setUploadStatus({ stage: 'error', message: errorMessage });
-          setPendingFile(null);
-        }
-      }
-    },
-    [selectedBank, addParsedTransactions, onClose]
-  );
-
-  const handleFileSelect = useCallback(
-    async (file: File) => {
-      if (!selectedBank) return;
-      await processFile(file);
-    },
-    [selectedBank, processFile]
-  );
-
-  const handleUnlock = useCallback(async () => {
-    if (!pendingFile || !password) return;
-    await processFile(pendingFile, password);
-  }, [pendingFile, password, processFile]);
-
-  const handleCancelPending = useCallback(() => {
-    setPendingFile(null);
-    setPassword('');
-    setPasswordError(null);
-  }, []);
-
-  const handleFileError = useCallback((message: string) => {
-    setUploadStatus({ stage: 'error', message });
-  }, []);
-
-  const isProcessing = uploadStatus.stage === 'parsing';
-
   return (
     <BottomSheet isOpen={isOpen} onClose={onClose}>
       <div className="px-4 pb-6">
         <div className="flex items-center gap-2 mb-4">
           <span className="text-accent">$</span>
-          <h2 className="text-sm font-semibold">add statement</h2>
-        </div>
-
-        {isProcessing && (
-          <div className="mb-4 tui-box p-3 space-y-2">
-            <div className="flex items-center justify-between text-xs">
-              <span className="text-muted-foreground">{uploadStatus.message}</span>
-              <span className="mono-nums">{uploadStatus.progress}%</span>
-            </div>
-            <Progress value={uploadStatus.progress ?? 0} />
-          </div>
-        )}
-
-        {uploadStatus.stage === 'error' && (
-          <div className="mb-4 tui-box border-destructive/30 bg-destructive-muted p-3 text-xs text-destructive">
-            <span className="text-muted-foreground mr-2">err:</span>
-            {uploadStatus.message}
-          </div>
-        )}
-
-        {uploadStatus.stage === 'success' && (
-          <div className="mb-4 tui-box border-accent/30 bg-accent/10 p-3 text-xs text-accent">
-            {uploadStatus.message}
+          <h2 className="text-sm font-semibold">{mode === 'statement' ? 'add statement' : 'add alerts'}</h2>
+          <div className="ml-auto flex gap-1">
+            {(['statement', 'alerts'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                disabled={isProcessing}
+                className={cn(
+                  'text-xs px-2 py-1 border transition-colors',
+                  mode === option
+                    ? 'bg-accent text-accent-foreground border-accent'
+                    : 'bg-muted border-border hover:border-border-strong'
+                )}
+              >
+                {option}
+              </button>
+            ))}
           </div>
-        )}
-
-        <div className="mb-4">
-          <BankPicker selectedBank={selectedBank} onSelectBank={setSelectedBank} />
         </div>
 
-        {pendingFile ? (
-          <div className="tui-box p-4 space-y-4">
-            <div className="space-y-1">
-              <p className="text-xs text-muted-foreground">selected file</p>
-              <p className="text-sm truncate">{pendingFile.name}</p>
+        {mode === 'alerts' ? (
+          <>
+            <div className="mb-4">
+              <BankPicker selectedBank={selectedBank} onSelectBank={selectBank} allowCustom={false} />
             </div>
-            
-            <div className="space-y-2">
-              <label className="text-xs text-muted-foreground">
-                this pdf is password protected
-              </label>
-              <input
-                type="password"
-                placeholder="enter password"
-                value={password}
-                onChange={(e) => {
-                  setPassword(e.target.value);
-                  setPasswordError(null);
-                }}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && password) {
-                    handleUnlock();
-                  }
-                }}
-                className="w-full border border-border bg-background px-3 py-2 text-sm focus:border-accent focus:outline-none"
-                autoFocus
+            <AlertImport bank={selectedBank} onDone={onClose} />
+          </>
+        ) : (
+          <>
+            {!batch && status.stage === 'parsing' && (
+              <ParseProgress
+                progress={status.progress}
+                message={status.message}
+                className="mb-4"
+                onCancel={cancelProcessing}
               />
-              {passwordError && (
-                <p className="text-xs text-destructive">{passwordError}</p>
-              )}
+            )}
+
+            {!batch && status.stage === 'error' && (
+              <div className="mb-4 tui-box border-destructive/30 bg-destructive-muted p-3 text-xs text-destructive">
+                <span className="text-muted-foreground mr-2">err:</span>
+                {status.message}
+              </div>
+            )}
+
+            {!batch && status.stage === 'success' && (
+              <div className="mb-4 tui-box border-accent/30 bg-accent/10 p-3 text-xs text-accent">
+                {status.message}
+              </div>
+            )}
+
+            <div className="mb-4">
+              <BankPicker selectedBank={selectedBank} onSelectBank={selectBank} />
             </div>
 
-            <div className="flex gap-2">
-              <button
-                onClick={handleCancelPending}
-                className="flex-1 border border-border px-3 py-2 text-xs hover:bg-muted"
-              >
-                cancel
-              </button>
-              <button
-                onClick={handleUnlock}
-                disabled={!password || isProcessing}
-                className="flex-1 bg-accent text-accent-foreground px-3 py-2 text-xs disabled:opacity-50"
-              >
-                unlock
-              </button>
-            </div>
-          </div>
-        ) : (
-          <DropZone
-            onFileSelect={handleFileSelect}
-            onError={handleFileError}
-            disabled={isProcessing || !selectedBank}
-            fileFormat={selectedBankInfo?.fileFormat}
-          />
-        )}
-
-        {!selectedBank && (
-          <p className="mt-3 text-center text-xs text-muted-foreground">
-            <span className="text-accent">hint:</span> select your bank first
-          </p>
+            {customImport ? (
+              <ColumnMapper
+                key={customImport.file.name}
+                customImport={customImport}
+                disabled={isProcessing}
+                onImport={importWithTemplate}
+                onCancel={cancelCustomImport}
+              />
+            ) : mismatch ? (
+              <BankMismatchNotice
+                mismatch={mismatch}
+                onResolve={resolveMismatch}
+                onCancel={cancelMismatch}
+              />
+            ) : duplicateReview ? (
+              <DuplicateReview
+                key={duplicateReview.fileHash}
+                review={duplicateReview}
+                onConfirm={resolveDuplicates}
+                onCancel={cancelDuplicateReview}
+              />
+            ) : pendingFile ? (
+              <PasswordPrompt
+                fileName={pendingFile.name}
+                password={password}
+                error={passwordError}
+                disabled={isProcessing}
+                onPasswordChange={setPassword}
+                onUnlock={handleUnlock}
+                onCancel={handleCancelPending}
+              />
+            ) : batch ? (
+              <BatchProgress
+                batch={batch}
+                status={status}
+                onCancelFile={cancelProcessing}
+                onDone={batch.entries.some((entry) => entry.state === 'imported') ? onClose : dismissBatch}
+              />
+            ) : report && !isProcessing ? (
+              <ImportReport
+                report={report}
+                onDone={status.stage === 'success' ? onClose : dismissReport}
+              />
+            ) : (
+              <DropZone
+                onFileSelect={handleFileSelect}
+                onError={handleFileError}
+                disabled={isProcessing}
+                fileFormat={selectedBankInfo?.fileFormat}
+              />
+            )}
+
+            {!selectedBank && (
+              <p className="mt-3 text-center text-xs text-muted-foreground">
+                <span className="text-accent">hint:</span> drop a statement and we'll detect the bank
+              </p>
+            )}
+          </>
         )}
       </div>
     </BottomSheet>
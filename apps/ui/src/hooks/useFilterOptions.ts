@@ -1,11 +1,12 @@
 import { useLiveQuery } from '@electric-sql/pglite-react';
+import type { SpendingCategory } from '~/types';
 
 interface BankRow {
   bank_source: string;
 }
 
 interface CategoryRow {
-  category: string;
+  spending_category: SpendingCategory;
 }
 
 interface DateRangeRow {
@@ -19,7 +20,7 @@ export function useFilterOptions() {
   );
 
   const categoriesResult = useLiveQuery<CategoryRow>(
-    'SELECT DISTINCT category FROM transactions ORDER BY category'
+    'SELECT DISTINCT spending_category FROM transactions WHERE spending_category IS NOT NULL ORDER BY spending_category'
   );
 
   const dateRangeResult = useLiveQuery<DateRangeRow>(
@@ -27,7 +28,7 @@ export function useFilterOptions() {
   );
 
   const banks = (banksResult?.rows ?? []).map(r => r.bank_source);
-  const categories = (categoriesResult?.rows ?? []).map(r => r.category);
+  const categories = (categoriesResult?.rows ?? []).map(r => r.spending_category);
   
   const dateRange = dateRangeResult?.rows?.[0];
   const minDate = dateRange?.min_date ? dateRange.min_date.toISOString().split('T')[0] : null;
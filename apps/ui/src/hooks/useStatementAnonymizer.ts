@@ -0,0 +1,104 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import * as Comlink from 'comlink';
+import type { BankType } from '~/types';
+
+type ProgressCallback = (progress: number, message: string) => void;
+
+interface AnonymizeResult {
+  fixture?: string;
+  statement?: { content: string; extension: 'txt' | 'csv' };
+  transactions: number;
+  error?: string;
+  cancelled?: boolean;
+}
+
+interface AnonymizerApi {
+  anonymizeFile(
+    fileBuffer: ArrayBuffer,
+    fileName: string,
+    bankType: BankType,
+    password: string | undefined,
+    onProgress: ProgressCallback
+  ): Promise<AnonymizeResult>;
+  cancel(): void;
+}
+
+export interface AnonymizedStatement {
+  bank: BankType;
+  fixture: string;
+  statement: { content: string; extension: 'txt' | 'csv' };
+  transactions: number;
+}
+
+export type AnonymizeStatus =
+  | { stage: 'idle' }
+  | { stage: 'working'; progress: number; message: string }
+  | { stage: 'done'; result: AnonymizedStatement }
+  | { stage: 'error'; message: string };
+
+/**
+ * Runs the parser worker's anonymizer on a statement. The worker only starts when a file is picked.
+ */
+export function useStatementAnonymizer() {
+  const [status, setStatus] = useState<AnonymizeStatus>({ stage: 'idle' });
+
+  const workerRef = useRef<Worker | null>(null);
+  const apiRef = useRef<Comlink.Remote<AnonymizerApi> | null>(null);
+
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      apiRef.current = null;
+    };
+  }, []);
+
+  const anonymize = useCallback(async (file: File, bank: BankType, password?: string) => {
+    if (!apiRef.current) {
+      workerRef.current = new Worker(
+        new URL('../workers/parser.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+      apiRef.current = Comlink.wrap<AnonymizerApi>(workerRef.current);
+    }
+
+    setStatus({ stage: 'working', progress: 0, message: 'reading file...' });
+
+    try {
+      const buffer = await file.arrayBuffer();
+      const result = await apiRef.current.anonymizeFile(
+        buffer,
+        file.name,
+        bank,
+        password || undefined,
+        Comlink.proxy((progress: number, message: string) => {
+          setStatus({ stage: 'working', progress, message: message.toLowerCase() });
+        })
+      );
+
+      if (result.cancelled) {
+        setStatus({ stage: 'idle' });
+      } else if (result.error || !result.fixture || !result.statement) {
+        setStatus({ stage: 'error', message: (result.error ?? 'failed to anonymize file').toLowerCase() });
+      } else {
+        setStatus({
+          stage: 'done',
+          result: { bank, fixture: result.fixture, statement: result.statement, transactions: result.transactions },
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'failed to anonymize file';
+      setStatus({ stage: 'error', message: message.toLowerCase() });
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    apiRef.current?.cancel();
+  }, []);
+
+  const reset = useCallback(() => {
+    setStatus({ stage: 'idle' });
+  }, []);
+
+  return { status, anonymize, cancel, reset };
+}
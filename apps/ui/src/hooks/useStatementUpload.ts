@@ -0,0 +1,567 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import * as Comlink from 'comlink';
+import { useTransactionStore } from '~/stores/transactions';
+import { DETECTION_THRESHOLD, getFileFormat, isBankMismatch, type BankCandidate } from '~/lib/parsers/detect';
+import { hashFile } from '~/lib/statements';
+import type { DuplicateMatch } from '~/lib/parsers/duplicates';
+import {
+  BankType,
+  type ImportReport,
+  type ImportTemplate,
+  type RawRow,
+  type StatementInfo,
+  type Transaction,
+} from '~/types';
+
+type ProgressCallback = (progress: number, message: string) => void;
+
+interface ParseResult {
+  transactions: Transaction[];
+  report?: ImportReport;
+  statement?: StatementInfo;
+  error?: string;
+  cancelled?: boolean;
+}
+
+interface ParserApi {
+  detectBank(
+    fileBuffer: ArrayBuffer,
+    fileName: string,
+    password: string | undefined
+  ): Promise<{ candidates: BankCandidate[]; error?: string; cancelled?: boolean }>;
+  parseFile(
+    fileBuffer: ArrayBuffer,
+    fileName: string,
+    bankType: BankType,
+    password: string | undefined,
+    onProgress: ProgressCallback
+  ): Promise<ParseResult>;
+  previewRows(
+    fileBuffer: ArrayBuffer,
+    fileName: string
+  ): Promise<{ rows: RawRow[]; headerIndex: number; error?: string }>;
+  parseWithTemplate(
+    fileBuffer: ArrayBuffer,
+    fileName: string,
+    template: ImportTemplate,
+    onProgress: ProgressCallback
+  ): Promise<ParseResult>;
+  cancel(): void;
+}
+
+export type UploadStatus =
+  | { stage: 'idle' }
+  | { stage: 'parsing'; progress: number; message: string }
+  | { stage: 'error'; message: string }
+  | { stage: 'success'; message: string; added: number };
+
+export interface BankMismatch {
+  file: File;
+  password?: string;
+  selected: BankType;
+  detected: BankCandidate;
+}
+
+export interface CustomImport {
+  file: File;
+  rows: RawRow[];
+  headerIndex: number;
+}
+
+/**
+ * A parsed file held back because some rows look like ones already stored
+ */
+export interface DuplicateReview {
+  file: File;
+  fileHash: string;
+  result: ParseResult;
+  matches: DuplicateMatch[];
+}
+
+export type BatchFileState = 'queued' | 'processing' | 'imported' | 'failed' | 'skipped';
+
+export interface BatchEntry {
+  id: string;
+  file: File;
+  state: BatchFileState;
+  message?: string;
+  added?: number;
+  report?: ImportReport;
+}
+
+/**
+ * Several files dropped at once. They go through the single-file flow one after another,
+ * each with its own detection and prompts, starting from the bank picked when they were dropped.
+ */
+export interface UploadBatch {
+  bank: BankType | null;
+  entries: BatchEntry[];
+}
+
+interface UseStatementUploadOptions {
+  enabled: boolean;
+  onSuccess?: () => void;
+}
+
+function isPasswordError(message: string): boolean {
+  const lower = message.toLowerCase();
+  return lower.includes('password') || lower.includes('decrypt') || lower.includes('encrypted');
+}
+
+export function useStatementUpload({ enabled, onSuccess }: UseStatementUploadOptions) {
+  const [selectedBank, setSelectedBank] = useState<BankType | null>(null);
+  const [status, setStatus] = useState<UploadStatus>({ stage: 'idle' });
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [mismatch, setMismatch] = useState<BankMismatch | null>(null);
+  const [customImport, setCustomImport] = useState<CustomImport | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [duplicateReview, setDuplicateReview] = useState<DuplicateReview | null>(null);
+  const [batch, setBatch] = useState<UploadBatch | null>(null);
+
+  const workerRef = useRef<Worker | null>(null);
+  const apiRef = useRef<Comlink.Remote<ParserApi> | null>(null);
+  const cancelledRef = useRef(false);
+
+  const addParsedTransactions = useTransactionStore((s) => s.addParsedTransactions);
+  const findImportedStatement = useTransactionStore((s) => s.findImportedStatement);
+  const findDuplicates = useTransactionStore((s) => s.findDuplicates);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    workerRef.current = new Worker(
+      new URL('../workers/parser.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+    apiRef.current = Comlink.wrap<ParserApi>(workerRef.current);
+
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      apiRef.current = null;
+    };
+  }, [enabled]);
+
+  const reset = useCallback(() => {
+    setStatus({ stage: 'idle' });
+    setSelectedBank(null);
+    setPendingFile(null);
+    setPassword('');
+    setPasswordError(null);
+    setMismatch(null);
+    setCustomImport(null);
+    setReport(null);
+    setDuplicateReview(null);
+    setBatch(null);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) reset();
+  }, [enabled, reset]);
+
+  const handleFailure = useCallback((file: File, message: string, filePassword?: string) => {
+    if (isPasswordError(message)) {
+      setPendingFile(file);
+      setPasswordError(filePassword ? 'incorrect password, please try again' : null);
+      setStatus({ stage: 'idle' });
+    } else {
+      setStatus({ stage: 'error', message });
+      setPendingFile(null);
+    }
+  }, []);
+
+  const saveImport = useCallback(
+    async (file: File, fileHash: string, result: ParseResult, transactions: Transaction[]) => {
+      setStatus({ stage: 'parsing', progress: 95, message: 'saving...' });
+
+      const saved = await addParsedTransactions(
+        transactions,
+        result.report && {
+          fileName: file.name,
+          fileHash,
+          reconciliation: result.report.reconciliation,
+          statement: result.statement ?? {},
+        }
+      );
+
+      const notes = [
+        saved.existing > 0 && `${saved.existing} were already imported`,
+        saved.replacedAlerts > 0 && `${saved.replacedAlerts} alerts replaced`,
+        transactions.length < result.transactions.length &&
+          `${result.transactions.length - transactions.length} skipped as duplicates`,
+      ].filter(Boolean);
+
+      setStatus({
+        stage: 'success',
+        message: [`Added ${saved.inserted} transactions`, ...notes].join(', '),
+        added: saved.inserted,
+      });
+      onSuccess?.();
+    },
+    [addParsedTransactions, onSuccess]
+  );
+
+  const runImport = useCallback(
+    async (
+      file: File,
+      parse: (api: Comlink.Remote<ParserApi>, buffer: ArrayBuffer, onProgress: ProgressCallback) => Promise<ParseResult>,
+      filePassword?: string
+    ) => {
+      if (!apiRef.current) return;
+
+      cancelledRef.current = false;
+      setStatus({ stage: 'parsing', progress: 0, message: 'reading file...' });
+      setReport(null);
+
+      try {
+        const buffer = await file.arrayBuffer();
+        const fileHash = await hashFile(buffer);
+
+        const existing = await findImportedStatement(fileHash);
+        if (existing) {
+          const importedOn = new Date(existing.importedAt).toLocaleDateString('en-NG', {
+            day: 'numeric',
+            month: 'short',
+            year: 'numeric',
+          });
+          setStatus({ stage: 'error', message: `this statement was already imported on ${importedOn.toLowerCase()}` });
+          setPendingFile(null);
+          return;
+        }
+
+        const result = await parse(
+          apiRef.current,
+          buffer,
+          Comlink.proxy((progress: number, message: string) => {
+            setStatus({ stage: 'parsing', progress, message: message.toLowerCase() });
+          })
+        );
+
+        if (result.cancelled || cancelledRef.current) {
+          setStatus({ stage: 'idle' });
+          setPendingFile(null);
+          return;
+        }
+
+        // Keep the report on failure too, it shows which rows the parser choked on
+        setReport(result.report ?? null);
+
+        if (result.error) {
+          handleFailure(file, result.error, filePassword);
+          return;
+        }
+
+        setPendingFile(null);
+        setPassword('');
+
+        setStatus({ stage: 'parsing', progress: 95, message: 'checking for duplicates...' });
+        const matches = await findDuplicates(result.transactions);
+        if (cancelledRef.current) {
+          setStatus({ stage: 'idle' });
+          return;
+        }
+        if (matches.length > 0) {
+          setDuplicateReview({ file, fileHash, result, matches });
+          setStatus({ stage: 'idle' });
+          return;
+        }
+
+        await saveImport(file, fileHash, result, result.transactions);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'failed to process file';
+        handleFailure(file, message, filePassword);
+      }
+    },
+    [findImportedStatement, findDuplicates, handleFailure, saveImport]
+  );
+
+  const resolveDuplicates = useCallback(
+    async (skipIds: string[]) => {
+      if (!duplicateReview) return;
+      const { file, fileHash, result } = duplicateReview;
+      setDuplicateReview(null);
+
+      const skip = new Set(skipIds);
+      try {
+        await saveImport(file, fileHash, result, result.transactions.filter((tx) => !skip.has(tx.id)));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'failed to save transactions';
+        setStatus({ stage: 'error', message });
+      }
+    },
+    [duplicateReview, saveImport]
+  );
+
+  const cancelDuplicateReview = useCallback(() => {
+    setDuplicateReview(null);
+    setReport(null);
+  }, []);
+
+  const parseWithBank = useCallback(
+    (file: File, bank: BankType, filePassword?: string) =>
+      runImport(
+        file,
+        (api, buffer, onProgress) => api.parseFile(buffer, file.name, bank, filePassword, onProgress),
+        filePassword
+      ),
+    [runImport]
+  );
+
+  const openCustomImport = useCallback(async (file: File) => {
+    if (!apiRef.current) return;
+
+    setStatus({ stage: 'parsing', progress: 0, message: 'reading file...' });
+
+    try {
+      const buffer = await file.arrayBuffer();
+      const preview = await apiRef.current.previewRows(buffer, file.name);
+
+      if (preview.error) {
+        setStatus({ stage: 'error', message: preview.error.toLowerCase() });
+        return;
+      }
+
+      setSelectedBank(BankType.Custom);
+      setCustomImport({ file, rows: preview.rows, headerIndex: preview.headerIndex });
+      setStatus({ stage: 'idle' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'failed to read file';
+      setStatus({ stage: 'error', message });
+    }
+  }, []);
+
+  const importWithTemplate = useCallback(
+    async (template: ImportTemplate) => {
+      if (!customImport) return;
+      const { file } = customImport;
+      setCustomImport(null);
+      await runImport(file, (api, buffer, onProgress) =>
+        api.parseWithTemplate(buffer, file.name, template, onProgress)
+      );
+    },
+    [customImport, runImport]
+  );
+
+  const processFile = useCallback(
+    async (file: File, filePassword?: string, bank: BankType | null = selectedBank) => {
+      if (!apiRef.current) return;
+
+      cancelledRef.current = false;
+      setPasswordError(null);
+      setMismatch(null);
+      setCustomImport(null);
+      setReport(null);
+      setDuplicateReview(null);
+
+      const format = getFileFormat(file.name);
+
+      if (bank === BankType.Custom) {
+        if (format === 'ofx') {
+          await parseWithBank(file, BankType.Custom);
+        } else {
+          await openCustomImport(file);
+        }
+        return;
+      }
+
+      setStatus({ stage: 'parsing', progress: 0, message: 'detecting bank...' });
+
+      let candidates: BankCandidate[] = [];
+      try {
+        const buffer = await file.arrayBuffer();
+        const detection = await apiRef.current.detectBank(buffer, file.name, filePassword);
+
+        if (detection.cancelled || cancelledRef.current) {
+          setStatus({ stage: 'idle' });
+          return;
+        }
+        if (detection.error && isPasswordError(detection.error)) {
+          handleFailure(file, detection.error, filePassword);
+          return;
+        }
+        candidates = detection.candidates;
+      } catch {
+        // Detection is best-effort; fall back to whatever bank the user picked
+      }
+
+      const best = candidates[0];
+
+      if (!bank) {
+        if (!best || best.confidence < DETECTION_THRESHOLD) {
+          // OFX is self-describing, so it can go straight in
+          if (format === 'ofx') {
+            setSelectedBank(BankType.Custom);
+            await parseWithBank(file, BankType.Custom);
+            return;
+          }
+          // Spreadsheets from banks we don't know can still be mapped by hand
+          if (format !== 'pdf') {
+            await openCustomImport(file);
+            return;
+          }
+          setStatus({ stage: 'error', message: "couldn't recognise this statement, select your bank and try again" });
+          setPendingFile(null);
+          return;
+        }
+        setSelectedBank(best.bank);
+        await parseWithBank(file, best.bank, filePassword);
+        return;
+      }
+
+      if (isBankMismatch(bank, candidates)) {
+        setMismatch({ file, password: filePassword, selected: bank, detected: best });
+        setPendingFile(null);
+        setStatus({ stage: 'idle' });
+        return;
+      }
+
+      await parseWithBank(file, bank, filePassword);
+    },
+    [selectedBank, handleFailure, parseWithBank, openCustomImport]
+  );
+
+  const selectBank = useCallback((bank: BankType) => {
+    setSelectedBank(bank);
+    setPendingFile(null);
+    setPassword('');
+    setPasswordError(null);
+    setMismatch(null);
+    setCustomImport(null);
+    setReport(null);
+  }, []);
+
+  const handleUnlock = useCallback(async () => {
+    if (!pendingFile || !password) return;
+    await processFile(pendingFile, password);
+  }, [pendingFile, password, processFile]);
+
+  const handleCancelPending = useCallback(() => {
+    setPendingFile(null);
+    setPassword('');
+    setPasswordError(null);
+  }, []);
+
+  const resolveMismatch = useCallback(
+    async (bank: BankType) => {
+      if (!mismatch) return;
+      const { file, password: filePassword } = mismatch;
+      setMismatch(null);
+      setSelectedBank(bank);
+      await parseWithBank(file, bank, filePassword);
+    },
+    [mismatch, parseWithBank]
+  );
+
+  const cancelMismatch = useCallback(() => {
+    setMismatch(null);
+  }, []);
+
+  const cancelCustomImport = useCallback(() => {
+    setCustomImport(null);
+  }, []);
+
+  const dismissReport = useCallback(() => {
+    setReport(null);
+    setStatus({ stage: 'idle' });
+  }, []);
+
+  const isWaiting = Boolean(pendingFile || mismatch || customImport || duplicateReview);
+
+  // Settle the batch file in flight once it stops parsing and isn't waiting on the user, then start the next one
+  useEffect(() => {
+    if (!batch || status.stage === 'parsing' || isWaiting) return;
+
+    const current = batch.entries.find((entry) => entry.state === 'processing');
+    const next = batch.entries.find((entry) => entry.state === 'queued');
+    if (!current && !next) return;
+
+    const settled: Partial<BatchEntry> =
+      status.stage === 'success'
+        ? { state: 'imported', message: status.message.toLowerCase(), added: status.added }
+        : status.stage === 'error'
+          ? { state: 'failed', message: status.message }
+          : { state: 'skipped', message: 'skipped' };
+
+    setBatch({
+      ...batch,
+      entries: batch.entries.map((entry) => {
+        if (entry === current) return { ...entry, ...settled, report: report ?? undefined };
+        if (entry === next) return { ...entry, state: 'processing' };
+        return entry;
+      }),
+    });
+
+    if (next) {
+      setSelectedBank(batch.bank);
+      void processFile(next.file, undefined, batch.bank);
+    }
+  }, [batch, status, isWaiting, report, processFile]);
+
+  const handleFilesSelect = useCallback(
+    (files: File[]) => {
+      if (files.length === 1) {
+        void processFile(files[0]);
+        return;
+      }
+
+      setStatus({ stage: 'idle' });
+      setReport(null);
+      setBatch({
+        bank: selectedBank,
+        entries: files.map((file) => ({ id: crypto.randomUUID(), file, state: 'queued' })),
+      });
+    },
+    [selectedBank, processFile]
+  );
+
+  const dismissBatch = useCallback(() => {
+    setBatch(null);
+    setReport(null);
+    setStatus({ stage: 'idle' });
+  }, []);
+
+  const cancelProcessing = useCallback(() => {
+    cancelledRef.current = true;
+    void apiRef.current?.cancel();
+  }, []);
+
+  const handleFileError = useCallback((message: string) => {
+    setStatus({ stage: 'error', message });
+  }, []);
+
+  const updatePassword = useCallback((value: string) => {
+    setPassword(value);
+    setPasswordError(null);
+  }, []);
+
+  return {
+    selectedBank,
+    selectBank,
+    status,
+    isProcessing: status.stage === 'parsing',
+    cancelProcessing,
+    pendingFile,
+    password,
+    setPassword: updatePassword,
+    passwordError,
+    mismatch,
+    handleFileSelect: handleFilesSelect,
+    handleUnlock,
+    handleCancelPending,
+    handleFileError,
+    resolveMismatch,
+    cancelMismatch,
+    customImport,
+    importWithTemplate,
+    cancelCustomImport,
+    report,
+    dismissReport,
+    duplicateReview,
+    resolveDuplicates,
+    cancelDuplicateReview,
+    batch,
+    dismissBatch,
+  };
+}
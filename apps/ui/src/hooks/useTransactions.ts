@@ -1,6 +1,6 @@
 import { useState, useMemo, useCallback } from 'react';
 import { useLiveQuery } from '@electric-sql/pglite-react';
-import type { Transaction, TransactionMeta } from '~/types';
+import { SpendingCategory, type Transaction, type TransactionMeta } from '~/types';
 import { type FilterState, emptyFilterState, buildWhereClause } from '~/lib/filters';
 
 export type SortField = 'date' | 'amount';
@@ -12,6 +12,7 @@ export interface TransactionRow {
   created_at: string;
   description: string;
   amount: number;
+  currency: string;
   category: string;
   bank_source: string;
   reference: string;
@@ -26,6 +27,14 @@ export interface TransactionRow {
   session_id: string | null;
   raw_category: string | null;
   balance_after: number | null;
+  value_date: Date | null;
+  has_time: boolean | null;
+  provisional: boolean;
+  account_tail: string | null;
+  spending_category: string | null;
+  tags: string[];
+  excluded: boolean;
+  bank_counterparty_name: string | null;
 }
 
 export function mapRowToTransaction(row: TransactionRow): Transaction {
@@ -35,7 +44,9 @@ export function mapRowToTransaction(row: TransactionRow): Transaction {
     createdAt: Number(row.created_at),
     description: row.description,
     amount: row.amount,
+    currency: row.currency as Transaction['currency'],
     category: row.category as Transaction['category'],
+    spendingCategory: (row.spending_category as SpendingCategory | null) ?? SpendingCategory.Other,
     bankSource: row.bank_source as Transaction['bankSource'],
     reference: row.reference,
     meta: {
@@ -50,6 +61,13 @@ export function mapRowToTransaction(row: TransactionRow): Transaction {
       sessionId: row.session_id ?? undefined,
       rawCategory: row.raw_category ?? undefined,
       balanceAfter: row.balance_after ?? undefined,
+      valueDate: row.value_date?.toISOString(),
+      hasTime: row.has_time ?? undefined,
+      provisional: row.provisional || undefined,
+      accountTail: row.account_tail ?? undefined,
+      tags: row.tags.length > 0 ? row.tags : undefined,
+      excluded: row.excluded || undefined,
+      bankCounterpartyName: row.bank_counterparty_name ?? undefined,
     },
   };
 }
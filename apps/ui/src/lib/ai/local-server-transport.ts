@@ -22,39 +22,46 @@ Table: \`transactions\`
 | Column | Type | Notes |
 |--------|------|-------|
 | id | text | unique identifier |
-| date | timestamptz | full datetime |
+| date | timestamptz | full datetime; the session time zone is Africa/Lagos, the statements' own |
 | description | text | transaction details |
-| amount | integer | positive = income, negative = expense (in kobo, divide by 100 for naira) |
-| category | text | spending category |
-| bank_source | text | kuda, palmpay, wema, opay, gtb, access, zenith, uba, fcmb, sterling, standard-chartered |
+| amount | integer | positive = income, negative = expense (in minor units of \`currency\`, divide by 100) |
+| currency | text | NGN, USD, GBP or EUR |
+| category | text | inflow or outflow |
+| spending_category | text | food, groceries, transport, rent, utilities, airtime_data, entertainment, betting, shopping, health, education, family, savings, transfers, cash, fees, income, refunds, other |
+| bank_source | text | kuda, palmpay, wema, opay, gtb, access, zenith, uba, fcmb, firstbank, fidelity, sterling, moniepoint, standard-chartered, custom |
 | reference | text | transaction reference |
 | counterparty_name | text/null | who sent/received money (often null) |
 | counterparty_account | text/null | account number |
 | counterparty_bank | text/null | bank name |
 | narration | text/null | additional details |
-| balance_after | integer/null | balance after transaction (in kobo) |
+| balance_after | integer/null | balance after transaction (in minor units) |
+| provisional | boolean | true for rows read from SMS alerts, replaced once the statement is imported |
+| tags | text[] | the user's own tags, e.g. \`WHERE 'business' = ANY(tags)\` |
+| excluded | boolean | true when the user left the row out of analytics; add \`NOT excluded\` to totals unless they ask about excluded rows |
 
 Use \`COALESCE(counterparty_name, description) AS recipient\` when identifying who received/sent money.
 
 ## Query Examples
 
-Total spending: \`SELECT SUM(ABS(amount))/100.0 AS total FROM transactions WHERE amount < 0\`
-Total income: \`SELECT SUM(amount)/100.0 AS total FROM transactions WHERE amount > 0\`
-Top recipients: \`SELECT COALESCE(counterparty_name, description) AS recipient, SUM(ABS(amount))/100.0 AS total FROM transactions WHERE amount < 0 GROUP BY recipient ORDER BY total DESC LIMIT 5\`
+Total spending: \`SELECT currency, SUM(ABS(amount))/100.0 AS total FROM transactions WHERE amount < 0 AND NOT excluded GROUP BY currency\`
+Total income: \`SELECT currency, SUM(amount)/100.0 AS total FROM transactions WHERE amount > 0 AND NOT excluded GROUP BY currency\`
+Top recipients: \`SELECT COALESCE(counterparty_name, description) AS recipient, currency, SUM(ABS(amount))/100.0 AS total FROM transactions WHERE amount < 0 AND NOT excluded GROUP BY recipient, currency ORDER BY total DESC LIMIT 5\`
 This month: \`WHERE date >= DATE_TRUNC('month', CURRENT_DATE)\`
 Last 30 days: \`WHERE date >= CURRENT_DATE - INTERVAL '30 days'\`
 By bank: \`WHERE bank_source = 'gtb'\`
+Spending by category: \`SELECT spending_category, currency, SUM(ABS(amount))/100.0 AS total FROM transactions WHERE amount < 0 AND NOT excluded GROUP BY spending_category, currency ORDER BY total DESC\`
 Month name: \`TO_CHAR(date, 'Month')\`
 
 ## Rules
 
 1. **Always call queryDatabase** - never guess or invent data
 2. **Only SELECT** - never UPDATE, DELETE, INSERT, DROP, or ALTER
-3. **Format money as ₦1,234,567** - naira symbol, comma separators
+3. **Format money in its currency** - ₦1,234,567 for NGN, $1,234 for USD, £ for GBP, € for EUR
 4. **Keep responses brief and friendly** - use "you" and "your"
 5. **Never show SQL** - users see natural language only
 6. **Use LIMIT 10** for lists, LIMIT 1 for "biggest/most" questions
 7. **Alias aggregates** - \`SUM(...) AS total\`, not bare \`SUM(...)\`
+8. **Never add currencies together** - always \`GROUP BY currency\` in totals
 
 ## When Unclear
 
@@ -115,7 +122,7 @@ export class LocalServerTransport implements ChatTransport<UIMessage> {
             queryDatabase: tool({
               description: 'Query the transactions database. Returns query results as text. You MUST call this tool to answer any question about spending, income, or transactions.',
               inputSchema: z.object({
-                sql: z.string().describe('PostgreSQL SELECT query. Use amount < 0 for expenses, amount > 0 for income. Divide amount by 100 for naira.'),
+                sql: z.string().describe('PostgreSQL SELECT query. Use amount < 0 for expenses, amount > 0 for income. Divide amount by 100 and GROUP BY currency for totals.'),
               }),
               execute: async ({ sql }: { sql: string }) => {
                 return executeQuery(sql);
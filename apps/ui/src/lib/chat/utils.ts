@@ -1,21 +1,23 @@
-import type { ChatMode } from '~/types';
+import { CURRENCY_SYMBOLS, DEFAULT_CURRENCY, STATEMENT_TIME_ZONE } from '~/lib/constants';
+import type { ChatMode, Currency } from '~/types';
 
 export const PROXY_URL = 'https://wakaru-api.ienioladewumi.workers.dev';
 
-export function formatValue(col: string, value: unknown): string {
+export function formatValue(col: string, value: unknown, currency: Currency = DEFAULT_CURRENCY): string {
   if (value === null || value === undefined) return 'none';
 
   const colLower = col.toLowerCase();
   const isMonetary = colLower.includes('amount') || colLower.includes('total') || colLower.includes('sum');
 
   if (isMonetary && typeof value === 'number') {
-    return `₦${value.toLocaleString('en-NG', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+    const symbol = CURRENCY_SYMBOLS[currency] ?? `${currency} `;
+    return `${symbol}${value.toLocaleString('en-NG', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
   }
 
   if (colLower.includes('date') && typeof value === 'string') {
     const date = new Date(value);
     if (!isNaN(date.getTime())) {
-      return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+      return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: STATEMENT_TIME_ZONE });
     }
   }
 
@@ -25,8 +27,12 @@ export function formatValue(col: string, value: unknown): string {
 export function formatResults(columns: string[], rows: unknown[][]): string {
   if (rows.length === 0) return 'No results found';
 
+  // Money is shown in the row's own currency when the query selected it
+  const currencyIndex = columns.findIndex((col) => col.toLowerCase() === 'currency');
+
   const lines = rows.slice(0, 20).map((row) => {
-    return columns.map((col, i) => `${col}: ${formatValue(col, row[i])}`).join(', ');
+    const currency = (row[currencyIndex] ?? undefined) as Currency | undefined;
+    return columns.map((col, i) => `${col}: ${formatValue(col, row[i], currency)}`).join(', ');
   });
 
   if (rows.length > 20) {
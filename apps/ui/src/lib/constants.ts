@@ -1,4 +1,4 @@
-import { BankType, type BankInfo } from '~/types';
+import { BankType, SpendingCategory, type BankInfo, type Currency } from '~/types';
 
 export const SUPPORTED_BANKS: BankInfo[] = [
   { id: BankType.Kuda, name: 'Kuda', available: true, fileFormat: 'excel' },
@@ -9,13 +9,49 @@ export const SUPPORTED_BANKS: BankInfo[] = [
   { id: BankType.Access, name: 'Access', available: true, fileFormat: 'pdf' },
   { id: BankType.Zenith, name: 'Zenith', available: true, fileFormat: 'pdf' },
   { id: BankType.FCMB, name: 'FCMB', available: true, fileFormat: 'pdf' },
-  { id: BankType.FirstBank, name: 'First Bank', available: false },
+  { id: BankType.FirstBank, name: 'First Bank', available: true, fileFormat: 'pdf', requiresPassword: true },
   { id: BankType.UBA, name: 'UBA', available: true, fileFormat: 'pdf', requiresPassword: true },
-  { id: BankType.Fidelity, name: 'Fidelity Bank', available: false },
+  { id: BankType.Fidelity, name: 'Fidelity Bank', available: true, fileFormat: 'pdf' },
   { id: BankType.StandardChartered, name: 'Standard Chartered', available: true, fileFormat: 'pdf', requiresPassword: true },
   { id: BankType.Sterling, name: 'Sterling', available: true, fileFormat: 'pdf', requiresPassword: true },
+  { id: BankType.Moniepoint, name: 'Moniepoint', available: true, fileFormat: 'excel' },
 ];
 
+// Nigerian banks print statement times in West Africa Time, whatever the device is set to
+export const STATEMENT_TIME_ZONE = 'Africa/Lagos';
+
+// Statements that don't name a currency are naira
+export const DEFAULT_CURRENCY: Currency = 'NGN';
+
+export const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  NGN: '₦',
+  USD: '$',
+  GBP: '£',
+  EUR: '€',
+};
+
+export const SPENDING_CATEGORY_LABELS: Record<SpendingCategory, string> = {
+  [SpendingCategory.Food]: 'food',
+  [SpendingCategory.Groceries]: 'groceries',
+  [SpendingCategory.Transport]: 'transport',
+  [SpendingCategory.Rent]: 'rent',
+  [SpendingCategory.Utilities]: 'utilities',
+  [SpendingCategory.AirtimeData]: 'airtime & data',
+  [SpendingCategory.Entertainment]: 'entertainment',
+  [SpendingCategory.Betting]: 'betting',
+  [SpendingCategory.Shopping]: 'shopping',
+  [SpendingCategory.Health]: 'health',
+  [SpendingCategory.Education]: 'education',
+  [SpendingCategory.Family]: 'family',
+  [SpendingCategory.Savings]: 'savings',
+  [SpendingCategory.Transfers]: 'transfers',
+  [SpendingCategory.Cash]: 'cash',
+  [SpendingCategory.Fees]: 'fees',
+  [SpendingCategory.Income]: 'income',
+  [SpendingCategory.Refunds]: 'refunds',
+  [SpendingCategory.Other]: 'other',
+};
+
 const MIME_TYPES = {
   EXCEL: [
     'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
@@ -23,10 +59,16 @@ const MIME_TYPES = {
   ] as const,
   CSV: ['text/csv', 'application/csv'] as const,
   PDF: ['application/pdf'] as const,
+  OFX: ['application/x-ofx', 'application/vnd.intu.qfx'] as const,
 } as const;
 
+// Browsers rarely know the OFX mime types, so the extensions are listed as well
+const OFX_EXTENSIONS = ['.ofx', '.qfx'] as const;
+
 export const ACCEPTED_FILE_TYPES = [
   ...MIME_TYPES.EXCEL,
   ...MIME_TYPES.CSV,
   ...MIME_TYPES.PDF,
+  ...MIME_TYPES.OFX,
+  ...OFX_EXTENSIONS,
 ].join(',');
@@ -1,11 +1,13 @@
-import type { Transaction } from '~/types';
+import type { RawRow, Transaction } from '~/types';
 
 const CSV_HEADERS = [
   'id',
   'date',
   'description',
   'amount',
+  'currency',
   'category',
+  'spendingCategory',
   'bankSource',
 ] as const;
 
@@ -37,11 +39,17 @@ export function transactionsToCSV(transactions: Transaction[]): string {
   return [header, ...rows].join('\n');
 }
 
+export function rowsToCSV(rows: RawRow[]): string {
+  return rows.map((row) => row.map((cell) => escapeCSVField(cell ?? '')).join(',')).join('\n');
+}
+
 export function downloadCSV(content: string): void {
   const date = new Date().toISOString().split('T')[0];
-  const filename = `wakaru-export-${date}.csv`;
+  downloadFile(content, `wakaru-export-${date}.csv`, 'text/csv;charset=utf-8;');
+}
 
-  const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
+export function downloadFile(content: string, filename: string, type: string): void {
+  const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
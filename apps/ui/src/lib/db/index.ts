@@ -1,8 +1,13 @@
 import { PGlite } from '@electric-sql/pglite';
 import { live } from '@electric-sql/pglite/live';
-import type { Transaction, TransactionMeta } from '~/types';
+import { STATEMENT_TIME_ZONE } from '~/lib/constants';
+import { categorize } from '~/lib/parsers/categories';
+import { SpendingCategory, type ImportRecord, type StatementRecord, type Transaction, type TransactionMeta } from '~/types';
+import { ID_SCHEME, migrateIdFields, type StoredIdFields } from './migrations';
 
 type DbInstance = Awaited<ReturnType<typeof createDb>>;
+/** The database or an open transaction on it */
+type Queryable = Pick<DbInstance, 'query'>;
 
 const SCHEMA = `
   CREATE TABLE IF NOT EXISTS transactions (
@@ -36,11 +41,59 @@ const SCHEMA = `
     key TEXT PRIMARY KEY,
     value JSONB NOT NULL
   );
+
+  CREATE TABLE IF NOT EXISTS imports (
+    id TEXT PRIMARY KEY,
+    created_at BIGINT NOT NULL,
+    file_name TEXT NOT NULL,
+    bank_source TEXT NOT NULL,
+    transaction_count INTEGER NOT NULL,
+    reconciliation JSONB NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS statements (
+    id TEXT PRIMARY KEY,
+    bank_source TEXT NOT NULL,
+    account_number TEXT,
+    account_name TEXT,
+    period_start TIMESTAMPTZ,
+    period_end TIMESTAMPTZ,
+    opening_balance BIGINT,
+    closing_balance BIGINT,
+    file_name TEXT NOT NULL,
+    file_hash TEXT NOT NULL UNIQUE,
+    imported_at BIGINT NOT NULL
+  );
+
+  ALTER TABLE transactions ADD COLUMN IF NOT EXISTS statement_id TEXT;
+  ALTER TABLE transactions ADD COLUMN IF NOT EXISTS import_id TEXT;
+  ALTER TABLE imports ADD COLUMN IF NOT EXISTS statement_id TEXT;
+  ALTER TABLE transactions ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'NGN';
+  ALTER TABLE statements ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'NGN';
+  ALTER TABLE transactions ADD COLUMN IF NOT EXISTS value_date TIMESTAMPTZ;
+  ALTER TABLE transactions ADD COLUMN IF NOT EXISTS has_time BOOLEAN;
+  ALTER TABLE transactions ADD COLUMN IF NOT EXISTS provisional BOOLEAN NOT NULL DEFAULT FALSE;
+  ALTER TABLE transactions ADD COLUMN IF NOT EXISTS account_tail TEXT;
+  ALTER TABLE transactions ADD COLUMN IF NOT EXISTS spending_category TEXT;
+  ALTER TABLE transactions ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+  ALTER TABLE transactions ADD COLUMN IF NOT EXISTS excluded BOOLEAN NOT NULL DEFAULT FALSE;
+  ALTER TABLE transactions ADD COLUMN IF NOT EXISTS bank_counterparty_name TEXT;
+
+  CREATE INDEX IF NOT EXISTS idx_tx_statement ON transactions(statement_id);
+  CREATE INDEX IF NOT EXISTS idx_tx_import ON transactions(import_id);
+  CREATE INDEX IF NOT EXISTS idx_tx_spending_category ON transactions(spending_category);
+
+  CREATE TABLE IF NOT EXISTS replaced_alerts (
+    import_id TEXT NOT NULL,
+    alert JSONB NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_replaced_alerts_import ON replaced_alerts(import_id);
 `;
 
-async function createDb() {
+async function createDb(dataDir = 'idb://wakaru') {
   return PGlite.create({
-    dataDir: 'idb://wakaru',
+    dataDir,
     relaxedDurability: true,
     extensions: { live },
   });
@@ -51,13 +104,79 @@ let dbInstance: DbInstance | null = null;
 export async function initDb(): Promise<DbInstance> {
   if (dbInstance) return dbInstance;
 
-  const db = await createDb();
-  await db.exec(SCHEMA);
+  dbInstance = await openDb();
+  return dbInstance;
+}
 
-  dbInstance = db;
+/**
+ * Open a database and bring its schema and stored rows up to date.
+ * Tests pass `memory://` for a throwaway one.
+ */
+export async function openDb(dataDir?: string): Promise<DbInstance> {
+  const db = await createDb(dataDir);
+  // Month buckets, date filters and chat queries all count days the way the statements do
+  await db.exec(`SET TIME ZONE '${STATEMENT_TIME_ZONE}'`);
+  await db.exec(SCHEMA);
+  await migrateTransactionIds(db);
+  await categorizeStoredTransactions(db);
   return db;
 }
 
+/**
+ * Bring stored IDs and dates up to the current scheme so re-importing an old
+ * statement still lands on the rows it created
+ */
+async function migrateTransactionIds(db: DbInstance): Promise<void> {
+  const scheme = (await getSetting<number>(db, 'idScheme')) ?? 1;
+  if (scheme >= ID_SCHEME) return;
+
+  const result = await db.query<StoredIdFields>(
+    'SELECT id, date, value_date, amount, reference, description, currency FROM transactions'
+  );
+
+  await db.transaction(async (tx) => {
+    for (const row of result.rows) {
+      const { id, date, valueDate } = migrateIdFields(row, scheme);
+      if (id !== row.id || date !== row.date || valueDate !== row.value_date) {
+        await tx.query('UPDATE transactions SET id = $1, date = $2, value_date = $3 WHERE id = $4', [
+          id,
+          date.toISOString(),
+          valueDate?.toISOString() ?? null,
+          row.id,
+        ]);
+      }
+    }
+    await tx.query(
+      `INSERT INTO settings (key, value) VALUES ('idScheme', $1)
+       ON CONFLICT (key) DO UPDATE SET value = $1`,
+      [JSON.stringify(ID_SCHEME)]
+    );
+  });
+}
+
+/**
+ * Give rows stored before spending categories existed the category their parser would give them now
+ */
+async function categorizeStoredTransactions(db: DbInstance): Promise<void> {
+  const result = await db.query<DbTransactionRow>('SELECT * FROM transactions WHERE spending_category IS NULL');
+  if (result.rows.length === 0) return;
+
+  const byCategory = new Map<SpendingCategory, string[]>();
+  for (const row of result.rows) {
+    const { id, amount, description, meta } = toTransaction(row);
+    const category = categorize({ amount, description, meta });
+    const ids = byCategory.get(category) ?? [];
+    ids.push(id);
+    byCategory.set(category, ids);
+  }
+
+  await db.transaction(async (tx) => {
+    for (const [category, ids] of byCategory) {
+      await tx.query('UPDATE transactions SET spending_category = $1 WHERE id = ANY($2)', [category, ids]);
+    }
+  });
+}
+
 export function getDb(): DbInstance {
   if (!dbInstance) {
     throw new Error('Database not initialized. Call initDb() first.');
@@ -65,36 +184,84 @@ export function getDb(): DbInstance {
   return dbInstance;
 }
 
+interface DbTransactionRow {
+  id: string;
+  date: Date;
+  created_at: string;
+  description: string;
+  amount: number;
+  currency: string;
+  category: string;
+  bank_source: string;
+  reference: string;
+  counterparty_name: string | null;
+  counterparty_account: string | null;
+  counterparty_bank: string | null;
+  transaction_type: string | null;
+  bill_type: string | null;
+  bill_provider: string | null;
+  bill_token: string | null;
+  narration: string | null;
+  session_id: string | null;
+  raw_category: string | null;
+  balance_after: number | null;
+  value_date: Date | null;
+  has_time: boolean | null;
+  provisional: boolean;
+  account_tail: string | null;
+  spending_category: string | null;
+  tags: string[];
+  excluded: boolean;
+  bank_counterparty_name: string | null;
+}
+
 export async function getAllTransactions(db: DbInstance): Promise<Transaction[]> {
-  const result = await db.query<{
-    id: string;
-    date: Date;
-    created_at: string;
-    description: string;
-    amount: number;
-    category: string;
-    bank_source: string;
-    reference: string;
-    counterparty_name: string | null;
-    counterparty_account: string | null;
-    counterparty_bank: string | null;
-    transaction_type: string | null;
-    bill_type: string | null;
-    bill_provider: string | null;
-    bill_token: string | null;
-    narration: string | null;
-    session_id: string | null;
-    raw_category: string | null;
-    balance_after: number | null;
-  }>('SELECT * FROM transactions ORDER BY date DESC');
-
-  return result.rows.map((row) => ({
+  const result = await db.query<DbTransactionRow>('SELECT * FROM transactions ORDER BY date DESC');
+  return result.rows.map(toTransaction);
+}
+
+/**
+ * Stored transactions from one bank between two dates, inclusive
+ */
+export async function getBankTransactionsBetween(
+  db: DbInstance,
+  bankSource: string,
+  from: Date,
+  to: Date
+): Promise<Transaction[]> {
+  const result = await db.query<DbTransactionRow>(
+    'SELECT * FROM transactions WHERE bank_source = $1 AND date BETWEEN $2 AND $3 ORDER BY date DESC',
+    [bankSource, from.toISOString(), to.toISOString()]
+  );
+  return result.rows.map(toTransaction);
+}
+
+/**
+ * Alert transactions from one bank between two dates, inclusive, still waiting for their statement
+ */
+export async function getProvisionalTransactions(
+  db: DbInstance,
+  bankSource: string,
+  from: Date,
+  to: Date
+): Promise<Transaction[]> {
+  const result = await db.query<DbTransactionRow>(
+    'SELECT * FROM transactions WHERE provisional AND bank_source = $1 AND date BETWEEN $2 AND $3 ORDER BY date DESC',
+    [bankSource, from.toISOString(), to.toISOString()]
+  );
+  return result.rows.map(toTransaction);
+}
+
+function toTransaction(row: DbTransactionRow): Transaction {
+  return {
     id: row.id,
     date: row.date.toISOString(),
     createdAt: Number(row.created_at),
     description: row.description,
     amount: row.amount,
+    currency: row.currency as Transaction['currency'],
     category: row.category as Transaction['category'],
+    spendingCategory: (row.spending_category as SpendingCategory | null) ?? SpendingCategory.Other,
     bankSource: row.bank_source as Transaction['bankSource'],
     reference: row.reference,
     meta: {
@@ -109,14 +276,44 @@ export async function getAllTransactions(db: DbInstance): Promise<Transaction[]>
       sessionId: row.session_id ?? undefined,
       rawCategory: row.raw_category ?? undefined,
       balanceAfter: row.balance_after ?? undefined,
+      valueDate: row.value_date?.toISOString(),
+      hasTime: row.has_time ?? undefined,
+      provisional: row.provisional || undefined,
+      accountTail: row.account_tail ?? undefined,
+      tags: row.tags.length > 0 ? row.tags : undefined,
+      excluded: row.excluded || undefined,
+      bankCounterpartyName: row.bank_counterparty_name ?? undefined,
     },
-  }));
+  };
 }
 
-export async function addTransactions(db: DbInstance, transactions: Transaction[]): Promise<void> {
-  if (transactions.length === 0) return;
+/**
+ * The statement and import batch a set of transactions belongs to
+ */
+export interface TransactionSource {
+  statementId?: string;
+  importId?: string;
+}
+
+/**
+ * How many rows were new, and how many were already stored from an earlier statement
+ */
+export interface AddTransactionsResult {
+  inserted: number;
+  existing: number;
+}
+
+export async function addTransactions(
+  db: Queryable,
+  transactions: Transaction[],
+  source: TransactionSource = {}
+): Promise<AddTransactionsResult> {
+  if (transactions.length === 0) return { inserted: 0, existing: 0 };
+
+  let inserted = 0;
 
   const CHUNK_SIZE = 100;
+  const COLUMNS = 30;
   for (let i = 0; i < transactions.length; i += CHUNK_SIZE) {
     const chunk = transactions.slice(i, i + CHUNK_SIZE);
     
@@ -124,10 +321,8 @@ export async function addTransactions(db: DbInstance, transactions: Transaction[
     const values: unknown[] = [];
     
     chunk.forEach((tx, idx) => {
-      const offset = idx * 19;
-      placeholders.push(
-        `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9}, $${offset + 10}, $${offset + 11}, $${offset + 12}, $${offset + 13}, $${offset + 14}, $${offset + 15}, $${offset + 16}, $${offset + 17}, $${offset + 18}, $${offset + 19})`
-      );
+      const offset = idx * COLUMNS;
+      placeholders.push(`(${Array.from({ length: COLUMNS }, (_, i) => `$${offset + i + 1}`).join(', ')})`);
       values.push(
         tx.id,
         tx.date,
@@ -147,24 +342,241 @@ export async function addTransactions(db: DbInstance, transactions: Transaction[
         tx.meta?.narration ?? null,
         tx.meta?.sessionId ?? null,
         tx.meta?.rawCategory ?? null,
-        tx.meta?.balanceAfter ?? null
+        tx.meta?.balanceAfter ?? null,
+        source.statementId ?? null,
+        source.importId ?? null,
+        tx.currency,
+        tx.meta?.valueDate ?? null,
+        tx.meta?.hasTime ?? null,
+        tx.meta?.provisional ?? false,
+        tx.meta?.accountTail ?? null,
+        tx.spendingCategory,
+        tx.meta?.tags ?? [],
+        tx.meta?.excluded ?? false,
+        tx.meta?.bankCounterpartyName ?? null
       );
     });
 
-    await db.query(
+    const result = await db.query(
       `INSERT INTO transactions (
         id, date, created_at, description, amount, category, bank_source, reference,
         counterparty_name, counterparty_account, counterparty_bank, transaction_type,
-        bill_type, bill_provider, bill_token, narration, session_id, raw_category, balance_after
+        bill_type, bill_provider, bill_token, narration, session_id, raw_category, balance_after,
+        statement_id, import_id, currency, value_date, has_time, provisional, account_tail,
+        spending_category, tags, excluded, bank_counterparty_name
       ) VALUES ${placeholders.join(', ')}
-      ON CONFLICT (id) DO NOTHING`,
+      ON CONFLICT (id) DO NOTHING
+      RETURNING id`,
       values
     );
+    inserted += result.rows.length;
   }
+
+  return { inserted, existing: transactions.length - inserted };
+}
+
+/**
+ * Store what the user's rules made of transactions already saved
+ */
+export async function updateRuleFields(db: DbInstance, transactions: Transaction[]): Promise<void> {
+  await db.transaction(async (tx) => {
+    for (const transaction of transactions) {
+      await tx.query(
+        `UPDATE transactions
+         SET spending_category = $1, counterparty_name = $2, bank_counterparty_name = $3, tags = $4, excluded = $5
+         WHERE id = $6`,
+        [
+          transaction.spendingCategory,
+          transaction.meta?.counterpartyName ?? null,
+          transaction.meta?.bankCounterpartyName ?? null,
+          transaction.meta?.tags ?? [],
+          transaction.meta?.excluded ?? false,
+          transaction.id,
+        ]
+      );
+    }
+  });
+}
+
+export async function addImport(db: Queryable, record: ImportRecord): Promise<void> {
+  await db.query(
+    `INSERT INTO imports (id, created_at, file_name, bank_source, transaction_count, reconciliation, statement_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      record.id,
+      record.createdAt,
+      record.fileName,
+      record.bankSource,
+      record.transactionCount,
+      JSON.stringify(record.reconciliation),
+      record.statementId ?? null,
+    ]
+  );
+}
+
+export interface StatementRow {
+  id: string;
+  bank_source: string;
+  account_number: string | null;
+  account_name: string | null;
+  period_start: Date | null;
+  period_end: Date | null;
+  opening_balance: string | null;
+  closing_balance: string | null;
+  currency: string;
+  file_name: string;
+  file_hash: string;
+  imported_at: string;
+}
+
+export function mapRowToStatement(row: StatementRow): StatementRecord {
+  return {
+    id: row.id,
+    bankSource: row.bank_source as StatementRecord['bankSource'],
+    accountNumber: row.account_number ?? undefined,
+    accountName: row.account_name ?? undefined,
+    periodStart: row.period_start?.toISOString(),
+    periodEnd: row.period_end?.toISOString(),
+    openingBalance: row.opening_balance === null ? undefined : Number(row.opening_balance),
+    closingBalance: row.closing_balance === null ? undefined : Number(row.closing_balance),
+    currency: row.currency as StatementRecord['currency'],
+    fileName: row.file_name,
+    fileHash: row.file_hash,
+    importedAt: Number(row.imported_at),
+  };
+}
+
+export async function addStatement(db: Queryable, statement: StatementRecord): Promise<void> {
+  await db.query(
+    `INSERT INTO statements (
+      id, bank_source, account_number, account_name, period_start, period_end,
+      opening_balance, closing_balance, file_name, file_hash, imported_at, currency
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+    [
+      statement.id,
+      statement.bankSource,
+      statement.accountNumber ?? null,
+      statement.accountName ?? null,
+      statement.periodStart ?? null,
+      statement.periodEnd ?? null,
+      statement.openingBalance ?? null,
+      statement.closingBalance ?? null,
+      statement.fileName,
+      statement.fileHash,
+      statement.importedAt,
+      statement.currency ?? 'NGN',
+    ]
+  );
+}
+
+/**
+ * Everything one import writes
+ */
+export interface ImportBatch {
+  transactions: Transaction[];
+  /** The statement the transactions came from */
+  statement?: StatementRecord;
+  /** The import to record; its count is the number of rows actually inserted */
+  record?: Omit<ImportRecord, 'transactionCount'>;
+  /** Alert transactions the statement now records. They are kept aside so undoing the import brings them back. */
+  replacedAlertIds?: string[];
+}
+
+/**
+ * Write an import in one database transaction. A failure part way must leave nothing behind,
+ * since a stray statement row would block importing the same file again.
+ * A batch that adds no rows and has no statement records no import, as there is nothing to undo.
+ */
+export async function saveImport(db: DbInstance, batch: ImportBatch): Promise<AddTransactionsResult> {
+  const [result] = await saveImports(db, [batch]);
+  return result;
+}
+
+/**
+ * Write several imports in one database transaction, so they are saved all together or not at all
+ */
+export async function saveImports(db: DbInstance, batches: ImportBatch[]): Promise<AddTransactionsResult[]> {
+  return db.transaction(async (tx) => {
+    const results: AddTransactionsResult[] = [];
+    for (const batch of batches) results.push(await writeImport(tx, batch));
+    return results;
+  });
+}
+
+async function writeImport(tx: Queryable, batch: ImportBatch): Promise<AddTransactionsResult> {
+  const { transactions, statement, record, replacedAlertIds = [] } = batch;
+
+  if (statement) await addStatement(tx, statement);
+  const result = await addTransactions(tx, transactions, { statementId: statement?.id, importId: record?.id });
+  if (record && replacedAlertIds.length > 0) {
+    await tx.query(
+      'INSERT INTO replaced_alerts (import_id, alert) SELECT $1, to_jsonb(t) FROM transactions t WHERE id = ANY($2)',
+      [record.id, replacedAlertIds]
+    );
+  }
+  await deleteTransactions(tx, replacedAlertIds);
+
+  if (record && (statement || result.inserted > 0)) {
+    await addImport(tx, { ...record, transactionCount: result.inserted });
+  }
+  return result;
+}
+
+export async function findStatementByHash(db: DbInstance, fileHash: string): Promise<StatementRecord | undefined> {
+  const result = await db.query<StatementRow>('SELECT * FROM statements WHERE file_hash = $1', [fileHash]);
+  return result.rows[0] && mapRowToStatement(result.rows[0]);
+}
+
+/**
+ * Undo one import: its transactions, its statement and the import itself.
+ * Rows an earlier import already owned were never written by this one, so they stay.
+ * Alerts the statement replaced come back, unless their own import was undone meanwhile.
+ */
+export async function deleteImport(db: DbInstance, importId: string): Promise<void> {
+  await db.transaction(async (tx) => {
+    const result = await tx.query<{ statement_id: string | null }>(
+      'DELETE FROM imports WHERE id = $1 RETURNING statement_id',
+      [importId]
+    );
+    await tx.query('DELETE FROM transactions WHERE import_id = $1', [importId]);
+
+    const statementId = result.rows[0]?.statement_id;
+    if (statementId) {
+      await tx.query('DELETE FROM statements WHERE id = $1', [statementId]);
+    }
+
+    await tx.query(
+      `INSERT INTO transactions
+       SELECT (jsonb_populate_record(NULL::transactions, alert)).* FROM replaced_alerts WHERE import_id = $1
+       ON CONFLICT (id) DO NOTHING`,
+      [importId]
+    );
+    await tx.query("DELETE FROM replaced_alerts WHERE import_id = $1 OR alert->>'import_id' = $1", [importId]);
+  });
+}
+
+export async function deleteTransactions(db: Queryable, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await db.query('DELETE FROM transactions WHERE id = ANY($1)', [ids]);
+}
+
+/**
+ * Remove everything imported from one bank, including rows from before imports were tracked
+ */
+export async function deleteBankTransactions(db: DbInstance, bankSource: string): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx.query('DELETE FROM transactions WHERE bank_source = $1', [bankSource]);
+    await tx.query('DELETE FROM imports WHERE bank_source = $1', [bankSource]);
+    await tx.query('DELETE FROM statements WHERE bank_source = $1', [bankSource]);
+    await tx.query("DELETE FROM replaced_alerts WHERE alert->>'bank_source' = $1", [bankSource]);
+  });
 }
 
 export async function clearTransactions(db: DbInstance): Promise<void> {
   await db.query('DELETE FROM transactions');
+  await db.query('DELETE FROM imports');
+  await db.query('DELETE FROM statements');
+  await db.query('DELETE FROM replaced_alerts');
 }
 
 export async function getSetting<T>(db: DbInstance, key: string): Promise<T | undefined> {
@@ -0,0 +1,57 @@
+import { currencyKey, stableHash, transactionKey } from '~/lib/parsers/ids';
+import { zonedDate } from '~/lib/utils/timezone';
+import type { Currency } from '~/types';
+
+export const ID_SCHEME = 4;
+
+/** Banks whose dates were stored as UTC midnight before scheme 3 */
+const UTC_DATE_PREFIXES = new Set(['access', 'fcmb', 'fidelity', 'firstbank', 'gtb', 'sc', 'sterling', 'uba']);
+
+/**
+ * The stored fields a transaction's ID and dates are worked out from
+ */
+export interface StoredIdFields {
+  id: string;
+  date: Date;
+  value_date: Date | null;
+  amount: number;
+  reference: string;
+  description: string;
+  currency: Currency;
+}
+
+export interface MigratedIdFields {
+  id: string;
+  date: Date;
+  valueDate: Date | null;
+}
+
+function isUtcMidnight(date: Date): boolean {
+  return date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0;
+}
+
+function toStatementMidnight(date: Date): Date {
+  return zonedDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * The ID and dates a row stored under an older scheme has under the current one, which are
+ * what its parser gives the same statement row today.
+ *
+ * Scheme 1 used a 32-bit hash and collapsed repeats, so every row is a first occurrence.
+ * Scheme 2 stored some banks' dates as UTC midnight rather than midnight in statement time.
+ * Scheme 3 left the currency out, so a naira and a dollar row could share an ID.
+ */
+export function migrateIdFields(row: StoredIdFields, scheme: number): MigratedIdFields {
+  const current = row.id.match(/^(.+?)-[0-9a-f]{28}(-\d+)?$/);
+  const prefix = current?.[1] ?? row.id.slice(0, row.id.indexOf('-'));
+  const occurrence = current?.[2] ?? '';
+
+  // Later schemes store midnight in statement time, which can be UTC midnight for a timed row
+  const shift = (date: Date) => scheme < 3 && UTC_DATE_PREFIXES.has(prefix) && isUtcMidnight(date);
+  const date = shift(row.date) ? toStatementMidnight(row.date) : row.date;
+  const valueDate = row.value_date && shift(row.value_date) ? toStatementMidnight(row.value_date) : row.value_date;
+
+  const key = transactionKey(date.toISOString(), row.amount, row.reference, row.description, currencyKey(row.currency));
+  return { id: `${prefix}-${stableHash(key)}${occurrence}`, date, valueDate };
+}
@@ -1,3 +1,6 @@
+import { SPENDING_CATEGORY_LABELS } from '~/lib/constants';
+import type { SpendingCategory } from '~/types';
+
 export type FilterField = 'bank' | 'amount' | 'date' | 'category' | 'flow';
 export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
 
@@ -14,6 +17,7 @@ export interface ParsedQuery {
 
 export interface FilterState {
   banks: string[];
+  categories: SpendingCategory[];
   flow: 'in' | 'out' | null;
   amountMin: number | null;
   amountMax: number | null;
@@ -23,6 +27,7 @@ export interface FilterState {
 
 export const emptyFilterState: FilterState = {
   banks: [],
+  categories: [],
   flow: null,
   amountMin: null,
   amountMax: null,
@@ -33,6 +38,7 @@ export const emptyFilterState: FilterState = {
 export function isFilterEmpty(state: FilterState): boolean {
   return (
     state.banks.length === 0 &&
+    state.categories.length === 0 &&
     state.flow === null &&
     state.amountMin === null &&
     state.amountMax === null &&
@@ -44,6 +50,7 @@ export function isFilterEmpty(state: FilterState): boolean {
 export function countActiveFilters(state: FilterState): number {
   let count = 0;
   if (state.banks.length > 0) count++;
+  if (state.categories.length > 0) count++;
   if (state.flow !== null) count++;
   if (state.amountMin !== null || state.amountMax !== null) count++;
   if (state.dateFrom !== null || state.dateTo !== null) count++;
@@ -69,6 +76,14 @@ export function buildWhereClause(filters: FilterState, searchText: string): Wher
     conditions.push(`bank_source IN (${placeholders.join(', ')})`);
   }
 
+  if (filters.categories.length > 0) {
+    const placeholders = filters.categories.map((category) => {
+      params.push(category);
+      return `$${params.length}`;
+    });
+    conditions.push(`spending_category IN (${placeholders.join(', ')})`);
+  }
+
   if (filters.flow === 'in') {
     conditions.push('amount > 0');
   } else if (filters.flow === 'out') {
@@ -122,6 +137,16 @@ export function formatFilterChips(filters: FilterState): { label: string; onRemo
     });
   }
 
+  if (filters.categories.length > 0) {
+    chips.push({
+      label:
+        filters.categories.length === 1
+          ? SPENDING_CATEGORY_LABELS[filters.categories[0]]
+          : `${filters.categories.length} categories`,
+      onRemove: () => ({ ...filters, categories: [] }),
+    });
+  }
+
   if (filters.flow) {
     chips.push({
       label: filters.flow === 'in' ? 'credit' : 'debit',
@@ -132,11 +157,11 @@ export function formatFilterChips(filters: FilterState): { label: string; onRemo
   if (filters.amountMin !== null || filters.amountMax !== null) {
     let label = '';
     if (filters.amountMin !== null && filters.amountMax !== null) {
-      label = `₦${filters.amountMin.toLocaleString()} - ₦${filters.amountMax.toLocaleString()}`;
+      label = `${filters.amountMin.toLocaleString()} - ${filters.amountMax.toLocaleString()}`;
     } else if (filters.amountMin !== null) {
-      label = `≥ ₦${filters.amountMin.toLocaleString()}`;
+      label = `≥ ${filters.amountMin.toLocaleString()}`;
     } else if (filters.amountMax !== null) {
-      label = `≤ ₦${filters.amountMax.toLocaleString()}`;
+      label = `≤ ${filters.amountMax.toLocaleString()}`;
     }
     chips.push({
       label,
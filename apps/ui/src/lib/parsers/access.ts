@@ -82,16 +82,14 @@ export class AccessParser extends BaseParser {
       }
     }
 
-    if (valueDateStr) {
-      meta.sessionId = valueDateStr;
-    }
-
     return this.createTransaction({
       date,
       amount,
       description: description || 'Transaction',
       reference: this.generateReference(date, description, 15),
       meta,
+      valueDate: this.parseDate(valueDateStr),
+      hasTime: false,
     });
   }
 
@@ -104,9 +102,7 @@ export class AccessParser extends BaseParser {
     if (month === undefined) return null;
 
     const fullYear = 2000 + parseInt(year, 10);
-    const date = new Date(Date.UTC(fullYear, month, parseInt(day, 10), 0, 0, 0, 0));
-
-    return isNaN(date.getTime()) ? null : date;
+    return this.statementDate(fullYear, month, parseInt(day, 10));
   }
 
   private extractCounterparty(description: string): Partial<TransactionMeta> {
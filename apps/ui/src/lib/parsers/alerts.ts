@@ -0,0 +1,473 @@
+import { BankType, type Currency, type RawRow, type Transaction } from '~/types';
+import { BaseParser, type ParserLogger, consoleLogger } from './base';
+import { descriptionSimilarity } from './duplicates';
+import { withOccurrenceIds } from './ids';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days an alert and its statement row may be apart. Transfers made late on a Friday
+ * often only post on Monday.
+ */
+export const ALERT_WINDOW_DAYS = 3;
+
+/**
+ * One debit or credit alert, pasted or read from an SMS backup
+ */
+export interface AlertMessage {
+  text: string;
+  /** SMS sender ID, e.g. "GTBank", when read from a backup */
+  sender?: string;
+  /** When the phone received it, unix ms. Stands in for alerts without a date */
+  receivedAt?: number;
+}
+
+/**
+ * How to tell a bank's alerts apart. The fields inside are read the same way for every bank.
+ */
+export interface AlertFormat {
+  bankType: BankType;
+  bankName: string;
+  /** SMS sender IDs the bank sends alerts from */
+  sender: RegExp;
+  /** Text in the alert itself that names the bank, for pasted alerts */
+  signature: RegExp;
+}
+
+export const ALERT_FORMATS: AlertFormat[] = [
+  { bankType: BankType.GTB, bankName: 'GTBank', sender: /^(?:gtbank|gtb|gtworld)$/i, signature: /\bgtbank\b|guaranty trust/i },
+  { bankType: BankType.Access, bankName: 'Access Bank', sender: /^access\s*bank$/i, signature: /\baccess\s*bank\b/i },
+  { bankType: BankType.Zenith, bankName: 'Zenith Bank', sender: /^zenith\s*bank$/i, signature: /\bzenith\b/i },
+  { bankType: BankType.UBA, bankName: 'UBA', sender: /^uba$/i, signature: /\buba\b|united bank for africa/i },
+  { bankType: BankType.FirstBank, bankName: 'First Bank', sender: /^(?:first\s*bank|fbn)$/i, signature: /\bfirst\s*bank\b|\bfbn\b/i },
+  { bankType: BankType.FCMB, bankName: 'FCMB', sender: /^fcmb$/i, signature: /\bfcmb\b/i },
+  { bankType: BankType.Fidelity, bankName: 'Fidelity Bank', sender: /^fidelity(?:\s*bank)?$/i, signature: /\bfidelity\b/i },
+  { bankType: BankType.Sterling, bankName: 'Sterling Bank', sender: /^sterling(?:\s*bank)?$/i, signature: /\bsterling\b/i },
+  { bankType: BankType.Wema, bankName: 'Wema Bank', sender: /^(?:wema(?:\s*bank)?|alat)$/i, signature: /\bwema\b|\balat\b/i },
+  { bankType: BankType.Kuda, bankName: 'Kuda', sender: /^kuda(?:\s*bank)?$/i, signature: /\bkuda\b/i },
+  { bankType: BankType.OPay, bankName: 'OPay', sender: /^opay$/i, signature: /\bopay\b/i },
+  { bankType: BankType.PalmPay, bankName: 'PalmPay', sender: /^palmpay$/i, signature: /\bpalmpay\b/i },
+  { bankType: BankType.Moniepoint, bankName: 'Moniepoint', sender: /^moniepoint$/i, signature: /\bmoniepoint\b/i },
+  {
+    bankType: BankType.StandardChartered,
+    bankName: 'Standard Chartered',
+    sender: /^(?:stanchart|scb\s*nigeria)$/i,
+    signature: /standard chartered|\bstanchart\b/i,
+  },
+];
+
+// "NGN5,000.00", "₦ 5000", "USD 1,250.50", "N5,000"
+const CURRENCY = String.raw`(?<currency>NGN|USD|GBP|EUR|[₦$£€]|(?<![A-Za-z])N(?=\s?\d))`;
+const VALUE = String.raw`(?<value>\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)`;
+const MONEY = String.raw`${CURRENCY}?\s?${VALUE}`;
+
+/**
+ * "Label:" fields alerts are made of. A field's value runs to the next label,
+ * so one reader handles alerts on one line and alerts with a field per line.
+ */
+const LABEL = new RegExp(
+  String.raw`(?<![A-Za-z])(?:` +
+    String.raw`(?<amount>(?:(?:DR|CR)\s*)?(?:txn\s*)?(?:amt|amount))|` +
+    String.raw`(?<balance>(?:(?:avail(?:able)?|avl|cur(?:rent)?|ledger|clr)\.?\s*)?(?:bal|balance))|` +
+    String.raw`(?<account>acct|acc|ac|a\/c|account(?:\s*(?:no|number))?)|` +
+    String.raw`(?<description>desc|des|description|narration|narr|remarks?|details)|` +
+    String.raw`(?<date>date\s*\/\s*time|(?:txn|trans(?:action)?)\s*date|date|dt|time)|` +
+    String.raw`(?<direction>txn\s*type|txn|type|debit|credit)` +
+    String.raw`)\s*[:=]`,
+  'gi'
+);
+
+type AlertField = 'amount' | 'balance' | 'account' | 'description' | 'date' | 'direction';
+
+interface LabelledField {
+  field: AlertField;
+  /** The label as written, lowercased, e.g. "dr amt" */
+  label: string;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const DEBIT = /\b(?:DR|debit(?:ed)?|sent|paid|spent|transferred|withdr[ae]wn?|purchase)\b/i;
+const CREDIT = /\b(?:CR|credit(?:ed)?|received|deposit(?:ed)?)\b/i;
+
+// "You just sent ₦5,000.00 to JOHN DOE", "You have received NGN2,000 from ADA OBI"
+const SENTENCE = new RegExp(
+  String.raw`\byou(?:\s+have)?(?:\s+just)?\s+(?<verb>sent|paid|spent|transferred|withdrew|received)\s+` +
+    MONEY +
+    String.raw`(?:\s+(?<preposition>to|from|at)\s+(?<party>[^.\n]+?))?(?=\s*(?:[.\n]|on\s+\d|$))`,
+  'i'
+);
+// "debited with NGN5,000.00", "credited NGN2,000"
+const POSTED = new RegExp(String.raw`\b(?<verb>debited|credited)\s+(?:with\s+|by\s+)?` + MONEY, 'i');
+// "Your balance is ₦95,000.00", "Bal NGN95,000.00"
+const BALANCE = new RegExp(String.raw`\b(?:balance|bal)(?:\s+is)?\s*[:=]?\s*` + MONEY, 'i');
+const MONEY_VALUE = new RegExp(MONEY);
+// Without a label, only an amount with a currency is taken for one
+const CURRENCY_MONEY = new RegExp(String.raw`${CURRENCY}\s?${VALUE}`);
+// "Your a/c **789 has been debited"
+const ACCOUNT_MENTION = /(?<![A-Za-z])(?:acct|acc|a\/c|account)(?:\s*no\.?)?\s+([\dXx*]{4,})/i;
+
+const DATE = /(?<isoYear>\d{4})-(?<isoMonth>\d{2})-(?<isoDay>\d{2})|(?<day>\d{1,2})[-/ ](?<month>\d{1,2}|[A-Za-z]{3,9})[-/ ,]+(?<year>\d{4}|\d{2})(?!\d)/;
+const TIME = /^[\sT:,@]*(?:at\s+)?(?<hour>\d{1,2}):(?<minute>\d{2})(?::(?<second>\d{2}))?\s*(?<meridiem>[AP]M)?/i;
+
+const CURRENCY_SIGNS: Record<string, Currency> = {
+  '₦': 'NGN',
+  N: 'NGN',
+  $: 'USD',
+  '£': 'GBP',
+  '€': 'EUR',
+};
+
+function toCurrency(code: string | undefined): Currency | undefined {
+  if (!code) return undefined;
+  const upper = code.toUpperCase();
+  return upper.length === 3 ? (upper as Currency) : CURRENCY_SIGNS[upper];
+}
+
+function cleanValue(value: string): string {
+  return value.replace(/\s+/g, ' ').replace(/^[\s:.,;-]+|[\s.,;]+$/g, '').trim();
+}
+
+function readFields(text: string): LabelledField[] {
+  const matches = [...text.matchAll(LABEL)];
+
+  return matches.map((match, i) => {
+    const groups = match.groups ?? {};
+    const field = (Object.keys(groups) as AlertField[]).find((key) => groups[key] !== undefined)!;
+    const start = match.index!;
+    const end = i + 1 < matches.length ? matches[i + 1].index! : text.length;
+    return {
+      field,
+      label: groups[field].toLowerCase().replace(/\s+/g, ' '),
+      value: cleanValue(text.slice(start + match[0].length, end)),
+      start,
+      end,
+    };
+  });
+}
+
+/**
+ * Reads one alert. Rows are `[text, receivedAt]` so alerts go through the same
+ * `parseTransactionSafe` path as statement rows.
+ */
+export class AlertParser extends BaseParser {
+  readonly bankName: string;
+  protected readonly bankType: BankType;
+  protected readonly idPrefix: string;
+
+  constructor(format: AlertFormat, logger: ParserLogger = consoleLogger) {
+    super(logger);
+    this.bankName = `${format.bankName} alerts`;
+    this.bankType = format.bankType;
+    this.idPrefix = `alert-${format.bankType}`;
+  }
+
+  parseTransaction(row: RawRow): Transaction | null {
+    const text = row[0] === undefined ? '' : String(row[0]).trim();
+    const receivedAt = typeof row[1] === 'number' ? row[1] : undefined;
+    if (!text) return null;
+
+    const fields = readFields(text);
+    const field = (name: AlertField) => fields.find((f) => f.field === name);
+
+    const description = field('description')?.value;
+    const sentence = text.match(SENTENCE);
+
+    // Words in the description or balance say nothing about which way the money went
+    let rest = text;
+    for (const f of fields.filter((f) => f.field === 'description' || f.field === 'balance')) {
+      rest = rest.slice(0, f.start) + ' '.repeat(f.end - f.start) + rest.slice(f.end);
+    }
+
+    const amountField = field('amount');
+    const posted = rest.match(POSTED);
+    const money =
+      amountField?.value.match(MONEY_VALUE) ??
+      sentence ??
+      posted ??
+      rest.match(CURRENCY_MONEY);
+    if (!money?.groups) return null;
+
+    const value = this.parseAmountValue(money.groups.value);
+    if (value === null) return null;
+
+    const direction = this.readDirection(amountField, field('direction'), sentence, posted, rest);
+    if (!direction) return null;
+
+    // "Date: 15/11/2025 Time: 14:32" reads as one value
+    const dateFields = fields.filter((f) => f.field === 'date');
+    const timing = this.readDate(dateFields.length > 0 ? dateFields.map((f) => f.value).join(' ') : text, receivedAt);
+    if (!timing) throw new Error('Alert has no date and no time it was received');
+
+    const party = sentence?.groups?.party?.trim();
+    const resolvedDescription =
+      description ||
+      (party && `${direction === 'credit' ? 'Transfer from' : 'Transfer to'} ${party}`) ||
+      cleanValue(text.split('\n')[0]);
+
+    const balanceField = field('balance')?.value;
+    const balanceMatch = balanceField?.match(MONEY_VALUE) ?? text.match(BALANCE);
+    const balance = balanceMatch?.groups ? this.parseAmountValue(balanceMatch.groups.value) : null;
+    const overdrawn = balanceField !== undefined && /^-|\d\s*DR\b/i.test(balanceField);
+
+    const account = this.readAccount(
+      field('account')?.value ?? field('direction')?.value ?? text.match(ACCOUNT_MENTION)?.[1]
+    );
+    const amount = direction === 'credit' ? value : -value;
+
+    return this.createTransaction({
+      date: timing.date,
+      amount,
+      description: resolvedDescription,
+      reference: this.generateReference(timing.date, resolvedDescription, 15),
+      currency: toCurrency(money.groups.currency),
+      hasTime: timing.hasTime,
+      meta: {
+        type: this.inferBaseTransactionType(resolvedDescription),
+        ...(party && sentence?.groups?.preposition?.toLowerCase() !== 'at' && { counterpartyName: party }),
+        ...(balance !== null && { balanceAfter: overdrawn ? -balance : balance }),
+        ...(account && { accountTail: account }),
+        provisional: true,
+      },
+    });
+  }
+
+  private readDirection(
+    amount: LabelledField | undefined,
+    direction: LabelledField | undefined,
+    sentence: RegExpMatchArray | null,
+    posted: RegExpMatchArray | null,
+    rest: string
+  ): 'debit' | 'credit' | null {
+    const fromWord = (word: string | undefined) => {
+      if (!word) return null;
+      if (/^(?:dr|debit|debited)$/i.test(word)) return 'debit';
+      if (/^(?:cr|credit|credited)$/i.test(word)) return 'credit';
+      return null;
+    };
+
+    // "DR Amt:5,000.00" or "Amt: NGN5,000.00 DR"
+    const amountWord = amount && (amount.label.match(/^(dr|cr)/)?.[1] ?? amount.value.match(/\d\s*(DR|CR)\b/i)?.[1]);
+    // "Txn: Debit" or "Debit: 3XXXXXX789"
+    const directionWord = direction && (direction.value.match(/^(debit|credit)\b/i)?.[1] ?? direction.label);
+    const labelled = fromWord(amountWord) ?? fromWord(directionWord);
+    if (labelled) return labelled;
+
+    if (sentence?.groups) return sentence.groups.verb.toLowerCase() === 'received' ? 'credit' : 'debit';
+    if (posted?.groups) return fromWord(posted.groups.verb);
+
+    const debit = rest.match(DEBIT);
+    const credit = rest.match(CREDIT);
+    if (debit && (!credit || debit.index! < credit.index!)) return 'debit';
+    if (credit) return 'credit';
+    return null;
+  }
+
+  /**
+   * Trailing digits of a masked account like "012****789" or "a/c **1234"
+   */
+  private readAccount(value: string | undefined): string | undefined {
+    const match = value?.match(/^[\dXx*]*[Xx*]+(\d{3,4})\b|^\d{6,}(\d{4})\b/);
+    return match?.[1] ?? match?.[2];
+  }
+
+  private readDate(value: string, receivedAt: number | undefined): { date: Date; hasTime: boolean } | null {
+    const match = value.match(DATE);
+    if (match?.groups) {
+      const g = match.groups;
+      const year = parseInt(g.isoYear ?? g.year, 10);
+      const fullYear = year < 100 ? 2000 + year : year;
+      const monthText = g.isoMonth ?? g.month;
+      const month = /^\d+$/.test(monthText) ? parseInt(monthText, 10) - 1 : this.parseMonthName(monthText.slice(0, 3));
+      const day = parseInt(g.isoDay ?? g.day, 10);
+
+      if (month !== undefined && month >= 0 && month < 12 && day >= 1 && day <= 31) {
+        const time = value.slice(match.index! + match[0].length).match(TIME)?.groups;
+        let hour = time ? parseInt(time.hour, 10) : 0;
+        if (time?.meridiem?.toUpperCase() === 'PM' && hour !== 12) hour += 12;
+        if (time?.meridiem?.toUpperCase() === 'AM' && hour === 12) hour = 0;
+
+        const date = this.statementDate(
+          fullYear,
+          month,
+          day,
+          hour,
+          time ? parseInt(time.minute, 10) : 0,
+          time?.second ? parseInt(time.second, 10) : 0
+        );
+        if (date) return { date, hasTime: time !== undefined };
+      }
+    }
+
+    if (receivedAt === undefined) return null;
+    const date = new Date(receivedAt);
+    return isNaN(date.getTime()) ? null : { date, hasTime: true };
+  }
+}
+
+/**
+ * The bank an alert came from, by its SMS sender or by the bank it names
+ */
+export function detectAlertBank(message: AlertMessage): BankType | null {
+  const sender = message.sender?.trim();
+  if (sender) {
+    const format = ALERT_FORMATS.find((f) => f.sender.test(sender));
+    if (format) return format.bankType;
+  }
+  return ALERT_FORMATS.find((f) => f.signature.test(message.text))?.bankType ?? null;
+}
+
+/**
+ * Pasted alerts, one per block of text separated by a blank line
+ */
+export function splitPastedAlerts(text: string): AlertMessage[] {
+  return text
+    .split(/\r?\n\s*\r?\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block) => ({ text: block }));
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Received messages from an Android "SMS Backup & Restore" XML file.
+ * Sent messages and MMS are left out.
+ */
+export function readSmsBackup(xml: string): AlertMessage[] {
+  const messages: AlertMessage[] = [];
+
+  for (const match of xml.matchAll(/<sms\b((?:[^>"']|"[^"]*"|'[^']*')*)>/g)) {
+    const attributes: Record<string, string> = {};
+    for (const [, name, double, single] of match[1].matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[name] = decodeXml(double ?? single);
+    }
+
+    // type 1 is the inbox
+    if (attributes.type !== undefined && attributes.type !== '1') continue;
+    if (!attributes.body?.trim()) continue;
+
+    const receivedAt = Number(attributes.date);
+    messages.push({
+      text: attributes.body,
+      sender: attributes.address,
+      receivedAt: Number.isFinite(receivedAt) && receivedAt > 0 ? receivedAt : undefined,
+    });
+  }
+
+  return messages;
+}
+
+/**
+ * What came of a batch of alert messages
+ */
+export interface ParsedAlerts {
+  transactions: Transaction[];
+  /** Messages from no bank we know, or not about money moving, like OTPs and promotions */
+  skipped: number;
+  /** Alerts we recognised but couldn't read */
+  failed: number;
+}
+
+/**
+ * Read alerts into provisional transactions. Messages that don't name a bank are read
+ * as the fallback bank's, when one is given.
+ */
+export function parseAlerts(
+  messages: AlertMessage[],
+  fallbackBank?: BankType | null,
+  logger: ParserLogger = consoleLogger
+): ParsedAlerts {
+  const parsers = new Map<BankType, AlertParser>();
+  const transactions: Transaction[] = [];
+  let skipped = 0;
+  let failed = 0;
+
+  messages.forEach((message, index) => {
+    const bank = detectAlertBank(message) ?? fallbackBank;
+    const format = bank && ALERT_FORMATS.find((f) => f.bankType === bank);
+    if (!format) {
+      skipped++;
+      return;
+    }
+
+    let parser = parsers.get(format.bankType);
+    if (!parser) {
+      parser = new AlertParser(format, logger);
+      parsers.set(format.bankType, parser);
+    }
+
+    const result = parser.parseTransactionSafe([message.text, message.receivedAt], index);
+    if (result.success) transactions.push(result.transaction);
+    else if (result.error) failed++;
+    else skipped++;
+  });
+
+  return { transactions: withOccurrenceIds(transactions), skipped, failed };
+}
+
+/**
+ * An alert and the statement row that records the same transaction
+ */
+export interface AlertMatch {
+  alert: Transaction;
+  transaction: Transaction;
+}
+
+/**
+ * Pair provisional alert transactions with statement rows: same bank, amount and currency,
+ * dates at most `ALERT_WINDOW_DAYS` apart, and the alert's account tail fitting the statement's
+ * account number when both are known. Closest dates pair first, then the most alike descriptions,
+ * and each side is matched at most once.
+ */
+export function matchAlerts(alerts: Transaction[], transactions: Transaction[], accountNumber?: string): AlertMatch[] {
+  const candidates: (AlertMatch & { distance: number; similarity: number })[] = [];
+
+  for (const alert of alerts) {
+    const tail = alert.meta?.accountTail;
+    if (accountNumber && tail && !accountNumber.endsWith(tail)) continue;
+
+    const date = new Date(alert.date).getTime();
+
+    for (const transaction of transactions) {
+      if (transaction.bankSource !== alert.bankSource || transaction.amount !== alert.amount) continue;
+      if (transaction.currency !== alert.currency) continue;
+
+      const distance = Math.abs(new Date(transaction.date).getTime() - date);
+      if (distance > ALERT_WINDOW_DAYS * DAY_MS) continue;
+
+      candidates.push({
+        alert,
+        transaction,
+        distance,
+        similarity: descriptionSimilarity(alert.description, transaction.description),
+      });
+    }
+  }
+
+  candidates.sort((a, b) => a.distance - b.distance || b.similarity - a.similarity);
+
+  const usedAlerts = new Set<Transaction>();
+  const usedTransactions = new Set<Transaction>();
+  const matches: AlertMatch[] = [];
+
+  for (const { alert, transaction } of candidates) {
+    if (usedAlerts.has(alert) || usedTransactions.has(transaction)) continue;
+    usedAlerts.add(alert);
+    usedTransactions.add(transaction);
+    matches.push({ alert, transaction });
+  }
+
+  return matches;
+}
@@ -0,0 +1,352 @@
+import type { RawRow, ReconciliationStatus } from '~/types';
+import type { ParseResult } from './base';
+
+/**
+ * Words that parsers and type inference key on, kept even when they turn up in a name.
+ * Month names are here too, since "May" in a name must not break "12-May-2025".
+ */
+const KEEP_WORDS = new Set([
+  'jan', 'january', 'feb', 'february', 'mar', 'march', 'apr', 'april', 'may', 'jun', 'june',
+  'jul', 'july', 'aug', 'august', 'sep', 'sept', 'september', 'oct', 'october', 'nov',
+  'november', 'dec', 'december',
+  'access', 'account', 'airtime', 'and', 'atm', 'bank', 'bill', 'card', 'charge', 'charges',
+  'credit', 'data', 'debit', 'deposit', 'duty', 'ecobank', 'electricity', 'fcmb', 'fee',
+  'fidelity', 'first', 'for', 'from', 'gtbank', 'interest', 'kuda', 'levy', 'limited', 'ltd',
+  'merchant', 'mfb', 'microfinance', 'mobile', 'moniepoint', 'nigeria', 'nip', 'opay', 'order',
+  'palmpay', 'party', 'payment', 'plc', 'pos', 'purchase', 'refund', 'reversal', 'sms', 'stamp',
+  'sterling', 'the', 'third', 'transfer', 'trf', 'uba', 'union', 'ussd', 'vat', 'web', 'wema',
+  'withdrawal', 'zenith',
+]);
+
+/**
+ * Column headings and the everyday words of narrations. A description word that is neither this
+ * nor in KEEP_WORDS is taken for part of a name, since parsers miss names in rows they misread.
+ */
+const NARRATION_WORDS = new Set([
+  'added', 'adv', 'agency', 'airtel', 'alat', 'alert', 'amount', 'app', 'back', 'balance',
+  'banking', 'banknip', 'being', 'between', 'bills', 'branch', 'bundle', 'buy', 'cable',
+  'cash', 'cashbox', 'cashout', 'channel', 'cheque', 'closing', 'comm', 'commission', 'cop',
+  'credited', 'customer', 'customers', 'date', 'debited', 'description', 'details',
+  'directdebit', 'dstv', 'ekedc', 'electronic', 'emt', 'emtl', 'etz', 'eur', 'euros', 'fees',
+  'fgn', 'frm', 'funds', 'glo', 'gotv', 'govt', 'ibanking', 'ibk', 'ikedc', 'inflow', 'instant',
+  'internet', 'inward', 'lodgement', 'lodgements', 'maint', 'maintenance', 'mob', 'money',
+  'monthly', 'mtn', 'naira', 'narration', 'neft', 'ngn', 'nibss', 'notification', 'onebank',
+  'online', 'opening', 'outward', 'owealth', 'paid', 'pay', 'posweb', 'prch', 'previous',
+  'pstkdirectdebit', 'pur', 'pymnt', 'pymt', 'pyt', 'received', 'recharge', 'ref', 'reference',
+  'remarks', 'remita', 'remitastp', 'reward', 'salary', 'same', 'save', 'savings', 'send',
+  'session', 'statement', 'subscription', 'tax', 'tfr', 'time', 'tnf', 'topup', 'total',
+  'transaction', 'transactions', 'txn', 'usd', 'ussdairtime', 'value', 'via', 'wallet', 'wdl',
+  'with', 'withdrawals', 'wtax', 'you', 'your',
+]);
+
+const CONSONANTS = 'bdfgklmnprstwy';
+const VOWELS = 'aeiou';
+
+const EMAIL = String.raw`[\w.+-]+@[\w-]+(?:\.[\w-]+)+`;
+// "10,000.00", "250.50" or "NGN5,000.00", but not the parts of "15.11.2025"
+const AMOUNT = String.raw`(?<=^|[^\w.,]|NGN|USD|GBP|EUR)(?:\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+\.\d{2})(?![\d,]|\.\d)`;
+const IDENTIFIER = String.raw`(?!(?:NGN|USD|GBP|EUR)\d)[A-Za-z0-9]*\d[A-Za-z0-9]*`;
+const TOKEN = new RegExp(`(${EMAIL})|(${AMOUNT})|(${IDENTIFIER})|([A-Za-z]+)`, 'g');
+
+// A cell holding nothing but a number, like "5000" or "1234.5", is an amount
+const AMOUNT_CELL = /^-?\d+(\.\d+)?$/;
+
+// 080..., 234 80... or 070..., the prefix is kept so it still reads as a phone number
+const PHONE = /^(?:234|0)[789][01]\d{8}$/;
+
+/**
+ * Numbers with this many digits are account numbers, phone numbers, references or session IDs.
+ * Dates and times split into shorter runs, so they are left alone.
+ */
+const MIN_IDENTIFIER_DIGITS = 6;
+
+export interface AnonymizerOptions {
+  /** Same seed, same fake values */
+  seed: number;
+  /** Names to replace wherever they appear, like the account holder and counterparties */
+  names?: string[];
+}
+
+/**
+ * Small seeded generator so a statement anonymizes the same way every run
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Words of the given descriptions and narrations that may belong to a name
+ */
+export function possibleNames(texts: string[]): string[] {
+  const words = texts.flatMap((text) => text.toLowerCase().match(/[a-z]+/g) ?? []);
+  return [...new Set(words)].filter(
+    (word) => word.length >= 3 && !KEEP_WORDS.has(word) && !NARRATION_WORDS.has(word)
+  );
+}
+
+/**
+ * Names to replace in a statement: the account holder, the counterparties the parser found, and
+ * anything name-like in descriptions, narrations and the rows the parser failed on
+ */
+export function statementNames(results: ParseResult[], accountName?: string): string[] {
+  const texts = results.flatMap((result) => {
+    if (result.success) return [result.transaction.description, result.transaction.meta?.narration ?? ''];
+    return (result.error?.row ?? []).flatMap((cell) => (typeof cell === 'string' ? [cell] : []));
+  });
+  const counterparties = results.flatMap((result) =>
+    result.success ? (result.transaction.meta?.counterpartyName ?? []) : []
+  );
+
+  return [...(accountName ? [accountName] : []), ...counterparties, ...possibleNames(texts)];
+}
+
+/**
+ * Whole numbers with a leading zero or ten or more digits are account and phone numbers,
+ * which get fake digits rather than a scale that could be divided back out
+ */
+function looksLikeIdentifier(value: string): boolean {
+  const digits = value.replace(/^-/, '');
+  return !digits.includes('.') && ((digits.length > 1 && digits.startsWith('0')) || digits.length >= 10);
+}
+
+function matchCase(original: string, replacement: string): string {
+  if (original === original.toUpperCase()) return replacement.toUpperCase();
+  if (original[0] === original[0].toUpperCase()) {
+    return replacement[0].toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+/**
+ * Replaces the personal parts of a statement with fake values. Each value maps to the same
+ * fake everywhere it appears, so rows still line up with the statement header and each other.
+ *
+ * Amounts are multiplied by a whole number, so every printed balance still follows from the
+ * previous balance and the amount between them.
+ */
+export class StatementAnonymizer {
+  /** Amounts are multiplied by this */
+  readonly scale: number;
+
+  private readonly random: () => number;
+  private readonly nameWords: Set<string>;
+  private readonly replacements = new Map<string, string>();
+  private readonly used = new Set<string>();
+
+  constructor({ seed, names = [] }: AnonymizerOptions) {
+    this.random = mulberry32(seed);
+    this.scale = 2 + Math.floor(this.random() * 8);
+    this.nameWords = new Set(
+      names
+        .flatMap((name) => name.toLowerCase().split(/[^a-z]+/))
+        .filter((word) => word.length >= 3 && !KEEP_WORDS.has(word))
+    );
+  }
+
+  text(value: string): string {
+    return value.replace(TOKEN, (token, email?: string, amount?: string, identifier?: string, word?: string) => {
+      if (email) {
+        return this.replaceOnce(`email:${email.toLowerCase()}`, () => `user${this.used.size + 1}@example.com`);
+      }
+      if (amount) return this.scaleAmount(amount);
+      if (identifier) return this.replaceIdentifier(identifier);
+      if (word && this.nameWords.has(word.toLowerCase())) {
+        return matchCase(word, this.replaceOnce(`name:${word.toLowerCase()}`, () => this.fakeWord()));
+      }
+      return token;
+    });
+  }
+
+  /**
+   * Anonymize a row of cells. Amount columns often hold bare numbers ("5000", "1234.5") that
+   * don't look like amounts in running text, so a cell holding only a number is scaled as one,
+   * unless it has the shape of an account or phone number.
+   */
+  row(row: RawRow): RawRow {
+    return row.map((cell) => {
+      if (cell === undefined) return undefined;
+
+      const value = String(cell).trim();
+      if (AMOUNT_CELL.test(value) && !looksLikeIdentifier(value)) {
+        const scaled = this.scaleAmount(value);
+        return typeof cell === 'number' ? Number(scaled) : scaled;
+      }
+      return this.text(String(cell));
+    });
+  }
+
+  private scaleAmount(amount: string): string {
+    if (amount.startsWith('-')) return `-${this.scaleAmount(amount.slice(1))}`;
+
+    const [whole, fraction = ''] = amount.split('.');
+    const units = BigInt(whole.replace(/,/g, '') + fraction) * BigInt(this.scale);
+
+    let digits = units.toString().padStart(fraction.length + 1, '0');
+    const scaledFraction = fraction ? digits.slice(-fraction.length) : '';
+    digits = fraction ? digits.slice(0, -fraction.length) : digits;
+
+    const scaledWhole = whole.includes(',') ? digits.replace(/\B(?=(\d{3})+(?!\d))/g, ',') : digits;
+    return fraction ? `${scaledWhole}.${scaledFraction}` : scaledWhole;
+  }
+
+  /**
+   * Swap the digits of account numbers, phone numbers and references, keeping any letters
+   * and the length so the value still has the shape parsers look for
+   */
+  private replaceIdentifier(identifier: string): string {
+    const digitCount = identifier.replace(/\D/g, '').length;
+    if (digitCount < MIN_IDENTIFIER_DIGITS) return identifier;
+
+    return this.replaceOnce(`id:${identifier}`, () => {
+      const keep = PHONE.test(identifier) ? identifier.length - 7 : 1;
+      return [...identifier]
+        .map((char, i) => (i >= keep && /\d/.test(char) ? String(Math.floor(this.random() * 10)) : char))
+        .join('');
+    });
+  }
+
+  private fakeWord(): string {
+    const syllables = 2 + Math.floor(this.random() * 2);
+    let word = '';
+    for (let i = 0; i < syllables; i++) {
+      word += CONSONANTS[Math.floor(this.random() * CONSONANTS.length)];
+      word += VOWELS[Math.floor(this.random() * VOWELS.length)];
+    }
+    return word;
+  }
+
+  private replaceOnce(key: string, create: () => string): string {
+    const existing = this.replacements.get(key);
+    if (existing !== undefined) return existing;
+
+    let replacement = create();
+    // A fake value that collides with another would merge two accounts or people into one
+    while (this.used.has(replacement)) replacement = create();
+
+    this.replacements.set(key, replacement);
+    this.used.add(replacement);
+    return replacement;
+  }
+}
+
+/**
+ * Where each bank's parser lives, for the generated test's import
+ */
+const PARSER_MODULES: Record<string, { className: string; module: string }> = {
+  access: { className: 'AccessParser', module: 'access' },
+  fcmb: { className: 'FcmbParser', module: 'fcmb' },
+  fidelity: { className: 'FidelityParser', module: 'fidelity' },
+  firstbank: { className: 'FirstBankParser', module: 'firstbank' },
+  gtb: { className: 'GtbParser', module: 'gtb' },
+  kuda: { className: 'KudaParser', module: 'kuda' },
+  moniepoint: { className: 'MoniepointParser', module: 'moniepoint' },
+  opay: { className: 'OPayParser', module: 'opay' },
+  palmpay: { className: 'PalmPayParser', module: 'palmpay' },
+  standardchartered: { className: 'StandardCharteredParser', module: 'standard-chartered' },
+  sterling: { className: 'SterlingParser', module: 'sterling' },
+  uba: { className: 'UbaParser', module: 'uba' },
+  wema: { className: 'WemaParser', module: 'wema' },
+  zenith: { className: 'ZenithParser', module: 'zenith' },
+};
+
+export interface FixtureSource {
+  bank: string;
+  /** Statement text for banks whose rows are pulled out of PDF text, otherwise the rows */
+  text?: string;
+  rows?: RawRow[];
+  /** What the parser makes of the anonymized statement today */
+  transactions: number;
+  reconciliation: ReconciliationStatus;
+}
+
+function quote(value: string): string {
+  return `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
+
+function cellLiteral(cell: RawRow[number]): string {
+  if (cell === undefined) return 'undefined';
+  return typeof cell === 'number' ? String(cell) : quote(cell);
+}
+
+/**
+ * Break merged statement text into lines that join back with single spaces
+ */
+function wrapText(text: string, width = 96): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    if (line && line.length + word.length + 1 > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * A test file for `src/__tests__/parsers` that feeds the anonymized statement to its parser.
+ * The expectations record what the parser does now; a bug report changes them to what the
+ * statement actually shows.
+ */
+export function buildFixture({ bank, text, rows, transactions, reconciliation }: FixtureSource): string {
+  const parser = PARSER_MODULES[bank];
+  if (!parser) throw new Error(`No parser for bank: ${bank}`);
+
+  const { className, module } = parser;
+  const lines = [
+    `import { describe, it, expect } from 'vitest';`,
+    `import { ${className} } from '~/lib/parsers/${module}';`,
+    `import { reconcileBalances } from '~/lib/parsers/reconcile';`,
+  ];
+
+  if (text !== undefined) {
+    lines.push(
+      '',
+      '// Anonymized statement text: names, account numbers, phone numbers and references are fake,',
+      '// and amounts are scaled',
+      'const statement = [',
+      ...wrapText(text).map((line) => `  ${quote(line)},`),
+      `].join(' ');`
+    );
+  } else {
+    lines.splice(1, 0, `import type { RawRow } from '~/types';`);
+    lines.push(
+      '',
+      '// Anonymized statement rows: names, account numbers, phone numbers and references are fake,',
+      '// and amounts are scaled',
+      'const rows: RawRow[] = [',
+      ...(rows ?? []).map((row) => `  [${row.map(cellLiteral).join(', ')}],`),
+      '];'
+    );
+  }
+
+  lines.push(
+    '',
+    `describe('${className} anonymized statement', () => {`,
+    `  const parser = new ${className}();`,
+    '',
+    `  it('parses every transaction', () => {`,
+    ...(text !== undefined ? [`    const rows = ${className}.extractRowsFromPdfText(statement);`] : []),
+    '    const transactions = rows',
+    '      .map((row, i) => parser.parseTransactionSafe(row, i))',
+    '      .flatMap((result) => (result.success ? [result.transaction] : []));',
+    '',
+    `    expect(transactions).toHaveLength(${transactions});`,
+    `    expect(reconcileBalances(transactions).status).toBe('${reconciliation}');`,
+    '  });',
+    '});',
+    ''
+  );
+
+  return lines.join('\n');
+}
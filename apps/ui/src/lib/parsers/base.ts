@@ -1,21 +1,19 @@
 import {
   type BankParser,
+  type ParseError,
   type RawRow,
   type Transaction,
   type TransactionMeta,
   TransactionCategory,
   TransactionType,
   type BankType,
+  type Currency,
 } from '~/types';
-
-/**
- * Error details from parsing a transaction row
- */
-export interface ParseError {
-  rowIndex: number;
-  message: string;
-  row?: RawRow;
-}
+import { DEFAULT_CURRENCY, STATEMENT_TIME_ZONE } from '~/lib/constants';
+import { zonedDate, zonedDay } from '~/lib/utils/timezone';
+import { categorize } from './categories';
+import { currencyKey, stableHash, transactionKey } from './ids';
+import type { PdfLayout } from './processors/layout';
 
 /**
  * Result of parsing a transaction - either success with data or failure with error
@@ -73,6 +71,24 @@ export abstract class BaseParser implements BankParser {
   protected abstract readonly bankType: BankType;
   protected abstract readonly idPrefix: string;
 
+  /**
+   * Table layout of this bank's PDF statements. Parsers that set it get column-aligned rows
+   * rebuilt from text positions instead of pulling rows out of the merged text.
+   */
+  readonly pdfLayout?: PdfLayout;
+
+  /**
+   * Time zone the statement's dates and times are printed in.
+   * Dates are stored as the instant that wall-clock time refers to.
+   */
+  protected readonly timeZone: string = STATEMENT_TIME_ZONE;
+
+  /**
+   * Currency of the statement being parsed, from its header. Rows rarely state their own,
+   * so they take this, and it goes into their IDs.
+   */
+  currency: Currency = DEFAULT_CURRENCY;
+
   protected logger: ParserLogger;
 
   constructor(logger: ParserLogger = consoleLogger) {
@@ -113,28 +129,14 @@ export abstract class BaseParser implements BankParser {
   }
 
   /**
-   * Simple hash function for generating unique IDs.
-   * Produces a base36 string from input.
-   */
-  protected simpleHash(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash).toString(36);
-  }
-
-  /**
-   * Generate a unique transaction ID.
+   * Generate a transaction ID from its identifying fields.
+   * Identical rows get the same ID here; withOccurrenceIds tells them apart per statement.
    * @param date - Transaction date
-   * @param amount - Transaction amount in kobo
+   * @param amount - Transaction amount in minor units
    * @param parts - Additional parts to include in hash (reference, description, etc.)
    */
   protected generateId(date: Date, amount: number, ...parts: (string | undefined)[]): string {
-    const hashInput = [date.toISOString(), String(amount), ...parts.filter(Boolean)].join('-');
-    return `${this.idPrefix}-${this.simpleHash(hashInput)}`;
+    return `${this.idPrefix}-${stableHash(transactionKey(date.toISOString(), amount, ...parts))}`;
   }
 
   /**
@@ -144,20 +146,20 @@ export abstract class BaseParser implements BankParser {
    * @param maxDescLength - Maximum characters to take from description (default: 10)
    */
   protected generateReference(date: Date, description?: string, maxDescLength = 10): string {
-    const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '');
+    const dateStr = zonedDay(date, this.timeZone).replace(/-/g, '');
     const descPart = description?.substring(0, maxDescLength) || '';
     return `${dateStr}-${descPart}`.replace(/[^a-zA-Z0-9-]/g, '').toUpperCase();
   }
 
   /**
-   * Parse an amount string to kobo (integer cents).
-   * Removes currency symbols, commas, and whitespace.
-   * @param amountStr - Amount string (e.g., "₦1,234.56" or "1234.56")
-   * @returns Amount in kobo, or null if invalid
+   * Parse an amount string to minor units (kobo, cents).
+   * Removes currency symbols and codes, commas, and whitespace.
+   * @param amountStr - Amount string (e.g., "₦1,234.56", "USD 1,234.56" or "1234.56")
+   * @returns Amount in minor units, or null if invalid
    */
   protected parseAmountValue(amountStr: string | undefined): number | null {
     if (!amountStr || amountStr === '-' || amountStr === '--') return null;
-    const cleaned = amountStr.replace(/[₦$,\s]/g, '').trim();
+    const cleaned = amountStr.replace(/NGN|USD|GBP|EUR|[₦$£€,\s]/gi, '').trim();
     const amount = parseFloat(cleaned);
     if (isNaN(amount) || amount === 0) return null;
     return Math.round(amount * 100);
@@ -186,12 +188,20 @@ export abstract class BaseParser implements BankParser {
     return MONTHS[monthStr.toLowerCase()];
   }
 
+  /**
+   * The instant a date and time printed on the statement refers to, read in the statement's time zone.
+   * Month is 0-based, as in `Date.UTC`.
+   */
+  protected statementDate(year: number, monthIndex: number, day: number, hour = 0, minute = 0, second = 0): Date | null {
+    const date = zonedDate(year, monthIndex, day, hour, minute, second, this.timeZone);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
   /**
    * Parse a date string in DD-MMM-YYYY format (e.g., "15-Nov-2025").
    * @param dateStr - Date string to parse
-   * @param useUTC - Whether to create UTC date (default: true)
    */
-  protected parseDDMMMYYYY(dateStr: string, useUTC = true): Date | null {
+  protected parseDDMMMYYYY(dateStr: string): Date | null {
     const match = dateStr.match(/(\d{2})-([A-Za-z]{3})-(\d{4})/);
     if (!match) return null;
 
@@ -199,11 +209,7 @@ export abstract class BaseParser implements BankParser {
     const month = this.parseMonthName(monthStr);
     if (month === undefined) return null;
 
-    const date = useUTC
-      ? new Date(Date.UTC(parseInt(year, 10), month, parseInt(day, 10), 0, 0, 0, 0))
-      : new Date(parseInt(year, 10), month, parseInt(day, 10));
-
-    return isNaN(date.getTime()) ? null : date;
+    return this.statementDate(parseInt(year, 10), month, parseInt(day, 10));
   }
 
   /**
@@ -214,13 +220,7 @@ export abstract class BaseParser implements BankParser {
     if (!match) return null;
 
     const [, day, month, year] = match;
-    const date = new Date(
-      parseInt(year, 10),
-      parseInt(month, 10) - 1,
-      parseInt(day, 10)
-    );
-
-    return isNaN(date.getTime()) ? null : date;
+    return this.statementDate(parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10));
   }
 
   /**
@@ -231,11 +231,7 @@ export abstract class BaseParser implements BankParser {
     if (!match) return null;
 
     const [, day, month, year] = match;
-    const date = new Date(
-      Date.UTC(parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10), 0, 0, 0, 0)
-    );
-
-    return isNaN(date.getTime()) ? null : date;
+    return this.statementDate(parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10));
   }
 
   /**
@@ -246,18 +242,33 @@ export abstract class BaseParser implements BankParser {
     amount: number;
     description: string;
     reference: string;
+    currency?: Currency;
     meta?: TransactionMeta;
+    /** Date the bank applied the transaction, when the statement has a value date column */
+    valueDate?: Date | null;
+    /** Whether `date` carries a time of day from the statement */
+    hasTime?: boolean;
   }): Transaction {
+    const timing: TransactionMeta = {
+      ...(params.valueDate && { valueDate: params.valueDate.toISOString() }),
+      ...(params.hasTime !== undefined && { hasTime: params.hasTime }),
+    };
+    const meta = Object.keys(timing).length > 0 ? { ...params.meta, ...timing } : params.meta;
+
+    const currency = params.currency ?? this.currency;
+
     return {
-      id: this.generateId(params.date, params.amount, params.reference, params.description),
+      id: this.generateId(params.date, params.amount, params.reference, params.description, currencyKey(currency)),
       date: params.date.toISOString(),
       createdAt: Math.floor(Date.now() / 1000),
       description: params.description,
       amount: params.amount,
+      currency,
       category: params.amount > 0 ? TransactionCategory.Inflow : TransactionCategory.Outflow,
+      spendingCategory: categorize({ amount: params.amount, description: params.description, meta }),
       bankSource: this.bankType,
       reference: params.reference,
-      meta: params.meta,
+      meta,
     };
   }
 
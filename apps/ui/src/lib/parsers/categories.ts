@@ -0,0 +1,87 @@
+import { SpendingCategory, TransactionType, type TransactionMeta } from '~/types';
+
+interface CategoryRule {
+  category: SpendingCategory;
+  pattern: RegExp;
+}
+
+/**
+ * Merchant, biller and narration keywords, checked in order; the first match wins.
+ * Charges come first so "NIP charge for transfer to mum" is a fee, not family.
+ */
+const CATEGORY_RULES: CategoryRule[] = [
+  { category: SpendingCategory.Fees, pattern: /\b(?:charges?|levy|stamp duty|vat|commission|sms alert|maintenance fee|card fee)\b/i },
+  { category: SpendingCategory.AirtimeData, pattern: /\b(?:airtime|recharge|data (?:bundle|plan|sub(?:scription)?)|mtn|glo|airtel|9mobile|etisalat)\b/i },
+  {
+    category: SpendingCategory.Utilities,
+    pattern: /\b(?:electricity|prepaid meter|ekedc|ikedc|aedc|phed|kedco|ibedc|eedc|bedc|lawma|water (?:bill|board|corp)|spectranet|smile|ipnx|fibre|internet|waste)\b/i,
+  },
+  {
+    category: SpendingCategory.Entertainment,
+    pattern: /\b(?:dstv|gotv|startimes|showmax|netflix|spotify|apple\.com|youtube|boomplay|cinema|filmhouse|silverbird)\b/i,
+  },
+  { category: SpendingCategory.Betting, pattern: /\b(?:bet9ja|sportybet|betking|1xbet|nairabet|merrybet|bangbet|msport|betway|lotto)\b/i },
+  { category: SpendingCategory.Rent, pattern: /\b(?:rent|landlord|caution fee|agency fee)\b/i },
+  {
+    category: SpendingCategory.Transport,
+    pattern: /\b(?:uber|bolt|taxify|indrive|rida|lagride|brt|cowry|fuel|petrol|diesel|filling station|nnpc|oando|mobil|conoil|ardova|toll|lcc|parking)\b/i,
+  },
+  {
+    category: SpendingCategory.Groceries,
+    pattern: /\b(?:shoprite|spar|justrite|market square|prince ebeano|ebeano|hubmart|foodco|supermarket|groceries|mini mart)\b/i,
+  },
+  {
+    category: SpendingCategory.Food,
+    pattern: /\b(?:chicken republic|kfc|domino'?s|pizza|mr bigg'?s|tantalizers|sweet sensation|cold stone|chowdeck|glovo|heyfood|food|restaurant|eatery|kitchen|suya|bukka|cafe)\b/i,
+  },
+  {
+    category: SpendingCategory.Shopping,
+    pattern: /\b(?:jumia|konga|temu|aliexpress|amazon|shein|slot|mall|boutique|fashion|store)\b/i,
+  },
+  { category: SpendingCategory.Health, pattern: /\b(?:pharmacy|medplus|hospital|clinic|hmo|medical|lab(?:oratory)?|dental|health)\b/i },
+  {
+    category: SpendingCategory.Education,
+    pattern: /\b(?:school fees?|tuition|waec|neco|jamb|university|polytechnic|college|school|udemy|coursera|textbooks?)\b/i,
+  },
+  {
+    category: SpendingCategory.Savings,
+    pattern: /\b(?:piggyvest|cowrywise|risevest|bamboo|chaka|owealth|spend and save|target savings|fixed deposit|savings|save)\b/i,
+  },
+  {
+    category: SpendingCategory.Family,
+    pattern: /\b(?:mum|mom|mummy|mother|dad|daddy|father|bro|sis|sister|brother|aunty|auntie|uncle|wife|husband|upkeep|pocket money|family)\b/i,
+  },
+];
+
+/** Categories an inflow can take; everything else coming in is income */
+const INFLOW_CATEGORIES = new Set([SpendingCategory.Savings, SpendingCategory.Refunds]);
+
+/** What a transaction type says when no keyword matched */
+const TYPE_CATEGORIES: Partial<Record<TransactionType, SpendingCategory>> = {
+  [TransactionType.BankCharge]: SpendingCategory.Fees,
+  [TransactionType.AtmWithdrawal]: SpendingCategory.Cash,
+  [TransactionType.Airtime]: SpendingCategory.AirtimeData,
+  [TransactionType.BillPayment]: SpendingCategory.Utilities,
+  [TransactionType.Interest]: SpendingCategory.Fees,
+  [TransactionType.Transfer]: SpendingCategory.Transfers,
+};
+
+/**
+ * Works out what a transaction was spent on, from its type, biller and the merchant
+ * or counterparty named in its description.
+ */
+export function categorize(params: { amount: number; description: string; meta?: TransactionMeta }): SpendingCategory {
+  const { amount, description, meta } = params;
+  if (meta?.type === TransactionType.Reversal) return SpendingCategory.Refunds;
+
+  const text = [meta?.billProvider, meta?.billType, meta?.counterpartyName, description, meta?.narration]
+    .filter(Boolean)
+    .join(' ');
+  const matched = CATEGORY_RULES.find((rule) => rule.pattern.test(text))?.category;
+
+  if (amount > 0) {
+    return matched && INFLOW_CATEGORIES.has(matched) ? matched : SpendingCategory.Income;
+  }
+
+  return matched ?? (meta?.type && TYPE_CATEGORIES[meta.type]) ?? SpendingCategory.Other;
+}
@@ -0,0 +1,147 @@
+import dayjs from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+import {
+  type ColumnMapping,
+  type ImportTemplate,
+  type RawRow,
+  BankType,
+} from '~/types';
+import { type ParserLogger, consoleLogger } from './base';
+import { DefinitionParser, cellText } from './definition';
+
+dayjs.extend(customParseFormat);
+
+/**
+ * Date formats offered in the column mapper, most common Nigerian layouts first
+ */
+export const DATE_FORMATS = [
+  'DD/MM/YYYY',
+  'DD/MM/YYYY HH:mm:ss',
+  'DD/MM/YYYY HH:mm',
+  'DD/MM/YY',
+  'DD-MM-YYYY',
+  'DD-MMM-YYYY',
+  'DD-MMM-YY',
+  'D MMM YYYY',
+  'DD MMM YYYY',
+  'YYYY-MM-DD',
+  'YYYY-MM-DD HH:mm:ss',
+  'MM/DD/YYYY',
+  'M/D/YY',
+] as const;
+
+type MappedField = keyof ColumnMapping;
+
+const HEADER_KEYWORDS: Record<MappedField, RegExp> = {
+  date: /^(?:trans(?:action)?\.?\s*date|date|posted\s*date|txn\s*date|date\/time)$/,
+  description: /^(?:description|narration|details|transaction\s*details|remarks?|particulars)$/,
+  debit: /^(?:debit|debits|withdrawals?|money\s*out|dr)$/,
+  credit: /^(?:credit|credits|deposits?|lodgements?|money\s*in|cr)$/,
+  amount: /^(?:amount|value|amount\s*\(ngn\))$/,
+  balance: /^(?:balance|running\s*balance|closing\s*balance)$/,
+  reference: /^(?:reference|ref|ref\.?\s*no|transaction\s*ref(?:erence)?|session\s*id)$/,
+};
+
+/**
+ * Lowercase and collapse whitespace so header rows compare reliably
+ */
+export function normalizeHeader(row: RawRow): string[] {
+  return row.map((cell) => cellText(cell).toLowerCase().replace(/\s+/g, ' '));
+}
+
+/**
+ * Index of the first row that looks like a header, or -1.
+ * Statements often start with a few lines of account details before the table.
+ */
+export function findHeaderRow(rows: RawRow[]): number {
+  return rows.findIndex((row) => {
+    const cells = normalizeHeader(row);
+    const fields = Object.values(HEADER_KEYWORDS).filter((pattern) =>
+      cells.some((cell) => pattern.test(cell))
+    );
+    return fields.length >= 2;
+  });
+}
+
+/**
+ * Best guess at the column mapping from header names. Unrecognised fields are left out.
+ */
+export function guessColumnMapping(header: RawRow): Partial<ColumnMapping> {
+  const cells = normalizeHeader(header);
+  const mapping: Partial<ColumnMapping> = {};
+
+  for (const [field, pattern] of Object.entries(HEADER_KEYWORDS) as [MappedField, RegExp][]) {
+    const index = cells.findIndex((cell) => pattern.test(cell));
+    if (index !== -1) mapping[field] = index;
+  }
+
+  return mapping;
+}
+
+/**
+ * First preset that strictly parses every sample, or null.
+ */
+export function guessDateFormat(samples: string[]): string | null {
+  const values = samples.map((s) => s.trim()).filter(Boolean);
+  if (values.length === 0) return null;
+
+  return DATE_FORMATS.find((format) => values.every((v) => dayjs(v, format, true).isValid())) ?? null;
+}
+
+/**
+ * Whether the mapping has everything needed to build a transaction
+ */
+export function isMappingComplete(
+  mapping: Partial<ColumnMapping>,
+  amountStyle: ImportTemplate['amountStyle']
+): mapping is ColumnMapping {
+  if (mapping.date === undefined || mapping.description === undefined) return false;
+  if (amountStyle === 'signed') return mapping.amount !== undefined;
+  return mapping.debit !== undefined || mapping.credit !== undefined;
+}
+
+/**
+ * Saved template whose header row matches the file's, if any
+ */
+export function findMatchingTemplate(
+  templates: ImportTemplate[],
+  header: RawRow | undefined
+): ImportTemplate | undefined {
+  if (!header) return undefined;
+  const key = normalizeHeader(header).join('|');
+  return templates.find((t) => t.headers.length > 0 && t.headers.join('|') === key);
+}
+
+/**
+ * Saved template a newly mapped layout replaces: the one matching the file's header row,
+ * or else one with the same name. Mapping the same layout again updates it rather than
+ * adding another copy.
+ */
+export function findTemplateToReplace(
+  templates: ImportTemplate[],
+  header: RawRow | undefined,
+  name: string
+): ImportTemplate | undefined {
+  const key = name.trim().toLowerCase();
+  return findMatchingTemplate(templates, header) ?? templates.find((t) => t.name.trim().toLowerCase() === key);
+}
+
+/**
+ * Parser driven by a user-defined column mapping instead of a bank-specific layout
+ */
+export class CustomParser extends DefinitionParser {
+  constructor(template: ImportTemplate, logger: ParserLogger = consoleLogger) {
+    super(
+      {
+        bankType: BankType.Custom,
+        bankName: template.name,
+        idPrefix: 'custom',
+        columns: template.columns,
+        dateFormat: template.dateFormat,
+        amountStyle: template.amountStyle,
+        referenceLength: 15,
+      },
+      logger
+    );
+  }
+}
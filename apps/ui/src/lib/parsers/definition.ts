@@ -0,0 +1,247 @@
+import dayjs from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+import {
+  type BankType,
+  type ColumnMapping,
+  type RawRow,
+  type Transaction,
+  type TransactionMeta,
+  type TransactionType,
+} from '~/types';
+import { BaseParser, type ParserLogger, consoleLogger } from './base';
+import type { PdfLayout } from './processors/layout';
+
+dayjs.extend(customParseFormat);
+
+/**
+ * Cells a definition can point at. On top of the mapped columns of an import template,
+ * a bank may have a category column and a "to/from" column naming the counterparty.
+ */
+export interface DefinitionColumns extends Partial<ColumnMapping> {
+  date: number;
+  category?: number;
+  counterparty?: number;
+}
+
+export type DefinitionField = keyof DefinitionColumns;
+
+/**
+ * Pulls counterparty details out of a cell with the named groups `name`, `account` and `bank`
+ */
+export interface CounterpartyPattern {
+  field: DefinitionField;
+  pattern: RegExp;
+}
+
+/**
+ * Transactions whose description (followed by the category, if any) matches get this type
+ */
+export interface TypeRule {
+  type: TransactionType;
+  pattern: RegExp;
+}
+
+/**
+ * Everything needed to read a bank's statement rows, without writing a parser class
+ */
+export interface BankDefinition {
+  bankType: BankType;
+  bankName: string;
+  idPrefix: string;
+  columns: DefinitionColumns;
+  /** dayjs formats, tried in order and parsed strictly */
+  dateFormat: string | string[];
+  /** Separate debit and credit columns, or one signed amount column */
+  amountStyle: 'split' | 'signed';
+  /** Rows with fewer cells are skipped */
+  minColumns?: number;
+  /** Rows whose description matches any of these are skipped, like internal sweeps */
+  skip?: RegExp[];
+  /** Tried in order, the first match wins */
+  counterparty?: CounterpartyPattern[];
+  /** Tried in order before the shared keyword inference */
+  types?: TypeRule[];
+  /**
+   * Without a reference column, a reference is built from the start of these cells,
+   * e.g. `[['date', 8], ['description', 10]]`. Defaults to the transaction date and description.
+   */
+  reference?: [DefinitionField, number][];
+  /** Characters of the description in the default generated reference (default: 10) */
+  referenceLength?: number;
+  pdfLayout?: PdfLayout;
+}
+
+export function cellText(cell: RawRow[number]): string {
+  return cell === undefined ? '' : String(cell).trim();
+}
+
+/**
+ * Parser that reads rows as a bank definition describes them
+ */
+export class DefinitionParser extends BaseParser {
+  readonly bankName: string;
+  protected readonly bankType: BankType;
+  protected readonly idPrefix: string;
+  readonly pdfLayout?: PdfLayout;
+
+  protected readonly definition: BankDefinition;
+
+  constructor(definition: BankDefinition, logger: ParserLogger = consoleLogger) {
+    super(logger);
+    this.definition = definition;
+    this.bankName = definition.bankName;
+    this.bankType = definition.bankType;
+    this.idPrefix = definition.idPrefix;
+    this.pdfLayout = definition.pdfLayout;
+  }
+
+  parseTransaction(row: RawRow): Transaction | null {
+    const { columns, minColumns = 1 } = this.definition;
+    if (!row || row.length < minColumns) return null;
+
+    const cell = (field: DefinitionField) => {
+      const index = columns[field];
+      return index === undefined ? '' : cellText(row[index]);
+    };
+
+    const description = cell('description');
+    if (this.definition.skip?.some((pattern) => pattern.test(description))) return null;
+
+    // Header and summary rows fail here
+    const parsedDate = this.parseDate(cell('date'));
+    if (!parsedDate) return null;
+    const { date, hasTime } = parsedDate;
+
+    const amount = this.definition.amountStyle === 'signed'
+      ? this.parseSignedAmount(cell('amount'))
+      : this.parseSplitAmount(cell('debit'), cell('credit'));
+    if (amount === null) return null;
+
+    const category = cell('category');
+    const meta: TransactionMeta = {
+      type: this.inferType(description, category),
+      narration: [description, cell('counterparty'), category].filter(Boolean).join(' - '),
+      ...this.extractCounterparty(cell),
+    };
+
+    if (category) {
+      meta.rawCategory = category;
+    }
+
+    const balanceStr = cell('balance');
+    if (balanceStr) {
+      const balance = this.parseSignedAmount(balanceStr);
+      if (balance !== null) {
+        meta.balanceAfter = balance;
+      }
+    }
+
+    return this.createTransaction({
+      date,
+      amount,
+      description: description || category || 'Transaction',
+      reference: cell('reference') || this.buildReference(date, description, cell),
+      meta,
+      hasTime,
+    });
+  }
+
+  /**
+   * The date and whether the format it matched has a time of day
+   */
+  private parseDate(value: string): { date: Date; hasTime: boolean } | null {
+    if (!value) return null;
+
+    const formats = [this.definition.dateFormat].flat();
+    for (const format of formats) {
+      const parsed = dayjs(value, format, true);
+      if (!parsed.isValid()) continue;
+
+      // dayjs reads the fields in device time, so take them back out and place them in statement time
+      const date = this.statementDate(
+        parsed.year(),
+        parsed.month(),
+        parsed.date(),
+        parsed.hour(),
+        parsed.minute(),
+        parsed.second()
+      );
+      if (date) return { date, hasTime: /[Hh]/.test(format) };
+    }
+    return null;
+  }
+
+  /**
+   * Some banks print debits as negative numbers in the debit column, so the sign is ignored here
+   */
+  private parseSplitAmount(debitStr: string, creditStr: string): number | null {
+    const credit = this.parseAmountValue(creditStr);
+    if (credit) return Math.abs(credit);
+
+    const debit = this.parseAmountValue(debitStr);
+    if (debit) return -Math.abs(debit);
+
+    return null;
+  }
+
+  /**
+   * Handle "-1,000.00", "(1,000.00)" and "1,000.00 DR" style amounts
+   */
+  private parseSignedAmount(amountStr: string): number | null {
+    let value = amountStr.replace(/NGN/i, '').trim();
+    let negative = false;
+
+    const parens = value.match(/^\((.*)\)$/);
+    if (parens) {
+      value = parens[1];
+      negative = true;
+    }
+
+    const suffix = value.match(/^(.*?)\s*(DR|CR)\.?$/i);
+    if (suffix) {
+      value = suffix[1];
+      negative = suffix[2].toUpperCase() === 'DR';
+    }
+
+    const amount = this.parseAmountValue(value);
+    if (amount === null) return null;
+
+    return negative ? -Math.abs(amount) : amount;
+  }
+
+  private inferType(description: string, category: string): TransactionType {
+    const text = [description, category].filter(Boolean).join(' ');
+    const rule = this.definition.types?.find(({ pattern }) => pattern.test(text));
+    return rule?.type ?? this.inferBaseTransactionType(text);
+  }
+
+  private extractCounterparty(cell: (field: DefinitionField) => string): Partial<TransactionMeta> {
+    for (const { field, pattern } of this.definition.counterparty ?? []) {
+      const groups = cell(field).match(pattern)?.groups;
+      if (!groups) continue;
+
+      const found: Partial<TransactionMeta> = {};
+      if (groups.name?.trim()) found.counterpartyName = groups.name.trim();
+      if (groups.account?.trim()) found.counterpartyAccount = groups.account.trim();
+      if (groups.bank?.trim()) found.counterpartyBank = groups.bank.trim();
+      return found;
+    }
+    return {};
+  }
+
+  private buildReference(
+    date: Date,
+    description: string,
+    cell: (field: DefinitionField) => string
+  ): string {
+    const { reference, referenceLength } = this.definition;
+    if (!reference) return this.generateReference(date, description, referenceLength);
+
+    return reference
+      .map(([field, length]) => cell(field).substring(0, length))
+      .filter(Boolean)
+      .join('-')
+      .replace(/[^a-zA-Z0-9-]/g, '')
+      .toUpperCase();
+  }
+}
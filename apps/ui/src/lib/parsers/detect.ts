@@ -0,0 +1,227 @@
+import { BankType, type FileFormat } from '~/types';
+
+/**
+ * A bank the file could belong to, with a confidence score between 0 and 1
+ */
+export interface BankCandidate {
+  bank: BankType;
+  confidence: number;
+}
+
+/**
+ * What the detector gets to look at.
+ * For PDFs this is the start of the extracted text, for spreadsheets the first rows joined.
+ */
+export interface DetectionInput {
+  format: FileFormat;
+  text: string;
+  sheetNames?: string[];
+}
+
+interface SignaturePattern {
+  pattern: RegExp;
+  weight: number;
+}
+
+interface BankSignature {
+  bank: BankType;
+  formats: FileFormat[];
+  patterns: SignaturePattern[];
+  sheetNames?: SignaturePattern[];
+}
+
+/**
+ * Minimum confidence before a candidate is preselected or used to flag a mismatch
+ */
+export const DETECTION_THRESHOLD = 0.5;
+
+/**
+ * Only the start of the document is inspected. Transaction narrations further down
+ * mention other banks by name and would otherwise skew the scores.
+ */
+const SAMPLE_LENGTH = 4000;
+
+const SIGNATURES: BankSignature[] = [
+  {
+    bank: BankType.GTB,
+    formats: ['pdf'],
+    patterns: [
+      { pattern: /Trans\.\s*Date\s+Value\.?\s*Date\s+Reference\s+Debits\s+Credits\s+Balance/i, weight: 0.6 },
+      { pattern: /Originating\s*Branch/i, weight: 0.2 },
+      { pattern: /Guaranty Trust|GTBank|GTCO/i, weight: 0.3 },
+      { pattern: /This is a computer generated Email/i, weight: 0.2 },
+    ],
+  },
+  {
+    bank: BankType.UBA,
+    formats: ['pdf'],
+    patterns: [
+      { pattern: /TRANS DATE\s+VALUE DATE\s+NARRATION\s+CHQ\.?\s*NO\s+DEBIT\s+CREDIT\s+BALANCE/i, weight: 0.6 },
+      { pattern: /Africa's global bank/i, weight: 0.3 },
+      { pattern: /ubagroup\.com|Chat with Leo/i, weight: 0.3 },
+    ],
+  },
+  {
+    bank: BankType.Access,
+    formats: ['pdf'],
+    patterns: [
+      { pattern: /Posted\s+Date\s+Value\s+Date\s+Description\s+Debit\s+Credit\s+Balance/i, weight: 0.6 },
+      { pattern: /Access Bank|accessbankplc/i, weight: 0.3 },
+      { pattern: /\d{2}-[A-Z]{3}-\d{2}\s+\d{2}-[A-Z]{3}-\d{2}\s/, weight: 0.2 },
+    ],
+  },
+  {
+    bank: BankType.Wema,
+    formats: ['pdf'],
+    patterns: [
+      { pattern: /R e f e r e n c e/, weight: 0.4 },
+      { pattern: /Wema Bank|ALAT/, weight: 0.4 },
+      { pattern: /\d{2}-[A-Za-z]{3}-?\s*\d{4}\s+[A-Z]\d+\s/, weight: 0.1 },
+    ],
+  },
+  {
+    bank: BankType.PalmPay,
+    formats: ['pdf', 'excel', 'csv'],
+    patterns: [
+      { pattern: /Transaction Date\s*,?\s*Transaction Detail/i, weight: 0.4 },
+      { pattern: /PalmPay/i, weight: 0.4 },
+      { pattern: /\d{2}\/\d{2}\/\d{4}\s+\d{2}:\d{2}:\d{2}\s+(?:AM|PM)/i, weight: 0.2 },
+    ],
+  },
+  {
+    bank: BankType.Zenith,
+    formats: ['pdf'],
+    patterns: [
+      { pattern: /Period:\s*\d{2}\/\d{2}\/\d{4}\s+TO\s+\d{2}\/\d{2}\/\d{4}/i, weight: 0.4 },
+      { pattern: /Zenith Bank|zenithbank\.com/i, weight: 0.4 },
+      { pattern: /VALUE DATE/, weight: 0.1 },
+    ],
+  },
+  {
+    bank: BankType.FCMB,
+    formats: ['pdf'],
+    patterns: [
+      { pattern: /First City Monument|FCMB/, weight: 0.5 },
+      { pattern: /TXN\s*DATE\s+VAL\s*DATE/i, weight: 0.3 },
+      { pattern: /OPENING BALANCE/, weight: 0.1 },
+    ],
+  },
+  {
+    bank: BankType.FirstBank,
+    formats: ['pdf'],
+    patterns: [
+      {
+        pattern: /Trans\.?\s*Date\s+Reference\s+Transaction\s+Details\s+Value\s*Date\s+Withdrawals\s+Lodgements\s+Balance/i,
+        weight: 0.6,
+      },
+      { pattern: /First Bank of Nigeria|FirstBank|firstbanknigeria\.com/i, weight: 0.4 },
+    ],
+  },
+  {
+    bank: BankType.Fidelity,
+    formats: ['pdf'],
+    patterns: [
+      { pattern: /Transaction Date\s+Value Date\s+Transaction Details\s+Debit\s+Credit\s+Balance/i, weight: 0.6 },
+      { pattern: /Fidelity Bank|fidelitybank\.ng/i, weight: 0.4 },
+    ],
+  },
+  {
+    bank: BankType.StandardChartered,
+    formats: ['pdf'],
+    patterns: [
+      { pattern: /Date Description Deposit Withdrawal Balance/, weight: 0.6 },
+      { pattern: /BALANCE FROM PREVIOUS STATEMENT/, weight: 0.3 },
+      { pattern: /Standard Chartered/i, weight: 0.3 },
+    ],
+  },
+  {
+    bank: BankType.Sterling,
+    formats: ['pdf'],
+    patterns: [
+      { pattern: /Date\s+Reference\s+Narration\s+Money\s*In\s+Money\s*Out\s+Balance/i, weight: 0.6 },
+      { pattern: /Trans\s*Date\s+Narration\s+Value\s*Date\s+Debit\s+Credit\s+Balance/i, weight: 0.6 },
+      { pattern: /Sterling Bank|sterling\.ng/i, weight: 0.4 },
+    ],
+  },
+  {
+    bank: BankType.Kuda,
+    formats: ['excel', 'csv'],
+    patterns: [
+      { pattern: /Money In/i, weight: 0.15 },
+      { pattern: /Money Out/i, weight: 0.15 },
+      { pattern: /To\s*\/\s*From/i, weight: 0.3 },
+      { pattern: /Kuda/i, weight: 0.3 },
+      { pattern: /\d{2}\/\d{2}\/\d{2}\s+\d{2}:\d{2}:\d{2}/, weight: 0.1 },
+    ],
+  },
+  {
+    bank: BankType.Moniepoint,
+    formats: ['excel', 'csv'],
+    patterns: [
+      { pattern: /Date\s+Narration\s+Reference\s+Debit\s+Credit\s+Balance/i, weight: 0.5 },
+      { pattern: /Moniepoint/i, weight: 0.4 },
+      { pattern: /POS Settlement/i, weight: 0.2 },
+    ],
+  },
+  {
+    bank: BankType.OPay,
+    formats: ['excel'],
+    sheetNames: [{ pattern: /^Wallet Account Transactions$/i, weight: 0.8 }],
+    patterns: [
+      { pattern: /OPay/i, weight: 0.3 },
+      { pattern: /\d{1,2}\s+[A-Za-z]{3}\s+\d{4}\s+\d{2}:\d{2}:\d{2}/, weight: 0.1 },
+    ],
+  },
+];
+
+/**
+ * Work out the file format from its name.
+ * Returns null for files we can't read.
+ */
+export function getFileFormat(fileName: string): FileFormat | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.pdf')) return 'pdf';
+  if (lower.endsWith('.xlsx') || lower.endsWith('.xls')) return 'excel';
+  if (lower.endsWith('.csv')) return 'csv';
+  if (lower.endsWith('.ofx') || lower.endsWith('.qfx')) return 'ofx';
+  return null;
+}
+
+/**
+ * Score every known bank against the file's signatures.
+ * Returns candidates ranked by confidence, best match first. Banks that don't match at all are left out.
+ */
+export function detectBank(input: DetectionInput): BankCandidate[] {
+  const sample = input.text.slice(0, SAMPLE_LENGTH);
+  const candidates: BankCandidate[] = [];
+
+  for (const signature of SIGNATURES) {
+    if (!signature.formats.includes(input.format)) continue;
+
+    let score = 0;
+    for (const { pattern, weight } of signature.patterns) {
+      if (pattern.test(sample)) score += weight;
+    }
+    for (const { pattern, weight } of signature.sheetNames ?? []) {
+      if (input.sheetNames?.some((name) => pattern.test(name))) score += weight;
+    }
+
+    if (score > 0) {
+      candidates.push({ bank: signature.bank, confidence: Math.min(1, Math.round(score * 100) / 100) });
+    }
+  }
+
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Whether the chosen bank is a poor fit for the file given the detection results.
+ * Only flags a mismatch when another bank is a confident match and the chosen one is not.
+ */
+export function isBankMismatch(bank: BankType, candidates: BankCandidate[]): boolean {
+  const best = candidates[0];
+  if (!best || best.bank === bank || best.confidence < DETECTION_THRESHOLD) return false;
+
+  const chosen = candidates.find((c) => c.bank === bank);
+  return !chosen || chosen.confidence < DETECTION_THRESHOLD;
+}
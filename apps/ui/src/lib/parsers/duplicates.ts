@@ -0,0 +1,102 @@
+import type { Transaction } from '~/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How alike two descriptions must be to call rows duplicates when there's no balance to compare
+ */
+export const DESCRIPTION_THRESHOLD = 0.6;
+
+export interface DuplicateMatch {
+  incoming: Transaction;
+  existing: Transaction;
+  similarity: number;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Dice coefficient over character bigrams, ignoring case, spacing and punctuation.
+ * PDF line wrapping mostly moves spaces around, which this doesn't see.
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const left = normalize(a);
+  const right = normalize(b);
+
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+
+  let overlap = 0;
+  for (const [pair, count] of leftPairs) {
+    overlap += Math.min(count, rightPairs.get(pair) ?? 0);
+  }
+
+  return (2 * overlap) / (left.length - 1 + (right.length - 1));
+}
+
+/**
+ * Pair incoming rows with stored rows from the same bank that are probably the same transaction:
+ * same amount in the same currency, dates at most a day apart, no conflicting balance, and either a matching
+ * balance or a similar description. Rows already stored under the same ID are left out,
+ * the database skips those on its own. Each stored row is matched at most once.
+ */
+export function findLikelyDuplicates(incoming: Transaction[], existing: Transaction[]): DuplicateMatch[] {
+  const existingIds = new Set(existing.map((tx) => tx.id));
+  const candidates: (DuplicateMatch & { score: number })[] = [];
+
+  for (const tx of incoming) {
+    if (existingIds.has(tx.id)) continue;
+
+    const date = new Date(tx.date).getTime();
+
+    for (const other of existing) {
+      if (other.bankSource !== tx.bankSource || other.amount !== tx.amount) continue;
+      if (other.currency !== tx.currency) continue;
+      if (Math.abs(new Date(other.date).getTime() - date) > DAY_MS) continue;
+
+      const balance = tx.meta?.balanceAfter;
+      const otherBalance = other.meta?.balanceAfter;
+      const hasBalances = balance !== undefined && otherBalance !== undefined;
+      if (hasBalances && balance !== otherBalance) continue;
+
+      const similarity = descriptionSimilarity(tx.description, other.description);
+      if (!hasBalances && similarity < DESCRIPTION_THRESHOLD) continue;
+
+      candidates.push({
+        incoming: tx,
+        existing: other,
+        similarity,
+        score: similarity + (hasBalances ? 1 : 0),
+      });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const usedIncoming = new Set<Transaction>();
+  const usedExisting = new Set<Transaction>();
+  const matches: DuplicateMatch[] = [];
+
+  for (const { incoming: tx, existing: other, similarity } of candidates) {
+    if (usedIncoming.has(tx) || usedExisting.has(other)) continue;
+    usedIncoming.add(tx);
+    usedExisting.add(other);
+    matches.push({ incoming: tx, existing: other, similarity });
+  }
+
+  return matches.sort((a, b) => new Date(b.incoming.date).getTime() - new Date(a.incoming.date).getTime());
+}
@@ -90,16 +90,14 @@ export class FcmbParser extends BaseParser {
       }
     }
 
-    if (valDateStr) {
-      meta.sessionId = valDateStr;
-    }
-
     return this.createTransaction({
       date,
       amount,
       description: description || 'Transaction',
       reference: this.generateReference(date, description, 15),
       meta,
+      valueDate: this.parseDDMMMYYYY(valDateStr),
+      hasTime: false,
     });
   }
 
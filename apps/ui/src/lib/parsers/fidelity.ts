@@ -0,0 +1,249 @@
+import {
+  type RawRow,
+  type Transaction,
+  type TransactionMeta,
+  BankType,
+  TransactionType,
+} from '~/types';
+import { getMatchIndex } from '~/lib/utils';
+import { BaseParser, type ParserLogger, consoleLogger } from './base';
+
+export class FidelityParser extends BaseParser {
+  readonly bankName = 'Fidelity Bank';
+  protected readonly bankType = BankType.Fidelity;
+  protected readonly idPrefix = 'fidelity';
+
+  constructor(logger: ParserLogger = consoleLogger) {
+    super(logger);
+  }
+
+  /**
+   * Narrations that wrap onto extra lines end up after the amounts in the extracted text,
+   * so anything between the balance and the next date pair is appended to the narration.
+   */
+  static extractRowsFromPdfText(text: string): RawRow[] {
+    const rows: RawRow[] = [];
+
+    const cleaned = text
+      .replace(/Page \d+ of \d+/gi, ' ')
+      .replace(/Transaction Date\s+Value Date\s+Transaction Details\s+Debit\s+Credit\s+Balance/gi, ' ')
+      .replace(/Fidelity Bank Plc is licensed by the Central Bank of Nigeria[^.]*\./gi, ' ')
+      .replace(/Closing Balance[:\s]*-?[\d,]+\.\d{2}/gi, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const openingBalanceMatch = cleaned.match(/Opening Balance[:\s]*(-?[\d,]+\.\d{2})/i);
+    let prevBalance = openingBalanceMatch
+      ? parseFloat(openingBalanceMatch[1].replace(/,/g, ''))
+      : 0;
+
+    const datePattern = /(\d{2}-[A-Za-z]{3}-\d{4})\s+(\d{2}-[A-Za-z]{3}-\d{4})/g;
+    const dateMatches = [...cleaned.matchAll(datePattern)];
+
+    for (let i = 0; i < dateMatches.length; i++) {
+      const currentMatch = dateMatches[i];
+      const nextMatch = dateMatches[i + 1];
+
+      const startIdx = getMatchIndex(currentMatch) + currentMatch[0].length;
+      const endIdx = nextMatch ? getMatchIndex(nextMatch) : cleaned.length;
+
+      const transDate = currentMatch[1];
+      const valueDate = currentMatch[2];
+      const content = cleaned.slice(startIdx, endIdx).trim();
+
+      const amountsMatch = content.match(
+        /(\d{1,3}(?:,\d{3})*\.\d{2})\s+(-?\d{1,3}(?:,\d{3})*\.\d{2})(?=\s|$)/
+      );
+      if (!amountsMatch) continue;
+
+      const amountStr = amountsMatch[1];
+      const balanceStr = amountsMatch[2];
+      const amount = parseFloat(amountStr.replace(/,/g, ''));
+      const balance = parseFloat(balanceStr.replace(/,/g, ''));
+
+      const amountsIdx = getMatchIndex(amountsMatch);
+      const narration = [
+        content.slice(0, amountsIdx).trim(),
+        content.slice(amountsIdx + amountsMatch[0].length).trim(),
+      ]
+        .filter(Boolean)
+        .join(' ');
+
+      if (/^(opening balance|balance b\/f)/i.test(narration)) {
+        prevBalance = balance;
+        continue;
+      }
+
+      const creditDiff = Math.abs(prevBalance + amount - balance);
+      const debitDiff = Math.abs(prevBalance - amount - balance);
+      const isCredit = creditDiff < debitDiff;
+
+      rows.push([
+        transDate,
+        valueDate,
+        narration,
+        isCredit ? '' : amountStr,
+        isCredit ? amountStr : '',
+        balanceStr,
+      ]);
+
+      prevBalance = balance;
+    }
+
+    return rows;
+  }
+
+  parseTransaction(row: RawRow): Transaction | null {
+    if (!row || row.length < 6) return null;
+
+    const transDateStr = row[0]?.toString().trim() || '';
+    const valueDateStr = row[1]?.toString().trim() || '';
+    const narration = row[2]?.toString().trim() || '';
+    const debitStr = row[3]?.toString().trim() || '';
+    const creditStr = row[4]?.toString().trim() || '';
+    const balanceStr = row[5]?.toString().trim() || '';
+
+    const date = this.parseDDMMMYYYY(transDateStr);
+    if (!date) return null;
+
+    const amount = this.parseDebitCredit(debitStr, creditStr);
+    if (amount === null) return null;
+
+    const meta: TransactionMeta = {
+      type: this.inferTransactionType(narration),
+      narration,
+      ...this.extractCounterparty(narration),
+    };
+
+    if (balanceStr) {
+      const balance = this.parseAmountValue(balanceStr);
+      if (balance !== null) {
+        meta.balanceAfter = balance;
+      }
+    }
+
+    return this.createTransaction({
+      date,
+      amount,
+      description: narration || 'Transaction',
+      reference: this.generateReference(date, narration, 15),
+      meta,
+      valueDate: this.parseDDMMMYYYY(valueDateStr),
+      hasTime: false,
+    });
+  }
+
+  private extractCounterparty(narration: string): Partial<TransactionMeta> {
+    const nipMatch = narration.match(/^NIP\s+(?:FRM|FROM|TO)\s+([^/]+)\/([^/]+)(?:\/(.*))?$/i);
+    if (nipMatch) {
+      return {
+        counterpartyName: nipMatch[1].trim(),
+        counterpartyBank: this.resolveBankName(nipMatch[2].trim()),
+        ...(nipMatch[3]?.trim() && { narration: nipMatch[3].trim() }),
+      };
+    }
+
+    const onlineTransferMatch = narration.match(
+      /(?:FIDELITY ONLINE|FIDELITY MOBILE|USSD)\s+TRF\s+(?:TO|FRM|FROM)\s+(\d{10})\s+(.+)/i
+    );
+    if (onlineTransferMatch) {
+      return {
+        counterpartyAccount: onlineTransferMatch[1],
+        counterpartyName: onlineTransferMatch[2].trim(),
+        counterpartyBank: 'Fidelity Bank',
+      };
+    }
+
+    const posMatch = narration.match(/POS PURCHASE\s+@\s+(.+?)(?:\s+NG)?$/i);
+    if (posMatch) {
+      return { counterpartyName: posMatch[1].trim() };
+    }
+
+    const atmMatch = narration.match(/ATM CASH WDL\s+@\s+(.+)/i);
+    if (atmMatch) {
+      return { counterpartyName: atmMatch[1].trim() };
+    }
+
+    const airtimeMatch = narration.match(/AIRTIME PURCHASE\s+(\d{11})(?:\s+(\w+))?/i);
+    if (airtimeMatch) {
+      return {
+        ...(airtimeMatch[2] && { counterpartyName: airtimeMatch[2].trim() }),
+        narration: `Airtime for ${airtimeMatch[1]}`,
+      };
+    }
+
+    return {};
+  }
+
+  private resolveBankName(code: string): string {
+    const bankNames: Record<string, string> = {
+      OPAY: 'OPay',
+      MONIEPOINT: 'Moniepoint',
+      PALMPAY: 'PalmPay',
+      KUDA: 'Kuda',
+      WEMA: 'Wema Bank',
+      UBA: 'UBA',
+      GTB: 'GTB',
+      GTBANK: 'GTB',
+      ACCESS: 'Access Bank',
+      ZENITH: 'Zenith Bank',
+      FCMB: 'FCMB',
+      FBN: 'First Bank',
+      FIRSTBANK: 'First Bank',
+      STERLING: 'Sterling Bank',
+      FIDELITY: 'Fidelity Bank',
+    };
+    return bankNames[code.toUpperCase()] || code;
+  }
+
+  private inferTransactionType(narration: string): TransactionType {
+    const lower = narration.toLowerCase();
+
+    if (lower.includes('reversal') || lower.startsWith('rvsl')) {
+      return TransactionType.Reversal;
+    }
+
+    if (
+      lower.includes('nip charge') ||
+      lower.includes('sms alert') ||
+      lower.includes('stamp duty') ||
+      lower.includes('maintenance fee') ||
+      lower.includes('emtl') ||
+      /\bvat\b/.test(lower)
+    ) {
+      return TransactionType.BankCharge;
+    }
+
+    if (lower.includes('interest')) {
+      return TransactionType.Interest;
+    }
+
+    if (lower.includes('airtime')) {
+      return TransactionType.Airtime;
+    }
+
+    if (lower.startsWith('nip ') || lower.includes(' trf ')) {
+      return TransactionType.Transfer;
+    }
+
+    if (lower.includes('pos purchase') || lower.includes('web purchase')) {
+      return TransactionType.CardPayment;
+    }
+
+    if (lower.includes('atm cash wdl')) {
+      return TransactionType.AtmWithdrawal;
+    }
+
+    if (
+      lower.includes('bill payment') ||
+      lower.includes('dstv') ||
+      lower.includes('gotv') ||
+      lower.includes('ikedc') ||
+      lower.includes('ekedc')
+    ) {
+      return TransactionType.BillPayment;
+    }
+
+    return TransactionType.Other;
+  }
+}
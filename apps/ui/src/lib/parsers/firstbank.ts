@@ -0,0 +1,250 @@
+import {
+  type RawRow,
+  type Transaction,
+  type TransactionMeta,
+  BankType,
+  TransactionType,
+} from '~/types';
+import { BaseParser, type ParserLogger, consoleLogger } from './base';
+
+export class FirstBankParser extends BaseParser {
+  readonly bankName = 'First Bank';
+  protected readonly bankType = BankType.FirstBank;
+  protected readonly idPrefix = 'firstbank';
+
+  constructor(logger: ParserLogger = consoleLogger) {
+    super(logger);
+  }
+
+  static extractRowsFromPdfText(text: string): RawRow[] {
+    const rows: RawRow[] = [];
+
+    const cleaned = text
+      .replace(/Page \d+ of \d+/gi, ' ')
+      .replace(
+        /Trans\.?\s*Date\s+Reference\s+Transaction\s+Details\s+Value\s*Date\s+Withdrawals\s+Lodgements\s+Balance/gi,
+        ' '
+      )
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const openingBalanceMatch = cleaned.match(/Opening Balance[:\s]*([\d,]+\.\d{2})/i);
+    let prevBalance = openingBalanceMatch
+      ? parseFloat(openingBalanceMatch[1].replace(/,/g, ''))
+      : 0;
+
+    const datePattern = '\\d{2}-[A-Za-z]{3}-\\d{2,4}';
+    const amountPattern = '\\d{1,3}(?:,\\d{3})*\\.\\d{2}';
+
+    const txPattern = new RegExp(
+      `(${datePattern})\\s+(\\S+)\\s+(.+?)\\s+(${datePattern})\\s+(${amountPattern})\\s+(-?${amountPattern})`,
+      'g'
+    );
+
+    let match;
+    while ((match = txPattern.exec(cleaned)) !== null) {
+      const [, transDate, reference, narration, valueDate, amountStr, balanceStr] = match;
+
+      const amount = parseFloat(amountStr.replace(/,/g, ''));
+      const balance = parseFloat(balanceStr.replace(/,/g, ''));
+
+      if (/opening balance|closing balance|balance b\/f/i.test(`${reference} ${narration}`)) {
+        prevBalance = balance;
+        continue;
+      }
+
+      const creditDiff = Math.abs(prevBalance + amount - balance);
+      const debitDiff = Math.abs(prevBalance - amount - balance);
+      const isCredit = creditDiff < debitDiff;
+
+      rows.push([
+        transDate,
+        reference,
+        narration.trim(),
+        valueDate,
+        isCredit ? '' : amountStr,
+        isCredit ? amountStr : '',
+        balanceStr,
+      ]);
+
+      prevBalance = balance;
+    }
+
+    return rows;
+  }
+
+  parseTransaction(row: RawRow): Transaction | null {
+    if (!row || row.length < 7) return null;
+
+    const transDateStr = row[0]?.toString().trim() || '';
+    const reference = row[1]?.toString().trim() || '';
+    const narration = row[2]?.toString().trim() || '';
+    const valueDateStr = row[3]?.toString().trim() || '';
+    const debitStr = row[4]?.toString().trim() || '';
+    const creditStr = row[5]?.toString().trim() || '';
+    const balanceStr = row[6]?.toString().trim() || '';
+
+    const date = this.parseDate(transDateStr);
+    if (!date) return null;
+
+    const amount = this.parseDebitCredit(debitStr, creditStr);
+    if (amount === null) return null;
+
+    const meta: TransactionMeta = {
+      type: this.inferTransactionType(narration),
+      narration,
+      ...this.extractCounterparty(narration),
+    };
+
+    if (balanceStr) {
+      const balance = this.parseAmountValue(balanceStr);
+      if (balance !== null) {
+        meta.balanceAfter = balance;
+      }
+    }
+
+    return this.createTransaction({
+      date,
+      amount,
+      description: narration || 'Transaction',
+      reference: reference || this.generateReference(date, narration, 15),
+      meta,
+      valueDate: this.parseDate(valueDateStr),
+      hasTime: false,
+    });
+  }
+
+  private parseDate(dateStr: string): Date | null {
+    const match = dateStr.match(/(\d{2})-([A-Za-z]{3})-(\d{2,4})/);
+    if (!match) return null;
+
+    const [, day, monthStr, year] = match;
+    const month = this.parseMonthName(monthStr);
+    if (month === undefined) return null;
+
+    const fullYear = year.length === 2 ? 2000 + parseInt(year, 10) : parseInt(year, 10);
+    return this.statementDate(fullYear, month, parseInt(day, 10));
+  }
+
+  private extractCounterparty(narration: string): Partial<TransactionMeta> {
+    const nipMatch = narration.match(/^NIP\/([^/]+)\/([^/]+)\/?(.*)$/i);
+    if (nipMatch) {
+      return {
+        counterpartyBank: this.resolveBankName(nipMatch[1].trim()),
+        counterpartyName: nipMatch[2].trim(),
+        ...(nipMatch[3]?.trim() && { narration: nipMatch[3].trim() }),
+      };
+    }
+
+    const appTransferMatch = narration.match(
+      /(?:MOB\.?APP|FIRSTMOBILE|FBNMOBILE|USSD)\s+TRF\s+(?:TO|FRM|FROM)\s+([A-Z0-9]+)\/(.+)/i
+    );
+    if (appTransferMatch) {
+      return {
+        counterpartyBank: this.resolveBankName(appTransferMatch[1].trim()),
+        counterpartyName: appTransferMatch[2].trim(),
+      };
+    }
+
+    const accountTransferMatch = narration.match(/TRF\s+(?:TO|FROM|FRM)\s+(\d{10})\s+(.+)/i);
+    if (accountTransferMatch) {
+      return {
+        counterpartyAccount: accountTransferMatch[1],
+        counterpartyName: accountTransferMatch[2].trim(),
+      };
+    }
+
+    const posMatch = narration.match(/POS\/WEB\s+PMT\s+@\s+(.+)/i);
+    if (posMatch) {
+      return { counterpartyName: posMatch[1].trim() };
+    }
+
+    const atmMatch = narration.match(/ATM\s+WDL\s+@\s+\d+\s+(.+)/i);
+    if (atmMatch) {
+      return { counterpartyName: atmMatch[1].trim() };
+    }
+
+    const airtimeMatch = narration.match(/AIRTIME\/(\d{11})(?:\/(\w+))?/i);
+    if (airtimeMatch) {
+      return {
+        ...(airtimeMatch[2] && { counterpartyName: airtimeMatch[2].trim() }),
+        narration: `Airtime for ${airtimeMatch[1]}`,
+      };
+    }
+
+    return {};
+  }
+
+  private resolveBankName(code: string): string {
+    const bankNames: Record<string, string> = {
+      OPAY: 'OPay',
+      MONIEPOINT: 'Moniepoint',
+      MONIEMFB: 'Moniepoint',
+      PALMPAY: 'PalmPay',
+      KUDA: 'Kuda',
+      WEMA: 'Wema Bank',
+      UBA: 'UBA',
+      GTB: 'GTB',
+      GTBANK: 'GTB',
+      ACCESS: 'Access Bank',
+      ZENITH: 'Zenith Bank',
+      FCMB: 'FCMB',
+      FIDELITY: 'Fidelity Bank',
+      STERLING: 'Sterling Bank',
+      FBN: 'First Bank',
+      FIRSTBANK: 'First Bank',
+    };
+    return bankNames[code.toUpperCase()] || code;
+  }
+
+  private inferTransactionType(narration: string): TransactionType {
+    const lower = narration.toLowerCase();
+
+    if (lower.includes('reversal') || lower.startsWith('rvsl')) {
+      return TransactionType.Reversal;
+    }
+
+    if (lower.includes('airtime') || lower.includes('recharge')) {
+      return TransactionType.Airtime;
+    }
+
+    if (
+      lower.includes('sms charge') ||
+      lower.includes('stamp duty') ||
+      lower.includes('money transfer levy') ||
+      lower.includes('maintenance fee') ||
+      /\bvat\b/.test(lower) ||
+      /\bcomm\b/.test(lower)
+    ) {
+      return TransactionType.BankCharge;
+    }
+
+    if (lower.startsWith('nip/') || lower.includes(' trf ') || lower.startsWith('trf ')) {
+      return TransactionType.Transfer;
+    }
+
+    if (lower.includes('pos/web pmt')) {
+      return TransactionType.CardPayment;
+    }
+
+    if (lower.includes('atm wdl')) {
+      return TransactionType.AtmWithdrawal;
+    }
+
+    if (
+      lower.includes('bills pymt') ||
+      lower.includes('dstv') ||
+      lower.includes('gotv') ||
+      lower.includes('ikedc') ||
+      lower.includes('ekedc')
+    ) {
+      return TransactionType.BillPayment;
+    }
+
+    if (lower.includes('interest')) {
+      return TransactionType.Interest;
+    }
+
+    return TransactionType.Other;
+  }
+}
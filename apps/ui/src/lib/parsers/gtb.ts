@@ -7,6 +7,7 @@ import {
 } from '~/types';
 import { getMatchIndex } from '~/lib/utils';
 import { BaseParser, type ParserLogger, consoleLogger } from './base';
+import type { PdfLayout } from './processors/layout';
 
 const DESCRIPTION_STARTERS = [
   'NIBSS',
@@ -29,6 +30,25 @@ export class GtbParser extends BaseParser {
   protected readonly bankType = BankType.GTB;
   protected readonly idPrefix = 'gtb';
 
+  /**
+   * Debits and credits get their own columns, so there's no guessing from the balance.
+   * Remarks go before the branch to line up with the rows extractRowsFromPdfText builds.
+   */
+  readonly pdfLayout: PdfLayout = {
+    columns: [
+      /Trans\.?(?:\s*Date)?/i,
+      /Value\.?(?:\s*Date)?/i,
+      /Reference/i,
+      /Debits/i,
+      /Credits/i,
+      /Balance/i,
+      /Remarks/i,
+      /Originating(?:\s*Branch)?/i,
+    ],
+    rowStart: { column: 0, pattern: /^\d{2}-[A-Za-z]{3}-\d{4}$/ },
+    end: /computer generated/i,
+  };
+
   constructor(logger: ParserLogger = consoleLogger) {
     super(logger);
   }
@@ -186,16 +206,14 @@ export class GtbParser extends BaseParser {
       }
     }
 
-    if (valueDateStr) {
-      meta.sessionId = valueDateStr;
-    }
-
     return this.createTransaction({
       date,
       amount,
       description: remarks || 'Transaction',
       reference: this.generateReference(date, remarks, 15),
       meta,
+      valueDate: this.parseDDMMMYYYY(valueDateStr),
+      hasTime: false,
     });
   }
 
@@ -0,0 +1,61 @@
+import { DEFAULT_CURRENCY } from '~/lib/constants';
+import type { Currency, Transaction } from '~/types';
+
+/**
+ * cyrb53, a fast 53-bit string hash
+ */
+function cyrb53(input: string, seed: number): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+/**
+ * 106-bit hash as 28 hex characters: two cyrb53 passes with different seeds.
+ * Synchronous, so parsers can use it per row.
+ */
+export function stableHash(input: string): string {
+  return [0, 0x9e3779b9]
+    .map((seed) => cyrb53(input, seed).toString(16).padStart(14, '0'))
+    .join('');
+}
+
+/**
+ * The fields that identify a transaction, joined with a separator that can't appear in them
+ */
+export function transactionKey(isoDate: string, amount: number, ...parts: (string | undefined)[]): string {
+  return [isoDate, String(amount), ...parts.filter(Boolean)].join('\u001f');
+}
+
+/**
+ * A transaction's currency as an ID part. Naira rows leave it out, so their IDs are the same
+ * as before currencies were told apart.
+ */
+export function currencyKey(currency: Currency): string | undefined {
+  return currency === DEFAULT_CURRENCY ? undefined : currency;
+}
+
+/**
+ * Give repeated identical rows in one statement their own IDs.
+ * The first occurrence keeps the plain ID and later ones get -1, -2, ...
+ * Occurrences are counted in statement order, so re-importing the same or an
+ * overlapping statement produces the same IDs and the rows are recognised as already imported.
+ */
+export function withOccurrenceIds(transactions: Transaction[]): Transaction[] {
+  const seen = new Map<string, number>();
+
+  return transactions.map((tx) => {
+    const occurrence = seen.get(tx.id) ?? 0;
+    seen.set(tx.id, occurrence + 1);
+    return occurrence === 0 ? tx : { ...tx, id: `${tx.id}-${occurrence}` };
+  });
+}
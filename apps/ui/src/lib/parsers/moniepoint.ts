@@ -0,0 +1,180 @@
+import {
+  type RawRow,
+  type Transaction,
+  type TransactionMeta,
+  BankType,
+  TransactionType,
+} from '~/types';
+import { BaseParser, type ParserLogger, consoleLogger } from './base';
+
+export class MoniepointParser extends BaseParser {
+  readonly bankName = 'Moniepoint';
+  protected readonly bankType = BankType.Moniepoint;
+  protected readonly idPrefix = 'moniepoint';
+
+  constructor(logger: ParserLogger = consoleLogger) {
+    super(logger);
+  }
+
+  parseTransaction(row: RawRow): Transaction | null {
+    if (!row || row.length < 5) return null;
+
+    // [Date, Narration, Reference, Debit, Credit, Balance]
+    const dateTime = row[0]?.toString().trim() || '';
+    const narration = row[1]?.toString().trim() || '';
+    const reference = row[2]?.toString().trim() || '';
+    const debit = row[3]?.toString().trim();
+    const credit = row[4]?.toString().trim();
+    const balanceStr = row[5]?.toString().trim();
+
+    // Header and summary rows fail here
+    const date = this.parseDateTime(dateTime);
+    if (!date) return null;
+
+    const amount = this.parseDebitCredit(debit, credit);
+    if (amount === null) return null;
+
+    const settlement = this.parsePosSettlement(narration);
+
+    const meta: TransactionMeta = settlement ?? {
+      type: this.inferTransactionType(narration),
+      narration,
+      ...this.extractCounterparty(narration),
+    };
+
+    if (balanceStr) {
+      const balance = this.parseAmountValue(balanceStr);
+      if (balance !== null) {
+        meta.balanceAfter = balance;
+      }
+    }
+
+    return this.createTransaction({
+      date,
+      amount,
+      description: narration || 'Transaction',
+      reference: reference || this.generateReference(date, narration),
+      meta,
+      hasTime: /\d:\d{2}/.test(dateTime),
+    });
+  }
+
+  /**
+   * Parse "15/11/2025 14:32:10" or "2025-11-15 14:32:10". Seconds are optional.
+   */
+  private parseDateTime(dateStr: string): Date | null {
+    const dmy = dateStr.match(/^(\d{2})\/(\d{2})\/(\d{4})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+    const ymd = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+
+    let parts: string[];
+    if (dmy) {
+      const [, day, month, year, hour, minute, second] = dmy;
+      parts = [year, month, day, hour, minute, second];
+    } else if (ymd) {
+      const [, year, month, day, hour, minute, second] = ymd;
+      parts = [year, month, day, hour, minute, second];
+    } else {
+      return null;
+    }
+
+    const [year, month, day, hour, minute, second] = parts.map((p) => parseInt(p || '0', 10));
+    return this.statementDate(year, month - 1, day, hour, minute, second);
+  }
+
+  /**
+   * Business accounts receive card sales as one settlement credit per terminal,
+   * e.g. "POS Settlement - TID 2MPT0001 (12 txns)".
+   */
+  private parsePosSettlement(narration: string): TransactionMeta | null {
+    const match = narration.match(/POS\s+Settlement\s*[-:]?\s*TID:?\s*([A-Z0-9]+)(?:\s*\((\d+)\s*txns?\))?/i);
+    if (!match) return null;
+
+    const [, terminalId, count] = match;
+
+    return {
+      type: TransactionType.CardPayment,
+      rawCategory: 'POS Settlement',
+      counterpartyName: `POS terminal ${terminalId}`,
+      narration: count
+        ? `POS settlement for terminal ${terminalId}, ${count} transactions`
+        : `POS settlement for terminal ${terminalId}`,
+    };
+  }
+
+  private extractCounterparty(narration: string): Partial<TransactionMeta> {
+    // "Transfer from JOHN DOE (GTBank) - lunch"
+    const transferMatch = narration.match(/^Transfer\s+(?:from|to)\s+(.+?)(?:\s+\(([^)]+)\))?(?:\s+-\s+(.+))?$/i);
+    if (transferMatch) {
+      const [, name, bank, remark] = transferMatch;
+      return {
+        counterpartyName: name.trim(),
+        ...(bank && { counterpartyBank: bank.trim() }),
+        ...(remark && { narration: remark.trim() }),
+      };
+    }
+
+    const cardMatch = narration.match(/^Card\s+purchase\s+-\s+(.+)$/i);
+    if (cardMatch) {
+      return { counterpartyName: cardMatch[1].trim() };
+    }
+
+    const airtimeMatch = narration.match(/Airtime\s+purchase\s+-\s+(\d{11})(?:\s+\(([^)]+)\))?/i);
+    if (airtimeMatch) {
+      return {
+        ...(airtimeMatch[2] && { counterpartyName: airtimeMatch[2].trim() }),
+        narration: `Airtime for ${airtimeMatch[1]}`,
+      };
+    }
+
+    const billMatch = narration.match(/^(?:Bill\s+payment|Electricity|Cable\s+TV)\s+-\s+(.+)$/i);
+    if (billMatch) {
+      return { counterpartyName: billMatch[1].trim() };
+    }
+
+    return {};
+  }
+
+  private inferTransactionType(narration: string): TransactionType {
+    const lower = narration.toLowerCase();
+
+    if (lower.includes('reversal') || lower.includes('refund')) {
+      return TransactionType.Reversal;
+    }
+
+    if (
+      lower.includes('fee') ||
+      lower.includes('charge') ||
+      lower.includes('stamp duty') ||
+      lower.includes('emtl') ||
+      /\bvat\b/.test(lower)
+    ) {
+      return TransactionType.BankCharge;
+    }
+
+    if (lower.includes('airtime') || lower.includes('data bundle')) {
+      return TransactionType.Airtime;
+    }
+
+    if (lower.startsWith('bill payment') || lower.startsWith('electricity') || lower.startsWith('cable tv')) {
+      return TransactionType.BillPayment;
+    }
+
+    if (lower.startsWith('card purchase') || lower.includes('pos purchase')) {
+      return TransactionType.CardPayment;
+    }
+
+    if (lower.includes('cash withdrawal') || lower.includes('atm')) {
+      return TransactionType.AtmWithdrawal;
+    }
+
+    if (lower.includes('interest')) {
+      return TransactionType.Interest;
+    }
+
+    if (lower.startsWith('transfer')) {
+      return TransactionType.Transfer;
+    }
+
+    return TransactionType.Other;
+  }
+}
@@ -0,0 +1,113 @@
+import {
+  type RawRow,
+  type Transaction,
+  type TransactionMeta,
+  BankType,
+  TransactionType,
+} from '~/types';
+import { BaseParser, type ParserLogger, consoleLogger } from './base';
+
+const TRNTYPE_MAP: Record<string, TransactionType> = {
+  ATM: TransactionType.AtmWithdrawal,
+  POS: TransactionType.CardPayment,
+  FEE: TransactionType.BankCharge,
+  SRVCHG: TransactionType.BankCharge,
+  INT: TransactionType.Interest,
+  DIV: TransactionType.Interest,
+  XFER: TransactionType.Transfer,
+  DIRECTDEP: TransactionType.Transfer,
+  DIRECTDEBIT: TransactionType.BillPayment,
+  REPEATPMT: TransactionType.BillPayment,
+};
+
+/**
+ * OFX is bank-agnostic, so the parser takes the bank the file belongs to.
+ * Files from banks we don't know are imported as custom.
+ */
+export class OfxParser extends BaseParser {
+  readonly bankName = 'OFX';
+  protected readonly bankType: BankType;
+  protected readonly idPrefix = 'ofx';
+
+  constructor(bankType: BankType = BankType.Custom, logger: ParserLogger = consoleLogger) {
+    super(logger);
+    this.bankType = bankType;
+  }
+
+  parseTransaction(row: RawRow): Transaction | null {
+    if (!row || row.length < 2) return null;
+
+    // [DTPOSTED, TRNAMT, FITID, NAME, MEMO, TRNTYPE, balanceAfter]
+    const posted = row[0]?.toString().trim() || '';
+    const amountStr = row[1]?.toString().trim() || '';
+    const fitId = row[2]?.toString().trim() || '';
+    const name = row[3]?.toString().trim() || '';
+    const memo = row[4]?.toString().trim() || '';
+    const trnType = row[5]?.toString().trim().toUpperCase() || '';
+    const balanceStr = row[6]?.toString().trim();
+
+    const date = this.parseOfxDate(posted);
+    if (!date) return null;
+
+    const amount = this.parseAmountValue(amountStr);
+    if (amount === null) return null;
+
+    const description = name || memo || 'Transaction';
+
+    const meta: TransactionMeta = {
+      type: TRNTYPE_MAP[trnType] ?? this.inferBaseTransactionType(`${name} ${memo}`),
+      narration: memo || name,
+      ...(trnType && { rawCategory: trnType }),
+      ...(name && { counterpartyName: name }),
+    };
+
+    if (balanceStr) {
+      const balance = this.parseAmountValue(balanceStr);
+      if (balance !== null) {
+        meta.balanceAfter = balance;
+      }
+    }
+
+    return this.createTransaction({
+      date,
+      amount,
+      description,
+      reference: fitId || this.generateReference(date, description, 15),
+      meta,
+      hasTime: this.hasOfxTime(posted),
+    });
+  }
+
+  /**
+   * Exporters without times often pad dates with a midnight, which isn't a real time
+   */
+  private hasOfxTime(dateStr: string): boolean {
+    const time = dateStr.match(/^\d{8}(\d{4,6})/)?.[1];
+    return time !== undefined && !/^0+$/.test(time);
+  }
+
+  /**
+   * Parse OFX dates: YYYYMMDD[HHMMSS[.XXX]][[+-]offset[:TZ]].
+   * Times without an offset are GMT per the spec.
+   */
+  private parseOfxDate(dateStr: string): Date | null {
+    const match = dateStr.match(
+      /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?(?:\.\d+)?)?(?:\[([+-]?\d+(?:\.\d+)?)(?::[^\]]*)?\])?/
+    );
+    if (!match) return null;
+
+    const [, year, month, day, hour = '0', minute = '0', second = '0', offset = '0'] = match;
+
+    const utc = Date.UTC(
+      parseInt(year, 10),
+      parseInt(month, 10) - 1,
+      parseInt(day, 10),
+      parseInt(hour, 10),
+      parseInt(minute, 10),
+      parseInt(second, 10)
+    );
+    const date = new Date(utc - parseFloat(offset) * 60 * 60 * 1000);
+
+    return isNaN(date.getTime()) ? null : date;
+  }
+}
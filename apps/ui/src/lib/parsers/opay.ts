@@ -1,157 +1,50 @@
-import {
-  type RawRow,
-  type Transaction,
-  type TransactionMeta,
-  BankType,
-  TransactionType,
-} from '~/types';
-import { BaseParser, type ParserLogger, consoleLogger } from './base';
-
-const OWEALTH_PATTERNS = [
-  'owealth withdrawal',
-  'auto-save to owealth',
-];
-
-export class OPayParser extends BaseParser {
-  readonly bankName = 'OPay';
-  protected readonly bankType = BankType.OPay;
-  protected readonly idPrefix = 'opay';
-
-  constructor(logger: ParserLogger = consoleLogger) {
-    super(logger);
-  }
-
-  parseTransaction(row: RawRow): Transaction | null {
-    if (!row || row.length < 5) return null;
-
-    // [DateTime, Date, Description, Debit, Credit, Balance, Channel, Reference]
-    const dateTime = row[0]?.toString().trim() || '';
-    const description = row[2]?.toString().trim() || '';
-    const debit = row[3]?.toString().trim();
-    const credit = row[4]?.toString().trim();
-    const reference = row[7]?.toString().trim() || '';
-
-    if (this.shouldSkipTransaction(description)) return null;
-
-    const date = this.parseDateTime(dateTime);
-    if (!date) return null;
-
-    const amount = this.parseAmount(debit, credit);
-    if (amount === null) return null;
-
-    const txDescription = description || 'Transaction';
-    const counterpartyInfo = this.extractCounterparty(description);
-
-    const meta: TransactionMeta = {
-      type: this.inferTransactionType(description),
-      narration: description,
-      ...counterpartyInfo,
-    };
-
-    return this.createTransaction({
-      date,
-      amount,
-      description: txDescription,
-      reference: reference || this.generateReference(date, description),
-      meta,
-    });
-  }
-
-  private shouldSkipTransaction(description: string): boolean {
-    const lower = description.toLowerCase();
-    return OWEALTH_PATTERNS.some((pattern) => lower.includes(pattern));
-  }
-
-  private parseDateTime(dateStr: string): Date | null {
-    // "29 Nov 2025 08:12:51"
-    const match = dateStr.match(
-      /(\d{1,2})\s+([A-Za-z]{3})\s+(\d{4})\s+(\d{2}):(\d{2}):(\d{2})/
-    );
-    if (!match) return null;
-
-    const [, day, monthStr, year, hour, minute, second] = match;
-    const month = this.parseMonthName(monthStr);
-    if (month === undefined) return null;
-
-    const date = new Date(
-      parseInt(year, 10),
-      month,
-      parseInt(day, 10),
-      parseInt(hour, 10),
-      parseInt(minute, 10),
-      parseInt(second, 10)
-    );
-
-    return isNaN(date.getTime()) ? null : date;
-  }
-
-  private parseAmount(debit?: string, credit?: string): number | null {
-    // Debit = outflow (negative), Credit = inflow (positive), "--" = no value
-    const hasDebit = debit && debit !== '--' && debit.trim() !== '';
-    const hasCredit = credit && credit !== '--' && credit.trim() !== '';
-
-    if (hasDebit) {
-      const amount = this.parseAmountValue(debit);
-      return amount !== null ? -amount : null;
-    }
-
-    if (hasCredit) {
-      return this.parseAmountValue(credit);
-    }
-
-    return null;
-  }
-
-  private extractCounterparty(description: string): Partial<TransactionMeta> {
+import { BankType, TransactionType } from '~/types';
+import { type ParserLogger, consoleLogger } from './base';
+import { type BankDefinition, DefinitionParser } from './definition';
+
+/**
+ * OPay export: [DateTime, Date, Description, Debit, Credit, Balance, Channel, Reference]
+ */
+export const OPAY: BankDefinition = {
+  bankType: BankType.OPay,
+  bankName: 'OPay',
+  idPrefix: 'opay',
+  minColumns: 5,
+  columns: {
+    date: 0,
+    description: 2,
+    debit: 3,
+    credit: 4,
+    balance: 5,
+    reference: 7,
+  },
+  // "29 Nov 2025 08:12:51"
+  dateFormat: ['D MMM YYYY HH:mm:ss', 'DD MMM YYYY HH:mm:ss'],
+  amountStyle: 'split',
+  // Money moved between the wallet and OWealth savings
+  skip: [/owealth withdrawal/i, /auto-save to owealth/i],
+  counterparty: [
     // "Transfer to/from NAME | BANK | ACCOUNT | NARRATION"
-    const transferMatch = description.match(
-      /Transfer\s+(?:to|from)\s+([^|]+)\s*\|\s*([^|]+)\s*\|\s*([^|]+)(?:\s*\|\s*(.+))?/i
-    );
-
-    if (transferMatch) {
-      const [, name, bank, account] = transferMatch;
-      return {
-        counterpartyName: name?.trim(),
-        counterpartyBank: bank?.trim(),
-        counterpartyAccount: account?.trim(),
-      };
-    }
-
+    {
+      field: 'description',
+      pattern: /Transfer\s+(?:to|from)\s+(?<name>[^|]+)\s*\|\s*(?<bank>[^|]+)\s*\|\s*(?<account>[^|]+)/i,
+    },
     // "Third-Party Merchant Order | MERCHANT_NAME"
-    const merchantMatch = description.match(/Third-Party Merchant Order\s*\|\s*(.+)/i);
-    if (merchantMatch) {
-      return { counterpartyName: merchantMatch[1]?.trim() };
-    }
-
+    { field: 'description', pattern: /Third-Party Merchant Order\s*\|\s*(?<name>.+)/i },
     // "Airtime | PHONE | CARRIER"
-    const airtimeMatch = description.match(/Airtime\s*\|\s*([^|]+)\s*\|\s*(.+)/i);
-    if (airtimeMatch) {
-      const carrier = airtimeMatch[2]?.trim();
-      return { counterpartyName: carrier };
-    }
-
-    return {};
-  }
-
-  private inferTransactionType(description: string): TransactionType {
-    const lower = description.toLowerCase();
-
-    if (lower.includes('transfer to') || lower.includes('transfer from')) {
-      return TransactionType.Transfer;
-    }
-    if (lower.startsWith('airtime')) {
-      return TransactionType.Airtime;
-    }
-    if (lower.includes('electronic money transfer levy') || lower.includes('levy') || lower.includes('charge') || lower.includes('fee')) {
-      return TransactionType.BankCharge;
-    }
-    if (lower.includes('third-party merchant order')) {
-      return TransactionType.BillPayment;
-    }
-    if (lower.includes('reversal') || lower.includes('refund')) {
-      return TransactionType.Reversal;
-    }
-
-    return TransactionType.Other;
+    { field: 'description', pattern: /Airtime\s*\|\s*[^|]+\s*\|\s*(?<name>.+)/i },
+  ],
+  types: [
+    { type: TransactionType.Transfer, pattern: /transfer (?:to|from)/i },
+    { type: TransactionType.Airtime, pattern: /^airtime/i },
+    { type: TransactionType.BankCharge, pattern: /levy|charge|fee/i },
+    { type: TransactionType.BillPayment, pattern: /third-party merchant order/i },
+    { type: TransactionType.Reversal, pattern: /reversal|refund/i },
+  ],
+};
+
+export class OPayParser extends DefinitionParser {
+  constructor(logger: ParserLogger = consoleLogger) {
+    super(OPAY, logger);
   }
 }
@@ -132,6 +132,8 @@ export class PalmPayParser extends BaseParser {
       description: txDescription,
       reference: transactionId || this.generateReference(date, description),
       meta,
+      // Both layouts only match with a time of day
+      hasTime: true,
     });
   }
 
@@ -199,7 +201,7 @@ export class PalmPayParser extends BaseParser {
       hour = 0;
     }
 
-    const date = new Date(
+    return this.statementDate(
       parseInt(year, 10),
       parseInt(month, 10) - 1,
       parseInt(day, 10),
@@ -207,8 +209,6 @@ export class PalmPayParser extends BaseParser {
       parseInt(minute, 10),
       parseInt(second, 10)
     );
-
-    return isNaN(date.getTime()) ? null : date;
   }
 
   private parseSignedAmount(amountStr: string): number | null {
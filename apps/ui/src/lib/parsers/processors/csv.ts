@@ -1,34 +1,202 @@
 import type { RawRow } from '~/types';
 
-export function extractRowsFromCsv(buffer: ArrayBuffer): RawRow[] {
-  const text = new TextDecoder().decode(buffer);
-  const lines = text.split(/\r?\n/);
-  
-  return lines
-    .filter((line) => line.trim())
-    .map((line) => parseCsvLine(line));
+const DELIMITERS = [',', ';', '\t', '|'] as const;
+
+const CHUNK_SIZE = 64 * 1024;
+const SAMPLE_RECORDS = 20;
+
+export interface CsvOptions {
+  /** Detected from the start of the file when not given */
+  delimiter?: string;
+  /** Detected from the BOM or the bytes when not given */
+  encoding?: string;
+}
+
+type ReaderState = 'start' | 'unquoted' | 'quoted' | 'quote';
+
+/**
+ * RFC 4180 reader that takes text in chunks, so a record may span any number of them.
+ * Quoted fields can hold delimiters, line breaks and doubled quotes.
+ *
+ * It is lenient where banks are sloppy: a quote inside an unquoted field is kept as text,
+ * spaces before an opening quote are dropped, and CR, LF and CRLF all end a record.
+ * Cells are trimmed and empty ones become `undefined`, and blank lines are skipped.
+ */
+export class CsvReader {
+  private readonly delimiter: string;
+  private row: string[] = [];
+  private field = '';
+  private state: ReaderState = 'start';
+  // The last record ended on CR, so an LF straight after it belongs to the same line break
+  private afterCarriageReturn = false;
+
+  constructor(delimiter = ',') {
+    this.delimiter = delimiter;
+  }
+
+  /**
+   * Read a chunk of text and return the records it completed
+   */
+  push(chunk: string): RawRow[] {
+    const rows: RawRow[] = [];
+
+    for (const char of chunk) {
+      if (this.afterCarriageReturn) {
+        this.afterCarriageReturn = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.state === 'quoted') {
+        if (char === '"') {
+          this.state = 'quote';
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (this.state === 'quote') {
+        if (char === '"') {
+          this.field += '"';
+          this.state = 'quoted';
+          continue;
+        }
+        // Text after a closing quote is kept, like `"abc"def`
+        this.state = 'unquoted';
+      }
+
+      if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.endField();
+        const row = this.endRow();
+        if (row) rows.push(row);
+        this.afterCarriageReturn = char === '\r';
+      } else if (this.state === 'start' && char === '"') {
+        this.field = '';
+        this.state = 'quoted';
+      } else {
+        this.field += char;
+        if (this.state === 'start' && char.trim()) this.state = 'unquoted';
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Finish the last record, which may not end with a line break.
+   * An unclosed quote keeps everything after it as the field's text.
+   */
+  end(): RawRow[] {
+    if (this.state === 'start' && this.field === '' && this.row.length === 0) return [];
+
+    this.endField();
+    const row = this.endRow();
+    return row ? [row] : [];
+  }
+
+  private endField(): void {
+    this.row.push(this.field);
+    this.field = '';
+    this.state = 'start';
+  }
+
+  private endRow(): RawRow | null {
+    const cells = this.row.map((cell) => {
+      const trimmed = cell.trim();
+      return trimmed === '' ? undefined : trimmed;
+    });
+    this.row = [];
+
+    const blank = cells.length === 1 && cells[0] === undefined;
+    return blank ? null : cells;
+  }
 }
 
-function parseCsvLine(line: string): RawRow {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
+/**
+ * Encoding from the byte order mark, or from the zero bytes UTF-16 leaves in ASCII text.
+ * Anything else is read as UTF-8 and falls back to Windows-1252 if that fails.
+ */
+export function detectEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const sample = bytes.subarray(0, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] !== 0) continue;
+    if (i % 2 === 0) evenZeros++;
+    else oddZeros++;
+  }
+
+  const pairs = sample.length / 2;
+  if (pairs > 0 && oddZeros / pairs > 0.3 && evenZeros < oddZeros / 4) return 'utf-16le';
+  if (pairs > 0 && evenZeros / pairs > 0.3 && oddZeros < evenZeros / 4) return 'utf-16be';
+  return 'utf-8';
+}
+
+/**
+ * The delimiter that splits the most sample records into the same number of fields.
+ * Account details above the table have their own shape, so the most common count wins
+ * rather than requiring every record to agree.
+ */
+export function detectDelimiter(sample: string): string {
+  let best: string = DELIMITERS[0];
+  let bestScore = 0;
+
+  for (const delimiter of DELIMITERS) {
+    // The sample may end partway through a record, so only completed records count
+    const records = new CsvReader(delimiter).push(sample).slice(0, SAMPLE_RECORDS);
+
+    const counts = new Map<number, number>();
+    for (const record of records) {
+      if (record.length > 1) counts.set(record.length, (counts.get(record.length) ?? 0) + 1);
+    }
+
+    for (const [fields, matching] of counts) {
+      // Agreeing records matter most; more fields breaks a tie
+      const score = matching * 1000 + fields;
+      if (score > bestScore) {
+        best = delimiter;
+        bestScore = score;
+      }
     }
   }
-  result.push(current.trim());
 
-  return result.map((cell) => {
-    const trimmed = cell.replace(/^"|"$/g, '').trim();
-    return trimmed === '' ? undefined : trimmed;
-  });
+  return best;
+}
+
+function readRows(bytes: Uint8Array, encoding: string, delimiter: string): RawRow[] {
+  const decoder = new TextDecoder(encoding, { fatal: encoding === 'utf-8' });
+  const reader = new CsvReader(delimiter);
+  const rows: RawRow[] = [];
+
+  for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+    const chunk = bytes.subarray(offset, offset + CHUNK_SIZE);
+    for (const row of reader.push(decoder.decode(chunk, { stream: true }))) rows.push(row);
+  }
+  for (const row of reader.push(decoder.decode())) rows.push(row);
+  for (const row of reader.end()) rows.push(row);
+
+  return rows;
+}
+
+export function extractRowsFromCsv(buffer: ArrayBuffer, options: CsvOptions = {}): RawRow[] {
+  const bytes = new Uint8Array(buffer);
+  const encoding = options.encoding ?? detectEncoding(bytes);
+  const delimiter =
+    options.delimiter ?? detectDelimiter(new TextDecoder(encoding).decode(bytes.subarray(0, CHUNK_SIZE)));
+
+  try {
+    return readRows(bytes, encoding, delimiter);
+  } catch (error) {
+    // Not valid UTF-8, which for a bank export usually means Excel saved it as Windows-1252
+    if (encoding === 'utf-8' && !options.encoding && error instanceof TypeError) {
+      return readRows(bytes, 'windows-1252', delimiter);
+    }
+    throw error;
+  }
 }
@@ -21,3 +21,8 @@ export function extractRowsFromExcel(buffer: ArrayBuffer, sheetName?: string): R
     )
   );
 }
+
+export function getExcelSheetNames(buffer: ArrayBuffer): string[] {
+  const workbook = XLSX.read(buffer, { type: 'array', bookSheets: true });
+  return workbook.SheetNames;
+}
@@ -1,3 +1,11 @@
-export { extractRowsFromExcel } from './excel';
+export { extractRowsFromExcel, getExcelSheetNames } from './excel';
 export { extractRowsFromCsv } from './csv';
-export { extractTextFromPdf } from './pdf';
+export { extractRowsFromOfx } from './ofx';
+export {
+  extractTextFromPdf,
+  extractPagesFromPdf,
+  mergePageText,
+  type PdfPage,
+  type PdfTextOptions,
+} from './pdf';
+export { extractRowsFromLayout, type PdfLayout, type PositionedText } from './layout';
@@ -0,0 +1,176 @@
+import type { RawRow } from '~/types';
+import { getMatchIndex } from '~/lib/utils';
+
+/**
+ * A piece of text from a PDF page. Coordinates are in PDF units with y growing up the page.
+ */
+export interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * How a bank lays out the transaction table in its PDF statements
+ */
+export interface PdfLayout {
+  /**
+   * Header patterns, in the order their cells should appear in each row. Each one has to
+   * match whole header cells. Every column on the page needs one, or its text spills into a neighbour.
+   */
+  columns: RegExp[];
+  /** A line whose cell in this column matches starts a new row; other lines continue the row above */
+  rowStart: { column: number; pattern: RegExp };
+  /** A line matching this ends the table on its page, like a footer */
+  end?: RegExp;
+}
+
+interface Line {
+  y: number;
+  items: PositionedText[];
+}
+
+interface ColumnSpan {
+  start: number;
+  end: number;
+}
+
+function groupLines(items: PositionedText[]): Line[] {
+  const lines: Line[] = [];
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= Math.max(2, item.height / 2)) {
+      line.items.push(item);
+    } else {
+      lines.push({ y: item.y, items: [item] });
+    }
+  }
+
+  for (const line of lines) {
+    line.items.sort((a, b) => a.x - b.x);
+  }
+  return lines;
+}
+
+function lineText(line: Line): string {
+  return line.items.map((item) => item.text).join(' ');
+}
+
+/**
+ * Find where each column sits if this line is the table header. Every column title has to
+ * be on the line, each one made of whole items that no other title takes, so a summary line
+ * that only mentions a title in passing ("Opening Balance") isn't mistaken for the header.
+ */
+function findColumns(line: Line, layout: PdfLayout): ColumnSpan[] | null {
+  const texts = line.items.map((item) => item.text.trim());
+  const text = texts.join(' ');
+  const starts = new Map<number, number>();
+  const ends = new Map<number, number>();
+  let offset = 0;
+  texts.forEach((itemText, i) => {
+    starts.set(offset, i);
+    ends.set(offset + itemText.length, i);
+    offset += itemText.length + 1;
+  });
+
+  const claimed = new Set<number>();
+  const spans: ColumnSpan[] = [];
+  for (const pattern of layout.columns) {
+    const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+    let covered: PositionedText[] | null = null;
+
+    for (const match of text.matchAll(global)) {
+      const from = getMatchIndex(match);
+      const first = starts.get(from);
+      const last = ends.get(from + match[0].length);
+      if (first === undefined || last === undefined || last < first) continue;
+
+      const indexes = Array.from({ length: last - first + 1 }, (_, i) => first + i);
+      if (indexes.some((i) => claimed.has(i))) continue;
+
+      indexes.forEach((i) => claimed.add(i));
+      covered = indexes.map((i) => line.items[i]);
+      break;
+    }
+    if (!covered) return null;
+
+    spans.push({
+      start: Math.min(...covered.map((item) => item.x)),
+      end: Math.max(...covered.map((item) => item.x + item.width)),
+    });
+  }
+  return spans;
+}
+
+/**
+ * The column an item overlaps most, or the nearest one when it overlaps none.
+ * Overlap and gap share one scale: a gap is a negative overlap.
+ */
+function columnFor(item: PositionedText, spans: ColumnSpan[]): number {
+  let best = 0;
+  let bestScore = -Infinity;
+
+  spans.forEach((span, index) => {
+    const score = Math.min(item.x + item.width, span.end) - Math.max(item.x, span.start);
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Rebuild table rows from text positions. Columns come from each page's header line
+ * (a page without one reuses the previous page's), and lines that don't start a row,
+ * like wrapped descriptions, are folded into the row above.
+ */
+export function extractRowsFromLayout(pages: PositionedText[][], layout: PdfLayout): RawRow[] {
+  const rows: string[][] = [];
+  let spans: ColumnSpan[] | null = null;
+
+  for (const items of pages) {
+    let inTable = spans !== null;
+    let current: string[] | null = null;
+
+    for (const line of groupLines(items)) {
+      const header = findColumns(line, layout);
+      if (header) {
+        spans = header;
+        inTable = true;
+        current = null;
+        continue;
+      }
+
+      if (!spans || !inTable) continue;
+
+      if (layout.end?.test(lineText(line))) {
+        inTable = false;
+        continue;
+      }
+
+      const cells = layout.columns.map(() => '');
+      for (const item of line.items) {
+        const column = columnFor(item, spans);
+        cells[column] = cells[column] ? `${cells[column]} ${item.text}` : item.text;
+      }
+
+      const { column, pattern } = layout.rowStart;
+      if (pattern.test(cells[column].trim())) {
+        current = cells;
+        rows.push(current);
+      } else if (current) {
+        const row = current;
+        cells.forEach((cell, i) => {
+          if (cell) row[i] = row[i] ? `${row[i]} ${cell}` : cell;
+        });
+      }
+    }
+  }
+
+  return rows.map((row) => row.map((cell) => cell.replace(/\s+/g, ' ').trim()));
+}
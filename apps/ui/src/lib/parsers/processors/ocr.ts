@@ -0,0 +1,108 @@
+import type { Worker as OcrWorker, Block } from 'tesseract.js';
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import coreSimdUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import type { PositionedText } from './layout';
+
+/**
+ * Pixel data of an image embedded in a PDF page
+ */
+export interface PageImage {
+  data: Uint8Array | Uint8ClampedArray;
+  width: number;
+  height: number;
+  channels: 1 | 3 | 4;
+}
+
+export interface OcrResult {
+  text: string;
+  items: PositionedText[];
+}
+
+let ocrWorker: Promise<OcrWorker> | null = null;
+
+// Tesseract loads these with importScripts from its own worker, which needs absolute URLs
+function absolute(url: string): string {
+  return new URL(url, self.location.href).href;
+}
+
+/**
+ * Start Tesseract once and reuse it. The engine, its worker script and the English model
+ * are bundled with the app, so no request leaves our own origin.
+ */
+function getOcrWorker(): Promise<OcrWorker> {
+  ocrWorker ??= (async () => {
+    const [{ createWorker, OEM }, { simd }] = await Promise.all([
+      import('tesseract.js'),
+      import('wasm-feature-detect'),
+    ]);
+
+    const response = await fetch(englishUrl);
+    const english = new Uint8Array(await response.arrayBuffer());
+
+    return createWorker([{ code: 'eng', data: english }], OEM.LSTM_ONLY, {
+      workerPath: absolute(workerUrl),
+      corePath: absolute((await simd()) ? coreSimdUrl : coreUrl),
+      workerBlobURL: false,
+      cacheMethod: 'none',
+    });
+  })().catch((error: unknown) => {
+    ocrWorker = null;
+    throw error;
+  });
+
+  return ocrWorker;
+}
+
+/**
+ * Expand grey or RGB pixels to the RGBA that canvases take
+ */
+export function toRgba({ data, width, height, channels }: PageImage): Uint8ClampedArray<ArrayBuffer> {
+  const rgba = new Uint8ClampedArray(width * height * 4);
+
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    const from = pixel * channels;
+    const to = pixel * 4;
+    rgba[to] = data[from];
+    rgba[to + 1] = data[channels === 1 ? from : from + 1];
+    rgba[to + 2] = data[channels === 1 ? from : from + 2];
+    rgba[to + 3] = channels === 4 ? data[from + 3] : 255;
+  }
+
+  return rgba;
+}
+
+/**
+ * Turn recognised words into positioned text for the layout processor.
+ * Image y grows down the page and PDF y grows up, so it's flipped.
+ */
+export function wordsToItems(blocks: Block[]): PositionedText[] {
+  const items: PositionedText[] = [];
+
+  for (const block of blocks) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          const { x0, y0, x1, y1 } = word.bbox;
+          items.push({ text: word.text, x: x0, y: -y1, width: x1 - x0, height: y1 - y0 });
+        }
+      }
+    }
+  }
+
+  return items;
+}
+
+export async function recognizePageImage(image: PageImage): Promise<OcrResult> {
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available for OCR');
+
+  context.putImageData(new ImageData(toRgba(image), image.width, image.height), 0, 0);
+
+  const worker = await getOcrWorker();
+  const { data } = await worker.recognize(canvas, {}, { text: true, blocks: true });
+
+  return { text: data.text, items: wordsToItems(data.blocks ?? []) };
+}
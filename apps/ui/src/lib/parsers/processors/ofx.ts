@@ -0,0 +1,99 @@
+import type { RawRow } from '~/types';
+
+/**
+ * Extract STMTTRN entries from an OFX or QFX file.
+ * Handles both SGML (OFX 1.x, unclosed leaf tags) and XML (OFX 2.x) files.
+ *
+ * Each row is [DTPOSTED, TRNAMT, FITID, NAME, MEMO, TRNTYPE, balanceAfter].
+ * Amounts are normalised to dot decimals. The balance column is worked back from the
+ * LEDGERBAL of each account's statement and is left empty when it has no ledger balance.
+ */
+export function extractRowsFromOfx(buffer: ArrayBuffer): RawRow[] {
+  const text = new TextDecoder().decode(buffer);
+
+  const bodyStart = text.search(/<OFX>/i);
+  if (bodyStart === -1) {
+    throw new Error('Not a valid OFX file');
+  }
+  const body = text.slice(bodyStart);
+
+  // A file can hold several accounts, each in its own statement with its own ledger balance
+  const statements = [...body.matchAll(/<(STMTRS|CCSTMTRS)>([\s\S]*?)<\/\1>/gi)].map((m) => m[2]);
+  return (statements.length > 0 ? statements : [body]).flatMap(extractStatementRows);
+}
+
+function extractStatementRows(statement: string): RawRow[] {
+  const blocks = [...statement.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)].map((m) => m[1]);
+
+  const rows = blocks.map((block): RawRow => [
+    readTag(block, 'DTPOSTED'),
+    normalizeAmount(readTag(block, 'TRNAMT')),
+    readTag(block, 'FITID'),
+    readTag(block, 'NAME'),
+    readTag(block, 'MEMO'),
+    readTag(block, 'TRNTYPE'),
+    undefined,
+  ]);
+
+  const ledger = statement.match(/<LEDGERBAL>([\s\S]*?)<\/LEDGERBAL>/i);
+  const closing = ledger ? normalizeAmount(readTag(ledger[1], 'BALAMT')) : undefined;
+  if (closing !== undefined) {
+    fillBalances(rows, toKobo(closing));
+  }
+
+  return rows;
+}
+
+function readTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Some exporters write comma decimals ("-12,50"). Thousands separators are not allowed in OFX.
+ */
+function normalizeAmount(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const cleaned = value.replace(/\s/g, '');
+  return /^[+-]?\d*,\d+$/.test(cleaned) ? cleaned.replace(',', '.') : cleaned;
+}
+
+function toKobo(amount: string): number {
+  return Math.round(parseFloat(amount) * 100);
+}
+
+/**
+ * LEDGERBAL is the balance after the latest transaction. Walk back from it in date order
+ * so every row gets the balance it left behind.
+ */
+function fillBalances(rows: RawRow[], closingKobo: number): void {
+  if (isNaN(closingKobo)) return;
+
+  // Sort by DTPOSTED, keeping file order for ties. OFX dates sort correctly as strings.
+  const order = rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => {
+      const dateA = String(a.row[0] ?? '').slice(0, 14);
+      const dateB = String(b.row[0] ?? '').slice(0, 14);
+      return dateA === dateB ? a.index - b.index : dateA < dateB ? -1 : 1;
+    });
+
+  let balance = closingKobo;
+  for (let i = order.length - 1; i >= 0; i--) {
+    const { row } = order[i];
+    row[6] = (balance / 100).toFixed(2);
+
+    const amount = toKobo(String(row[1] ?? '0'));
+    if (!isNaN(amount)) balance -= amount;
+  }
+}
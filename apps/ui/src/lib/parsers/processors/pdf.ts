@@ -1,7 +1,113 @@
-import { extractText, getDocumentProxy } from 'unpdf';
+import { extractImages, getDocumentProxy } from 'unpdf';
+import { recognizePageImage } from './ocr';
+import type { PositionedText } from './layout';
 
-export async function extractTextFromPdf(buffer: ArrayBuffer, password?: string): Promise<string> {
+export interface PdfTextOptions {
+  /** Called as each page starts, and again with `ocr` set when a page turns out to need OCR */
+  onPage?: (page: number, totalPages: number, ocr: boolean) => void;
+  signal?: AbortSignal;
+  /** Read pages without a text layer, like scans, with OCR */
+  ocr?: boolean;
+  /** Read no further than this page, for a quick look at the start of a statement */
+  maxPages?: number;
+}
+
+export interface PdfPage {
+  text: string;
+  items: PositionedText[];
+  /** The text came from OCR and may have misread characters */
+  ocr: boolean;
+}
+
+type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+
+async function readPage(pdf: PdfDocument, pageNumber: number): Promise<PdfPage> {
+  const page = await pdf.getPage(pageNumber);
+  const content = await page.getTextContent();
+
+  let text = '';
+  const items: PositionedText[] = [];
+
+  for (const item of content.items) {
+    if (!('str' in item)) continue;
+    text += item.str + (item.hasEOL ? '\n' : '');
+    if (item.str.trim()) {
+      items.push({
+        text: item.str,
+        x: item.transform[4],
+        y: item.transform[5],
+        width: item.width,
+        height: item.height,
+      });
+    }
+  }
+
+  return { text, items, ocr: false };
+}
+
+/**
+ * OCR the largest image on a page, which on a scanned statement is the scan itself
+ */
+async function readPageImage(pdf: PdfDocument, pageNumber: number): Promise<PdfPage | null> {
+  const images = await extractImages(pdf, pageNumber);
+  if (images.length === 0) return null;
+
+  const scan = images.reduce((largest, image) =>
+    image.width * image.height > largest.width * largest.height ? image : largest
+  );
+  const { text, items } = await recognizePageImage(scan);
+  return { text, items, ocr: true };
+}
+
+/**
+ * Read a PDF one page at a time, keeping both the text and where each piece of it sits.
+ * Reports each page and stops between pages once the signal aborts.
+ */
+export async function extractPagesFromPdf(
+  buffer: ArrayBuffer,
+  password?: string,
+  { onPage, signal, ocr = false, maxPages = Infinity }: PdfTextOptions = {}
+): Promise<PdfPage[]> {
   const pdf = await getDocumentProxy(buffer, { password });
-  const { text } = await extractText(pdf, { mergePages: true });
-  return Array.isArray(text) ? text.join('\n') : text;
+
+  try {
+    const pages: PdfPage[] = [];
+    const lastPage = Math.min(pdf.numPages, maxPages);
+    for (let pageNumber = 1; pageNumber <= lastPage; pageNumber++) {
+      // pdf.js resolves on microtasks, so step out to the event loop to let a cancel message in
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      signal?.throwIfAborted();
+
+      onPage?.(pageNumber, pdf.numPages, false);
+      const page = await readPage(pdf, pageNumber);
+
+      if (ocr && page.items.length === 0) {
+        onPage?.(pageNumber, pdf.numPages, true);
+        pages.push((await readPageImage(pdf, pageNumber)) ?? page);
+      } else {
+        pages.push(page);
+      }
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Merge pages the way unpdf's `mergePages` does, which is what the bank parsers expect
+ */
+export function mergePageText(pages: PdfPage[]): string {
+  return pages
+    .map((page) => page.text)
+    .join('\n')
+    .replace(/\s+/g, ' ');
+}
+
+export async function extractTextFromPdf(
+  buffer: ArrayBuffer,
+  password?: string,
+  options?: PdfTextOptions
+): Promise<string> {
+  return mergePageText(await extractPagesFromPdf(buffer, password, options));
 }
@@ -0,0 +1,60 @@
+import type { BalanceBreak, Reconciliation, Transaction } from '~/types';
+
+/**
+ * Walk a statement's running balance and flag every transaction where
+ * previous balance + amount doesn't land on the printed balance.
+ *
+ * Transactions must be in statement order. Banks print oldest-first or
+ * newest-first, so both directions are tried and the one with fewer
+ * breaks wins. Rows without a balance carry their amount into the next check.
+ */
+export function reconcileBalances(transactions: Transaction[]): Reconciliation {
+  const forward = walkBalances(transactions);
+  const backward = walkBalances([...transactions].reverse());
+
+  const best = backward.breaks.length < forward.breaks.length ? backward : forward;
+
+  if (best.checked === 0) {
+    return { status: 'unavailable', checked: 0, breaks: [] };
+  }
+
+  return {
+    status: best.breaks.length === 0 ? 'reconciled' : 'unreconciled',
+    checked: best.checked,
+    breaks: best.breaks,
+  };
+}
+
+function walkBalances(transactions: Transaction[]): { checked: number; breaks: BalanceBreak[] } {
+  const breaks: BalanceBreak[] = [];
+  let checked = 0;
+  let running: number | null = null;
+
+  for (const tx of transactions) {
+    const actual = tx.meta?.balanceAfter;
+
+    if (running !== null) {
+      running += tx.amount;
+    }
+
+    if (actual === undefined) continue;
+
+    if (running !== null) {
+      checked++;
+      if (running !== actual) {
+        breaks.push({
+          transactionId: tx.id,
+          date: tx.date,
+          description: tx.description,
+          expectedBalance: running,
+          actualBalance: actual,
+        });
+      }
+    }
+
+    // Resync on the printed balance so one bad row is one break, not a cascade
+    running = actual;
+  }
+
+  return { checked, breaks };
+}
@@ -0,0 +1,68 @@
+import type { Currency, ImportReport, ParseError, RawRow, SkippedRow, Transaction } from '~/types';
+import type { ParseResult } from './base';
+import { withOccurrenceIds } from './ids';
+import { reconcileBalances } from './reconcile';
+
+/** Skipped rows listed in a report; the rest are only counted */
+export const SKIPPED_SAMPLE_ROWS = 50;
+
+export interface ReportInput {
+  rows: RawRow[];
+  /** What the parser made of each row, in the same order */
+  results: ParseResult[];
+  currency: Currency;
+  processingTimeMs: number;
+  /** Pages read with OCR because they had no text layer */
+  ocrPages?: number;
+}
+
+function isBlankRow(row: RawRow): boolean {
+  return row.every((cell) => cell === undefined || cell === null || String(cell).trim() === '');
+}
+
+/**
+ * The transactions of a parsed file, in statement order, and the report of what happened to
+ * every row. Failed rows keep their raw content so a bad parse can be diagnosed.
+ */
+export function buildImportReport(input: ReportInput): { transactions: Transaction[]; report: ImportReport } {
+  const { rows, results, currency, processingTimeMs, ocrPages = 0 } = input;
+  const parsed: Transaction[] = [];
+  const failedRows: ParseError[] = [];
+  const skippedRows: SkippedRow[] = [];
+  let skippedCount = 0;
+
+  results.forEach((result, rowIndex) => {
+    if (result.success) {
+      parsed.push(result.transaction);
+    } else if (result.error) {
+      failedRows.push(result.error);
+    } else {
+      skippedCount++;
+      const row = rows[rowIndex];
+      if (!isBlankRow(row) && skippedRows.length < SKIPPED_SAMPLE_ROWS) {
+        skippedRows.push({ rowIndex, row });
+      }
+    }
+  });
+
+  const transactions = withOccurrenceIds(parsed);
+
+  return {
+    transactions,
+    report: {
+      stats: {
+        totalRows: rows.length,
+        successfulTransactions: transactions.length,
+        skippedRows: skippedCount,
+        errors: failedRows.length,
+        processingTimeMs,
+      },
+      failedRows,
+      skippedRows,
+      // Statement order matters here, so reconcile before sorting
+      reconciliation: reconcileBalances(transactions),
+      ...(ocrPages > 0 && { ocrPages }),
+      currency,
+    },
+  };
+}
@@ -146,6 +146,7 @@ export class StandardCharteredParser extends BaseParser {
       description: description || 'Transaction',
       reference: this.generateReference(date, description, 15),
       meta,
+      hasTime: false,
     });
   }
 
@@ -157,8 +158,7 @@ export class StandardCharteredParser extends BaseParser {
     const month = this.parseMonthName(monthStr);
     if (month === undefined) return null;
 
-    const date = new Date(Date.UTC(parseInt(year, 10), month, parseInt(day, 10), 0, 0, 0, 0));
-    return isNaN(date.getTime()) ? null : date;
+    return this.statementDate(parseInt(year, 10), month, parseInt(day, 10));
   }
 
   private parseAmount(amountStr: string, isCredit: boolean): number | null {
@@ -197,6 +197,7 @@ export class SterlingParser extends BaseParser {
       description: narration || 'Transaction',
       reference: this.generateReference(date, narration, 15),
       meta,
+      hasTime: false,
     });
   }
 
@@ -116,16 +116,14 @@ export class UbaParser extends BaseParser {
       }
     }
 
-    if (valueDateStr) {
-      meta.sessionId = valueDateStr;
-    }
-
     return this.createTransaction({
       date,
       amount,
       description: narration || 'Transaction',
       reference: this.generateReference(date, narration, 15),
       meta,
+      valueDate: this.parseDDMMMYYYY(valueDateStr),
+      hasTime: false,
     });
   }
 
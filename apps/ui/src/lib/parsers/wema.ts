@@ -91,6 +91,7 @@ export class WemaParser extends BaseParser {
       description: description || 'Transaction',
       reference: reference || this.generateReference(date, description),
       meta,
+      hasTime: false,
     });
   }
 
@@ -102,8 +103,7 @@ export class WemaParser extends BaseParser {
     const month = this.parseMonthName(monthStr);
     if (month === undefined) return null;
 
-    const date = new Date(parseInt(year, 10), month, parseInt(day, 10));
-    return isNaN(date.getTime()) ? null : date;
+    return this.statementDate(parseInt(year, 10), month, parseInt(day, 10));
   }
 
   private parseAmount(amountStr: string, isCredit: boolean): number | null {
@@ -52,6 +52,7 @@ export class ZenithParser extends BaseParser {
     const description = row[1]?.toString().trim() || '';
     const debitStr = row[2]?.toString().trim() || '';
     const creditStr = row[3]?.toString().trim() || '';
+    const valueDateStr = row[4]?.toString().trim() || '';
     const balanceStr = row[5]?.toString().trim() || '';
 
     const date = this.parseDDMMYYYY(dateStr);
@@ -81,6 +82,8 @@ export class ZenithParser extends BaseParser {
       description: description || 'Transaction',
       reference: this.generateReference(date, description, 15),
       meta,
+      valueDate: this.parseDDMMYYYY(valueDateStr),
+      hasTime: false,
     });
   }
 
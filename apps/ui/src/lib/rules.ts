@@ -0,0 +1,103 @@
+import { categorize } from '~/lib/parsers/categories';
+import type { Transaction, TransactionMeta, TransactionRule } from '~/types';
+
+export type RuleChangeField = 'category' | 'counterparty' | 'tags' | 'excluded';
+
+/**
+ * A stored transaction and what the rules would make of it
+ */
+export interface RuleChange {
+  before: Transaction;
+  after: Transaction;
+  fields: RuleChangeField[];
+}
+
+function contains(value: string | undefined, search: string): boolean {
+  return value !== undefined && value.toLowerCase().includes(search.trim().toLowerCase());
+}
+
+/**
+ * Whether every condition of a rule holds. Counterparty conditions read the name the bank
+ * gave, so renaming a counterparty doesn't stop the rule that renamed it from matching.
+ */
+export function matchesRule(transaction: Transaction, rule: TransactionRule): boolean {
+  const { description, counterparty, amountMin, amountMax, bank, type } = rule.conditions;
+  const meta = transaction.meta ?? {};
+  const amount = Math.abs(transaction.amount);
+
+  if (description && !contains(transaction.description, description)) return false;
+  if (
+    counterparty &&
+    !contains(meta.bankCounterpartyName ?? meta.counterpartyName, counterparty) &&
+    !contains(meta.counterpartyAccount, counterparty)
+  ) {
+    return false;
+  }
+  if (amountMin !== undefined && amount < amountMin) return false;
+  if (amountMax !== undefined && amount > amountMax) return false;
+  if (bank && transaction.bankSource !== bank) return false;
+  if (type && meta.type !== type) return false;
+
+  return true;
+}
+
+/**
+ * The transaction as parsing left it, before any rule touched it
+ */
+function withoutRules(transaction: Transaction): Transaction {
+  const meta: TransactionMeta = { ...transaction.meta };
+  if (meta.bankCounterpartyName !== undefined) meta.counterpartyName = meta.bankCounterpartyName || undefined;
+  delete meta.bankCounterpartyName;
+  delete meta.tags;
+  delete meta.excluded;
+
+  return {
+    ...transaction,
+    spendingCategory: categorize({ amount: transaction.amount, description: transaction.description, meta }),
+    meta,
+  };
+}
+
+/**
+ * Apply the enabled rules to a transaction, in order. Anything an earlier run of the
+ * rules set is undone first, so running them again over stored rows gives the same result.
+ */
+export function applyRules(transaction: Transaction, rules: TransactionRule[]): Transaction {
+  const result = withoutRules(transaction);
+  const meta: TransactionMeta = { ...result.meta };
+
+  for (const rule of rules) {
+    if (!rule.enabled || !matchesRule(result, rule)) continue;
+    const { category, counterpartyName, tag, exclude } = rule.actions;
+
+    if (category) result.spendingCategory = category;
+    if (counterpartyName && counterpartyName !== meta.counterpartyName) {
+      meta.bankCounterpartyName ??= meta.counterpartyName ?? '';
+      meta.counterpartyName = counterpartyName;
+    }
+    if (tag && !meta.tags?.includes(tag)) meta.tags = [...(meta.tags ?? []), tag];
+    if (exclude) meta.excluded = true;
+  }
+
+  return { ...result, meta };
+}
+
+function changedFields(before: Transaction, after: Transaction): RuleChangeField[] {
+  const fields: RuleChangeField[] = [];
+  if (before.spendingCategory !== after.spendingCategory) fields.push('category');
+  if (before.meta?.counterpartyName !== after.meta?.counterpartyName) fields.push('counterparty');
+  if ((before.meta?.tags ?? []).join('\n') !== (after.meta?.tags ?? []).join('\n')) fields.push('tags');
+  if (Boolean(before.meta?.excluded) !== Boolean(after.meta?.excluded)) fields.push('excluded');
+  return fields;
+}
+
+/**
+ * What running the rules over stored transactions would change, leaving out rows it wouldn't
+ */
+export function previewRules(transactions: Transaction[], rules: TransactionRule[]): RuleChange[] {
+  return transactions.flatMap((before) => {
+    const after = applyRules(before, rules);
+    const fields = changedFields(before, after);
+    return fields.length > 0 ? [{ before, after, fields }] : [];
+  });
+}
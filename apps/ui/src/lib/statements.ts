@@ -0,0 +1,211 @@
+import dayjs from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+import { zonedDate } from '~/lib/utils/timezone';
+import type { BankType, Currency, StatementInfo, StatementRecord, Transaction } from '~/types';
+
+dayjs.extend(customParseFormat);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIOD_DATE_FORMATS = [
+  'DD-MMM-YYYY',
+  'DD-MMM-YY',
+  'D-MMM-YYYY',
+  'DD MMM YYYY',
+  'D MMM YYYY',
+  'DD MMMM YYYY',
+  'D MMMM YYYY',
+  'MMM D, YYYY',
+  'MMMM D, YYYY',
+  'DD/MM/YYYY',
+  'D/M/YYYY',
+  'DD-MM-YYYY',
+  'YYYY-MM-DD',
+];
+
+const DATE = String.raw`(\d{1,2}[-/ ][A-Za-z]{3,9}[-/ ]\d{2,4}|[A-Za-z]{3,9} \d{1,2}, \d{4}|\d{1,2}[/-]\d{1,2}[/-]\d{4}|\d{4}-\d{2}-\d{2})`;
+const AMOUNT = String.raw`(?:NGN|USD|GBP|EUR|[₦$£€])?\s*(-?[\d,]+\.\d{2})`;
+const CURRENCY = String.raw`(NGN|USD|GBP|EUR|Naira|(?:US\s*)?Dollars?|Pounds?(?:\s*Sterling)?|Sterling|Euros?)\b`;
+
+const CURRENCY_NAMES: [RegExp, Currency][] = [
+  [/^(?:NGN|Naira)$/i, 'NGN'],
+  [/^(?:USD|(?:US\s*)?Dollars?)$/i, 'USD'],
+  [/^(?:GBP|Pounds?(?:\s*Sterling)?|Sterling)$/i, 'GBP'],
+  [/^(?:EUR|Euros?)$/i, 'EUR'],
+];
+
+const PATTERNS = {
+  accountNumber: /Account\s*(?:Number|No\.?)[:\s]*(\d{10})\b/i,
+  accountName: /Account\s*Name[:\s]+([A-Za-z][A-Za-z .,'&-]*?)(?=\s{2,}|\s+(?:Account|Currency|Period|Address|Branch|Opening|Closing|Statement|Date|BVN|From)\b|[\r\n]|$)/i,
+  period: new RegExp(String.raw`(?:Period|From|Start\s*Date)[:\s]*${DATE}\s*(?:to|-|–|End\s*Date[:\s]*)\s*${DATE}`, 'i'),
+  openingBalance: new RegExp(String.raw`Opening\s*Balance[:\s]*${AMOUNT}`, 'i'),
+  closingBalance: new RegExp(String.raw`Closing\s*Balance[:\s]*${AMOUNT}`, 'i'),
+  // "Currency: USD" in a header, <CURDEF>USD in OFX, or "Domiciliary Account - GBP"
+  currency: new RegExp(String.raw`(?:Currency|<CURDEF>|Domiciliary[A-Za-z ]*?[:\s(-]+)[:\s]*${CURRENCY}`, 'i'),
+};
+
+function parsePeriodDate(value: string): string | undefined {
+  const normalized = value.replace(/\s+/g, ' ').trim();
+  const parsed = dayjs(normalized, PERIOD_DATE_FORMATS, true);
+  return parsed.isValid() ? zonedDate(parsed.year(), parsed.month(), parsed.date()).toISOString() : undefined;
+}
+
+function toCurrency(value: string): Currency | undefined {
+  return CURRENCY_NAMES.find(([pattern]) => pattern.test(value.trim()))?.[1];
+}
+
+function toKobo(value: string): number {
+  return Math.round(parseFloat(value.replace(/,/g, '')) * 100);
+}
+
+/**
+ * Read account details from a statement's header text.
+ * Works on PDF text and on spreadsheet rows joined into lines.
+ */
+export function extractStatementInfo(text: string): StatementInfo {
+  const info: StatementInfo = {};
+
+  const accountNumber = text.match(PATTERNS.accountNumber);
+  if (accountNumber) info.accountNumber = accountNumber[1];
+
+  const accountName = text.match(PATTERNS.accountName);
+  if (accountName) {
+    const name = accountName[1].trim();
+    if (name) info.accountName = name;
+  }
+
+  const period = text.match(PATTERNS.period);
+  if (period) {
+    const start = parsePeriodDate(period[1]);
+    const end = parsePeriodDate(period[2]);
+    if (start && end) {
+      info.periodStart = start;
+      info.periodEnd = end;
+    }
+  }
+
+  const opening = text.match(PATTERNS.openingBalance);
+  if (opening) info.openingBalance = toKobo(opening[1]);
+
+  const closing = text.match(PATTERNS.closingBalance);
+  if (closing) info.closingBalance = toKobo(closing[1]);
+
+  const currency = text.match(PATTERNS.currency);
+  if (currency) info.currency = toCurrency(currency[1]);
+
+  return info;
+}
+
+/**
+ * Transactions oldest first. Rows on the same day without a time keep the order
+ * the statement printed them in, whichever way round the statement runs.
+ */
+export function sortChronologically(transactions: Transaction[]): Transaction[] {
+  if (transactions.length === 0) return [];
+
+  // Stable sort keeps statement order for same-day rows; flip newest-first files before sorting
+  const first = new Date(transactions[0].date).getTime();
+  const last = new Date(transactions[transactions.length - 1].date).getTime();
+  const ordered = first > last ? [...transactions].reverse() : [...transactions];
+  return ordered.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+/**
+ * Fill whatever the header didn't state from the transactions.
+ * Transactions must be in statement order, oldest or newest first.
+ */
+export function summarizeStatement(info: StatementInfo, transactions: Transaction[]): StatementInfo {
+  if (transactions.length === 0) return info;
+
+  const summary = { ...info };
+  const ordered = sortChronologically(transactions);
+
+  if (!summary.periodStart || !summary.periodEnd) {
+    summary.periodStart = ordered[0].date;
+    summary.periodEnd = ordered[ordered.length - 1].date;
+  }
+
+  if (summary.openingBalance === undefined) {
+    const firstWithBalance = ordered.find((tx) => tx.meta?.balanceAfter !== undefined);
+    if (firstWithBalance) {
+      summary.openingBalance = firstWithBalance.meta!.balanceAfter! - firstWithBalance.amount;
+    }
+  }
+
+  if (summary.closingBalance === undefined) {
+    const lastWithBalance = [...ordered].reverse().find((tx) => tx.meta?.balanceAfter !== undefined);
+    if (lastWithBalance) {
+      summary.closingBalance = lastWithBalance.meta!.balanceAfter;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * SHA-256 of a file as hex, used to spot a statement imported twice
+ */
+export async function hashFile(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export interface CoverageRange {
+  start: string;
+  end: string;
+}
+
+export interface AccountCoverage {
+  bankSource: BankType;
+  accountNumber?: string;
+  accountName?: string;
+  currency?: Currency;
+  ranges: CoverageRange[];
+}
+
+/**
+ * Group statements by account and merge their periods.
+ * Periods that overlap or touch become one range, so anything left between ranges is a gap.
+ */
+export function mergeCoverage(statements: StatementRecord[]): AccountCoverage[] {
+  const accounts = new Map<string, AccountCoverage & { periods: CoverageRange[] }>();
+
+  for (const statement of statements) {
+    if (!statement.periodStart || !statement.periodEnd) continue;
+
+    const key = `${statement.bankSource}:${statement.accountNumber ?? ''}`;
+    let account = accounts.get(key);
+    if (!account) {
+      account = {
+        bankSource: statement.bankSource,
+        accountNumber: statement.accountNumber,
+        accountName: statement.accountName,
+        currency: statement.currency,
+        ranges: [],
+        periods: [],
+      };
+      accounts.set(key, account);
+    }
+    account.accountName ??= statement.accountName;
+    account.currency ??= statement.currency;
+    account.periods.push({ start: statement.periodStart, end: statement.periodEnd });
+  }
+
+  return [...accounts.values()].map(({ periods, ...account }) => {
+    const sorted = [...periods].sort((a, b) => a.start.localeCompare(b.start));
+    const ranges: CoverageRange[] = [];
+
+    for (const period of sorted) {
+      const previous = ranges[ranges.length - 1];
+      if (previous && new Date(period.start).getTime() - new Date(previous.end).getTime() <= DAY_MS) {
+        if (period.end > previous.end) previous.end = period.end;
+      } else {
+        ranges.push({ ...period });
+      }
+    }
+
+    return { ...account, ranges };
+  });
+}
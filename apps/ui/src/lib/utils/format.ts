@@ -1,3 +1,7 @@
+import { CURRENCY_SYMBOLS, DEFAULT_CURRENCY } from '~/lib/constants';
+import type { Currency } from '~/types';
+import { zonedParts } from './timezone';
+
 /**
  * Safely extract the index from a regex match.
  * Throws if index is undefined (should never happen for valid matches).
@@ -10,38 +14,38 @@ export function getMatchIndex(match: RegExpMatchArray | RegExpExecArray): number
 }
 
 /**
- * Format amount in kobo to Naira with currency symbol
+ * Format an amount in minor units (kobo, cents, pence) with its currency symbol
  */
-export function formatCurrency(amountInKobo: number): string {
-  const naira = amountInKobo / 100;
-  return new Intl.NumberFormat('en-NG', {
-    style: 'currency',
-    currency: 'NGN',
+export function formatCurrency(amount: number, currency: Currency = DEFAULT_CURRENCY): string {
+  const sign = amount < 0 ? '-' : '';
+  const value = new Intl.NumberFormat('en-NG', {
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
-  }).format(naira);
+  }).format(Math.abs(amount) / 100);
+  return `${sign}${CURRENCY_SYMBOLS[currency]}${value}`;
 }
 
 /**
- * Format amount in kobo to compact form with smart precision
- * e.g., 1.5M, 234K, 12.5K
+ * Format an amount in minor units to compact form with smart precision
+ * e.g., ₦1.5M, $234K, £12.5K
  */
-export function formatCompactCurrency(amountInKobo: number): string {
-  const naira = Math.abs(amountInKobo) / 100;
+export function formatCompactCurrency(amount: number, currency: Currency = DEFAULT_CURRENCY): string {
+  const symbol = CURRENCY_SYMBOLS[currency];
+  const major = Math.abs(amount) / 100;
   
-  if (naira >= 1_000_000_000) {
-    const val = naira / 1_000_000_000;
-    return `₦${val >= 100 ? val.toFixed(0) : val >= 10 ? val.toFixed(1) : val.toFixed(2)}B`;
+  if (major >= 1_000_000_000) {
+    const val = major / 1_000_000_000;
+    return `${symbol}${val >= 100 ? val.toFixed(0) : val >= 10 ? val.toFixed(1) : val.toFixed(2)}B`;
   }
-  if (naira >= 1_000_000) {
-    const val = naira / 1_000_000;
-    return `₦${val >= 100 ? val.toFixed(0) : val >= 10 ? val.toFixed(1) : val.toFixed(2)}M`;
+  if (major >= 1_000_000) {
+    const val = major / 1_000_000;
+    return `${symbol}${val >= 100 ? val.toFixed(0) : val >= 10 ? val.toFixed(1) : val.toFixed(2)}M`;
   }
-  if (naira >= 1_000) {
-    const val = naira / 1_000;
-    return `₦${val >= 100 ? val.toFixed(0) : val >= 10 ? val.toFixed(1) : val.toFixed(1)}K`;
+  if (major >= 1_000) {
+    const val = major / 1_000;
+    return `${symbol}${val >= 100 ? val.toFixed(0) : val >= 10 ? val.toFixed(1) : val.toFixed(1)}K`;
   }
-  return `₦${naira.toFixed(0)}`;
+  return `${symbol}${major.toFixed(0)}`;
 }
 
 /**
@@ -63,38 +67,29 @@ export function millify(value: number): string {
 }
 
 /**
- * Format date as DD/MM/YYYY
+ * Format date as DD/MM/YYYY, on the statement's calendar
  */
 export function formatDate(isoString: string): string {
-  const date = new Date(isoString);
-  const day = date.getDate().toString().padStart(2, '0');
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const year = date.getFullYear();
-  return `${day}/${month}/${year}`;
+  const { year, month, day } = zonedParts(isoString);
+  return `${pad(day)}/${pad(month)}/${year}`;
 }
 
 /**
  * Format date with year for display (short month format)
  */
 export function formatDateWithYear(isoString: string): string {
-  const date = new Date(isoString);
-  const day = date.getDate().toString().padStart(2, '0');
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const year = date.getFullYear();
-  return `${day}/${month}/${year}`;
+  const { year, month, day } = zonedParts(isoString);
+  return `${pad(day)}/${pad(month)}/${year}`;
 }
 
 /**
- * Format date with time as DD/MM/YYYY HH:MM
+ * Format date with time as DD/MM/YYYY HH:MM, in statement time
  */
 export function formatDateTime(isoString: string): string {
-  const date = new Date(isoString);
-  const day = date.getDate().toString().padStart(2, '0');
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const year = date.getFullYear();
-  const hours = date.getHours().toString().padStart(2, '0');
-  const minutes = date.getMinutes().toString().padStart(2, '0');
-  return `${day}/${month}/${year} ${hours}:${minutes}`;
+  const { year, month, day, hour, minute } = zonedParts(isoString);
+  return `${pad(day)}/${pad(month)}/${year} ${pad(hour)}:${pad(minute)}`;
 }
 
-
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
@@ -0,0 +1,88 @@
+import { STATEMENT_TIME_ZONE } from '~/lib/constants';
+
+/**
+ * Wall-clock reading of an instant in a time zone. Months are 1-12.
+ */
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * What a clock in the time zone showed at an instant
+ */
+export function zonedParts(date: Date | string | number, timeZone = STATEMENT_TIME_ZONE): ZonedParts {
+  const parts = formatterFor(timeZone).formatToParts(new Date(date));
+  const read = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: read('year'),
+    month: read('month'),
+    day: read('day'),
+    hour: read('hour'),
+    minute: read('minute'),
+    second: read('second'),
+  };
+}
+
+/**
+ * Milliseconds the time zone is ahead of UTC at an instant
+ */
+function offsetAt(instant: number, timeZone: string): number {
+  const p = zonedParts(instant, timeZone);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The instant a clock in the time zone reads the given date and time.
+ * Takes a 0-based month like `Date.UTC`, and rolls over out-of-range values the same way.
+ */
+export function zonedDate(
+  year: number,
+  monthIndex: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+  timeZone = STATEMENT_TIME_ZONE
+): Date {
+  const wall = Date.UTC(year, monthIndex, day, hour, minute, second);
+  if (isNaN(wall)) return new Date(NaN);
+
+  // The offset can differ either side of a daylight saving change, so check it again at the result
+  const guess = wall - offsetAt(wall, timeZone);
+  return new Date(wall - offsetAt(guess, timeZone));
+}
+
+/**
+ * Calendar day of an instant in the time zone, as YYYY-MM-DD
+ */
+export function zonedDay(date: Date | string | number, timeZone = STATEMENT_TIME_ZONE): string {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
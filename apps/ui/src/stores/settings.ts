@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import type { Theme, ChatMode, ChatModeType, LocalChatMode } from '~/types';
+import type { Theme, ChatMode, ChatModeType, LocalChatMode, ImportTemplate, TransactionRule } from '~/types';
 import { getDb, getSetting, setSetting } from '~/lib/db';
 import { fetchLocalServerModels } from '~/lib/ai/local-server-transport';
 
@@ -7,6 +7,8 @@ interface SettingsState {
   theme: Theme;
   isInitialized: boolean;
   chatMode: ChatMode;
+  importTemplates: ImportTemplate[];
+  rules: TransactionRule[];
 
   init: () => Promise<void>;
   setTheme: (theme: Theme) => void;
@@ -15,6 +17,10 @@ interface SettingsState {
   setLocalServerModel: (model: string) => void;
   testLocalConnection: () => Promise<void>;
   disconnectLocalServer: () => void;
+  saveImportTemplate: (template: ImportTemplate) => void;
+  deleteImportTemplate: (id: string) => void;
+  saveRule: (rule: TransactionRule) => void;
+  deleteRule: (id: string) => void;
 }
 
 const DEFAULT_LOCAL_URL = 'http://localhost:11434/v1';
@@ -32,6 +38,8 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
   theme: 'system',
   isInitialized: false,
   chatMode: { type: 'off' },
+  importTemplates: [],
+  rules: [],
 
   init: async () => {
     if (get().isInitialized) return;
@@ -41,6 +49,8 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     const savedModeType = await getSetting<ChatModeType>(db, 'chatModeType');
     const savedUrl = await getSetting<string>(db, 'localServerUrl');
     const savedModel = await getSetting<string>(db, 'localServerModel');
+    const importTemplates = await getSetting<ImportTemplate[]>(db, 'importTemplates');
+    const rules = await getSetting<TransactionRule[]>(db, 'rules');
 
     let chatMode: ChatMode = { type: 'off' };
 
@@ -53,6 +63,8 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     set({
       theme: theme ?? 'system',
       chatMode,
+      importTemplates: importTemplates ?? [],
+      rules: rules ?? [],
       isInitialized: true,
     });
 
@@ -160,4 +172,39 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
       },
     });
   },
+
+  saveImportTemplate: (template) => {
+    const importTemplates = [
+      ...get().importTemplates.filter((t) => t.id !== template.id),
+      template,
+    ];
+    set({ importTemplates });
+    const db = getDb();
+    setSetting(db, 'importTemplates', importTemplates);
+  },
+
+  deleteImportTemplate: (id) => {
+    const importTemplates = get().importTemplates.filter((t) => t.id !== id);
+    set({ importTemplates });
+    const db = getDb();
+    setSetting(db, 'importTemplates', importTemplates);
+  },
+
+  // Rules keep their place when edited, since the order decides which one wins
+  saveRule: (rule) => {
+    const current = get().rules;
+    const rules = current.some((r) => r.id === rule.id)
+      ? current.map((r) => (r.id === rule.id ? rule : r))
+      : [...current, rule];
+    set({ rules });
+    const db = getDb();
+    setSetting(db, 'rules', rules);
+  },
+
+  deleteRule: (id) => {
+    const rules = get().rules.filter((r) => r.id !== id);
+    set({ rules });
+    const db = getDb();
+    setSetting(db, 'rules', rules);
+  },
 }));
@@ -1,12 +1,78 @@
 import { create } from 'zustand';
-import type { Transaction, ProcessingStatus } from '~/types';
-import { getDb, addTransactions, clearTransactions } from '~/lib/db';
+import type {
+  BankType,
+  Transaction,
+  ProcessingStatus,
+  Reconciliation,
+  StatementInfo,
+  StatementRecord,
+  TransactionRule,
+} from '~/types';
+import {
+  getDb,
+  clearTransactions,
+  deleteBankTransactions,
+  deleteImport,
+  findStatementByHash,
+  getAllTransactions,
+  getBankTransactionsBetween,
+  getProvisionalTransactions,
+  getSetting,
+  saveImport,
+  saveImports,
+  updateRuleFields,
+  type AddTransactionsResult,
+  type ImportBatch,
+} from '~/lib/db';
+import { findLikelyDuplicates, type DuplicateMatch } from '~/lib/parsers/duplicates';
+import { ALERT_WINDOW_DAYS, matchAlerts, parseAlerts, type AlertMessage } from '~/lib/parsers/alerts';
+import { STATEMENT_TIME_ZONE } from '~/lib/constants';
+import { applyRules, previewRules, type RuleChange } from '~/lib/rules';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Where a batch of parsed transactions came from
+ */
+export interface ImportSource {
+  fileName: string;
+  fileHash: string;
+  reconciliation: Reconciliation;
+  statement: StatementInfo;
+}
+
+export interface SaveResult extends AddTransactionsResult {
+  /** Alert transactions the statement recorded for real, and so replaced */
+  replacedAlerts: number;
+}
+
+/**
+ * What came of importing a batch of alerts
+ */
+export interface AlertImportResult {
+  added: number;
+  /** Alerts imported before */
+  existing: number;
+  /** Alerts for transactions a statement already holds */
+  onStatement: number;
+  /** Messages that weren't alerts, or came from no bank we know */
+  skipped: number;
+  /** Alerts we recognised but couldn't read */
+  failed: number;
+}
 
 interface TransactionState {
   status: ProcessingStatus;
 
   setStatus: (status: ProcessingStatus) => void;
-  addParsedTransactions: (transactions: Transaction[]) => Promise<void>;
+  addParsedTransactions: (transactions: Transaction[], source?: ImportSource) => Promise<SaveResult>;
+  addAlerts: (messages: AlertMessage[], fallbackBank: BankType | null, fileName: string) => Promise<AlertImportResult>;
+  findImportedStatement: (fileHash: string) => Promise<StatementRecord | undefined>;
+  findDuplicates: (transactions: Transaction[]) => Promise<DuplicateMatch[]>;
+  previewRuleRun: () => Promise<RuleChange[]>;
+  applyRuleRun: (changes: RuleChange[]) => Promise<void>;
+  undoImport: (importId: string) => Promise<void>;
+  clearBank: (bankSource: string) => Promise<void>;
   clearAll: () => Promise<void>;
 }
 
@@ -17,30 +83,128 @@ export const useTransactionStore = create<TransactionState>((set) => ({
     set({ status });
   },
 
-  addParsedTransactions: async (newTransactions) => {
+  addParsedTransactions: async (newTransactions, source) => {
     if (newTransactions.length === 0) {
       set({
         status: { stage: 'error', message: 'No transactions found in file' },
       });
-      return;
+      return { inserted: 0, existing: 0, replacedAlerts: 0 };
     }
 
     set({
       status: { stage: 'parsing', progress: 95, message: 'Saving...' },
     });
 
-    const db = getDb();
-    await addTransactions(db, newTransactions);
+    const bankSource = newTransactions[0].bankSource;
+    const statementId = crypto.randomUUID();
+    const rules = await getRules();
+    const replacedAlertIds = source ? await findReplacedAlerts(newTransactions, source.statement.accountNumber) : [];
+
+    const result = await saveImport(getDb(), {
+      transactions: newTransactions.map((tx) => applyRules(tx, rules)),
+      statement: source && {
+        ...source.statement,
+        id: statementId,
+        bankSource,
+        fileName: source.fileName,
+        fileHash: source.fileHash,
+        importedAt: Date.now(),
+      },
+      record: source && {
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        fileName: source.fileName,
+        bankSource,
+        reconciliation: source.reconciliation,
+        statementId,
+      },
+      replacedAlertIds,
+    });
+    const replacedAlerts = replacedAlertIds.length;
 
     const dateRange = getDateRange(newTransactions);
 
     set({
       status: {
         stage: 'complete',
-        transactionCount: newTransactions.length,
+        transactionCount: result.inserted,
         dateRange,
       },
     });
+
+    return { ...result, replacedAlerts };
+  },
+
+  addAlerts: async (messages, fallbackBank, fileName) => {
+    const db = getDb();
+    const { transactions, skipped, failed } = parseAlerts(messages, fallbackBank);
+    const result: AlertImportResult = { added: 0, existing: 0, onStatement: 0, skipped, failed };
+    const rules = await getRules();
+
+    const byBank = new Map<BankType, Transaction[]>();
+    for (const tx of transactions) {
+      byBank.set(tx.bankSource, [...(byBank.get(tx.bankSource) ?? []), tx]);
+    }
+
+    const batches: ImportBatch[] = [];
+    for (const [bankSource, alerts] of byBank) {
+      const [from, to] = dateRange(alerts, ALERT_WINDOW_DAYS * DAY_MS);
+      const stored = await getBankTransactionsBetween(db, bankSource, from, to);
+      const onStatement = new Set(
+        matchAlerts(alerts, stored.filter((tx) => !tx.meta?.provisional)).map((match) => match.alert)
+      );
+
+      batches.push({
+        transactions: alerts.filter((alert) => !onStatement.has(alert)).map((alert) => applyRules(alert, rules)),
+        record: {
+          id: crypto.randomUUID(),
+          createdAt: Date.now(),
+          fileName,
+          bankSource,
+          reconciliation: { status: 'unavailable', checked: 0, breaks: [] },
+        },
+      });
+      result.onStatement += onStatement.size;
+    }
+
+    // Every bank's alerts are saved together, so a failure never leaves part of a paste imported
+    for (const saved of await saveImports(db, batches)) {
+      result.added += saved.inserted;
+      result.existing += saved.existing;
+    }
+
+    return result;
+  },
+
+  findImportedStatement: async (fileHash) => {
+    return findStatementByHash(getDb(), fileHash);
+  },
+
+  findDuplicates: async (transactions) => {
+    if (transactions.length === 0) return [];
+
+    const [from, to] = dateRange(transactions, DAY_MS);
+    const existing = await getBankTransactionsBetween(getDb(), transactions[0].bankSource, from, to);
+
+    // Alerts are replaced by the statement rather than offered as duplicates
+    return findLikelyDuplicates(transactions, existing.filter((tx) => !tx.meta?.provisional));
+  },
+
+  previewRuleRun: async () => {
+    const db = getDb();
+    return previewRules(await getAllTransactions(db), await getRules());
+  },
+
+  applyRuleRun: async (changes) => {
+    await updateRuleFields(getDb(), changes.map((change) => change.after));
+  },
+
+  undoImport: async (importId) => {
+    await deleteImport(getDb(), importId);
+  },
+
+  clearBank: async (bankSource) => {
+    await deleteBankTransactions(getDb(), bankSource);
   },
 
   clearAll: async () => {
@@ -52,6 +216,30 @@ export const useTransactionStore = create<TransactionState>((set) => ({
   },
 }));
 
+async function getRules(): Promise<TransactionRule[]> {
+  return (await getSetting<TransactionRule[]>(getDb(), 'rules')) ?? [];
+}
+
+/**
+ * The first and last transaction dates, widened by a margin either side
+ */
+function dateRange(transactions: Transaction[], margin: number): [Date, Date] {
+  const dates = transactions.map((t) => new Date(t.date).getTime());
+  return [new Date(Math.min(...dates) - margin), new Date(Math.max(...dates) + margin)];
+}
+
+/**
+ * The alert transactions a statement now records, to delete so each transaction is counted once
+ */
+async function findReplacedAlerts(transactions: Transaction[], accountNumber?: string): Promise<string[]> {
+  const db = getDb();
+  const [from, to] = dateRange(transactions, ALERT_WINDOW_DAYS * DAY_MS);
+  const alerts = await getProvisionalTransactions(db, transactions[0].bankSource, from, to);
+  if (alerts.length === 0) return [];
+
+  return matchAlerts(alerts, transactions, accountNumber).map((match) => match.alert.id);
+}
+
 function getDateRange(transactions: Transaction[]): string {
   if (transactions.length === 0) return '';
 
@@ -60,7 +248,7 @@ function getDateRange(transactions: Transaction[]): string {
   const maxDate = new Date(Math.max(...dates));
 
   const format = (d: Date) =>
-    d.toLocaleDateString('en-NG', { month: 'short', year: 'numeric' });
+    d.toLocaleDateString('en-NG', { month: 'short', year: 'numeric', timeZone: STATEMENT_TIME_ZONE });
 
   const start = format(minDate);
   const end = format(maxDate);
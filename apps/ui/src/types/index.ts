@@ -3,8 +3,10 @@ export interface Transaction {
   date: string; // ISO string
   createdAt: number; // unix timestamp
   description: string;
-  amount: number; // in kobo (positive = inflow, negative = outflow)
+  amount: number; // in minor units of currency, e.g. kobo (positive = inflow, negative = outflow)
+  currency: Currency;
   category: TransactionCategory;
+  spendingCategory: SpendingCategory;
   bankSource: BankType;
   reference: string;
   
@@ -35,6 +37,21 @@ export interface TransactionMeta {
   
   // Balance after transaction (if available)
   balanceAfter?: number;
+
+  // Date the bank applied the transaction, for statements with a value date column
+  valueDate?: string; // ISO string
+  // Whether the statement gave a time of day; date-only rows sit at midnight
+  hasTime?: boolean;
+
+  // Read from a debit/credit alert rather than a statement, and replaced once the statement is imported
+  provisional?: boolean;
+  // Last digits of the account an alert was for, as the alert masked it
+  accountTail?: string;
+
+  // Set by the user's rules
+  tags?: string[];
+  excluded?: boolean; // left out of analytics totals
+  bankCounterpartyName?: string; // the name the bank gave, when a rule renamed the counterparty
 }
 
 export enum TransactionType {
@@ -63,14 +80,46 @@ export enum BankType {
   StandardChartered = 'standardchartered',
   FCMB = 'fcmb',
   Sterling = 'sterling',
+  Moniepoint = 'moniepoint',
+  Custom = 'custom',
 }
 
+/**
+ * Currencies a statement can be kept in. Domiciliary accounts hold USD, GBP or EUR.
+ */
+export type Currency = 'NGN' | 'USD' | 'GBP' | 'EUR';
+
 export enum TransactionCategory {
   Inflow = 'inflow',
   Outflow = 'outflow',
 }
 
-export type FileFormat = 'pdf' | 'excel' | 'csv';
+/**
+ * What money was spent on, or where it came from. Kept alongside the inflow/outflow direction.
+ */
+export enum SpendingCategory {
+  Food = 'food',
+  Groceries = 'groceries',
+  Transport = 'transport',
+  Rent = 'rent',
+  Utilities = 'utilities',
+  AirtimeData = 'airtime_data',
+  Entertainment = 'entertainment',
+  Betting = 'betting',
+  Shopping = 'shopping',
+  Health = 'health',
+  Education = 'education',
+  Family = 'family',
+  Savings = 'savings',
+  Transfers = 'transfers',
+  Cash = 'cash',
+  Fees = 'fees',
+  Income = 'income',
+  Refunds = 'refunds',
+  Other = 'other',
+}
+
+export type FileFormat = 'pdf' | 'excel' | 'csv' | 'ofx';
 
 export interface BankInfo {
   id: BankType;
@@ -80,16 +129,164 @@ export interface BankInfo {
   requiresPassword?: boolean;
 }
 
+export type AmountStyle = 'split' | 'signed';
+
+/**
+ * Column indexes for a custom import.
+ * Split statements use debit and credit, signed statements use amount.
+ */
+export interface ColumnMapping {
+  date: number;
+  description: number;
+  debit?: number;
+  credit?: number;
+  amount?: number;
+  balance?: number;
+  reference?: number;
+}
+
+/**
+ * A saved column mapping for a bank we don't have a parser for
+ */
+export interface ImportTemplate {
+  id: string;
+  name: string;
+  columns: ColumnMapping;
+  amountStyle: AmountStyle;
+  dateFormat: string; // dayjs format, e.g. DD/MM/YYYY
+  headers: string[]; // normalised header row, used to recognise the next statement
+  createdAt: number;
+}
+
+/**
+ * What a rule looks for. Every condition given must hold; text matches ignore case.
+ */
+export interface RuleConditions {
+  description?: string; // contained in the description
+  counterparty?: string; // contained in the counterparty name or account number
+  amountMin?: number; // minor units, compared with the amount either way round
+  amountMax?: number; // minor units
+  bank?: BankType;
+  type?: TransactionType;
+}
+
+export interface RuleActions {
+  category?: SpendingCategory;
+  counterpartyName?: string;
+  tag?: string;
+  exclude?: boolean;
+}
+
+/**
+ * A rule of the user's own, applied to every import and re-runnable over past transactions.
+ * Rules run in order, so a later rule's category or name wins.
+ */
+export interface TransactionRule {
+  id: string;
+  name: string;
+  conditions: RuleConditions;
+  actions: RuleActions;
+  enabled: boolean;
+  createdAt: number;
+}
+
 export interface ProcessingStats {
   totalRows: number;
   successfulTransactions: number;
+  skippedRows: number;
   errors: number;
   processingTimeMs: number;
 }
 
+/**
+ * Error details from parsing a transaction row
+ */
 export interface ParseError {
   rowIndex: number;
-  error: string;
+  message: string;
+  row?: RawRow;
+}
+
+/**
+ * A row the parser passed over without an error, e.g. a header or summary line
+ */
+export interface SkippedRow {
+  rowIndex: number;
+  row: RawRow;
+}
+
+/**
+ * What happened to every row of an imported file.
+ * Skipped rows are a sample; blank rows are counted but not listed.
+ */
+export interface ImportReport {
+  stats: ProcessingStats;
+  failedRows: ParseError[];
+  skippedRows: SkippedRow[];
+  reconciliation: Reconciliation;
+  /** Pages read with OCR because they had no text layer */
+  ocrPages?: number;
+  /** Currency the statement is kept in */
+  currency?: Currency;
+}
+
+/**
+ * A transaction whose balance doesn't follow from the one before it.
+ * Usually a misparsed amount or a row the parser missed.
+ */
+export interface BalanceBreak {
+  transactionId: string;
+  date: string;
+  description: string;
+  expectedBalance: number; // minor units
+  actualBalance: number; // minor units
+}
+
+export type ReconciliationStatus = 'reconciled' | 'unreconciled' | 'unavailable';
+
+/**
+ * Result of walking the running balance of a statement.
+ * Unavailable when the statement has fewer than two balances to compare.
+ */
+export interface Reconciliation {
+  status: ReconciliationStatus;
+  checked: number;
+  breaks: BalanceBreak[];
+}
+
+/**
+ * One imported file, kept so the app knows how far to trust its totals
+ */
+export interface ImportRecord {
+  id: string;
+  createdAt: number;
+  fileName: string;
+  bankSource: BankType;
+  transactionCount: number;
+  reconciliation: Reconciliation;
+  statementId?: string;
+}
+
+/**
+ * Account details printed on a statement. Anything the header doesn't
+ * state is worked out from the transactions where possible.
+ */
+export interface StatementInfo {
+  accountNumber?: string;
+  accountName?: string;
+  periodStart?: string; // ISO date
+  periodEnd?: string; // ISO date
+  openingBalance?: number; // minor units
+  closingBalance?: number; // minor units
+  currency?: Currency; // NGN unless the statement says otherwise
+}
+
+export interface StatementRecord extends StatementInfo {
+  id: string;
+  bankSource: BankType;
+  fileName: string;
+  fileHash: string; // SHA-256 of the file, hex
+  importedAt: number;
 }
 
 export type RawRow = (string | number | undefined)[];
@@ -148,7 +345,7 @@ export interface MonthlyData {
 }
 
 export interface CategoryData {
-  category: string;
+  category: SpendingCategory;
   amount: number;
   percentage: number;
 }
@@ -1,8 +1,12 @@
 import * as Comlink from 'comlink';
 import { AccessParser } from '~/lib/parsers/access';
 import { FcmbParser } from '~/lib/parsers/fcmb';
+import { FidelityParser } from '~/lib/parsers/fidelity';
+import { FirstBankParser } from '~/lib/parsers/firstbank';
 import { GtbParser } from '~/lib/parsers/gtb';
 import { KudaParser } from '~/lib/parsers/kuda';
+import { MoniepointParser } from '~/lib/parsers/moniepoint';
+import { OfxParser } from '~/lib/parsers/ofx';
 import { OPayParser } from '~/lib/parsers/opay';
 import { PalmPayParser } from '~/lib/parsers/palmpay';
 import { StandardCharteredParser } from '~/lib/parsers/standard-chartered';
@@ -10,17 +14,66 @@ import { SterlingParser } from '~/lib/parsers/sterling';
 import { WemaParser } from '~/lib/parsers/wema';
 import { UbaParser } from '~/lib/parsers/uba';
 import { ZenithParser } from '~/lib/parsers/zenith';
+import { CustomParser, findHeaderRow } from '~/lib/parsers/custom';
+import { detectBank, getFileFormat, type BankCandidate } from '~/lib/parsers/detect';
+import { reconcileBalances } from '~/lib/parsers/reconcile';
+import { buildImportReport } from '~/lib/parsers/report';
+import { extractStatementInfo, sortChronologically, summarizeStatement } from '~/lib/statements';
+import { StatementAnonymizer, buildFixture, statementNames } from '~/lib/parsers/anonymize';
+import { rowsToCSV } from '~/lib/csv';
+import { DEFAULT_CURRENCY } from '~/lib/constants';
+import type { BaseParser, ParseResult as RowResult } from '~/lib/parsers/base';
 import {
   extractRowsFromExcel,
   extractRowsFromCsv,
+  extractRowsFromOfx,
   extractTextFromPdf,
+  extractPagesFromPdf,
+  extractRowsFromLayout,
+  mergePageText,
+  getExcelSheetNames,
+  type PdfTextOptions,
 } from '~/lib/parsers/processors';
-import type { Transaction, RawRow, BankType } from '~/types';
+import type {
+  Transaction,
+  RawRow,
+  BankType,
+  ImportTemplate,
+  ImportReport,
+  StatementInfo,
+} from '~/types';
 
 const CHUNK_SIZE = 1000;
+const DETECTION_SAMPLE_ROWS = 30;
+const PREVIEW_ROWS = 20;
 
 interface ParseResult {
   transactions: Transaction[];
+  report?: ImportReport;
+  statement?: StatementInfo;
+  error?: string;
+  cancelled?: boolean;
+}
+
+interface DetectResult {
+  candidates: BankCandidate[];
+  error?: string;
+  cancelled?: boolean;
+}
+
+interface AnonymizeResult {
+  /** Test file for `src/__tests__/parsers` */
+  fixture?: string;
+  /** The anonymized statement: merged text for PDF banks, CSV rows for the rest */
+  statement?: { content: string; extension: 'txt' | 'csv' };
+  transactions: number;
+  error?: string;
+  cancelled?: boolean;
+}
+
+interface PreviewResult {
+  rows: RawRow[];
+  headerIndex: number;
   error?: string;
 }
 
@@ -29,8 +82,11 @@ type ProgressCallback = (progress: number, message: string) => void;
 const parsers = {
   access: new AccessParser(),
   fcmb: new FcmbParser(),
+  fidelity: new FidelityParser(),
+  firstbank: new FirstBankParser(),
   gtb: new GtbParser(),
   kuda: new KudaParser(),
+  moniepoint: new MoniepointParser(),
   opay: new OPayParser(),
   palmpay: new PalmPayParser(),
   standardchartered: new StandardCharteredParser(),
@@ -40,11 +96,72 @@ const parsers = {
   zenith: new ZenithParser(),
 } as const;
 
+let activeJob: AbortController | null = null;
+
+/**
+ * One job runs at a time; starting another cancels whatever was still running
+ */
+function startJob(): AbortSignal {
+  activeJob?.abort();
+  activeJob = new AbortController();
+  return activeJob.signal;
+}
+
+function pageProgress(onProgress: ProgressCallback): PdfTextOptions['onPage'] {
+  return (page, totalPages, ocr) => {
+    const progress = 5 + Math.round(((page - 1) / totalPages) * 15);
+    onProgress(progress, `Reading page ${page} of ${totalPages}${ocr ? ' with OCR' : ''}...`);
+  };
+}
+
 function isValidBankType(type: string): type is keyof typeof parsers {
   return type in parsers;
 }
 
-const parserApi = {
+export const parserApi = {
+  async detectBank(
+    fileBuffer: ArrayBuffer,
+    fileName: string,
+    password: string | undefined
+  ): Promise<DetectResult> {
+    const signal = startJob();
+
+    try {
+      const format = getFileFormat(fileName);
+      if (!format) {
+        return { candidates: [], error: 'Unsupported file type' };
+      }
+
+      if (format === 'pdf') {
+        // pdf.js takes over the buffer it reads, so the first look gets a copy
+        let text = await extractTextFromPdf(fileBuffer.slice(0), password, { signal });
+        // A scan has no text layer; its first page read with OCR is enough to tell the bank
+        if (!text.trim()) {
+          text = await extractTextFromPdf(fileBuffer, password, { signal, ocr: true, maxPages: 1 });
+        }
+        return { candidates: detectBank({ format, text }) };
+      }
+
+      // OFX files don't carry a layout to recognise; the user picks the bank or it imports as custom
+      if (format === 'ofx') {
+        return { candidates: [] };
+      }
+
+      const text = rowsToText(extractSpreadsheetRows(fileBuffer, format));
+      const sheetNames = format === 'excel' ? getExcelSheetNames(fileBuffer) : undefined;
+
+      return { candidates: detectBank({ format, text, sheetNames }) };
+    } catch (error) {
+      if (signal.aborted) {
+        return { candidates: [], error: 'Cancelled', cancelled: true };
+      }
+      return {
+        candidates: [],
+        error: error instanceof Error ? error.message : 'Failed to read file',
+      };
+    }
+  },
+
   async parseFile(
     fileBuffer: ArrayBuffer,
     fileName: string,
@@ -52,10 +169,31 @@ const parserApi = {
     password: string | undefined,
     onProgress: ProgressCallback
   ): Promise<ParseResult> {
+    const startedAt = performance.now();
+    const signal = startJob();
+
     try {
       onProgress(5, 'Reading file...');
 
-      let rows = await extractRows(fileBuffer, fileName, bankType, password);
+      if (getFileFormat(fileName) === 'ofx') {
+        const rows = extractRowsFromOfx(fileBuffer);
+        onProgress(20, `Found ${rows.length} rows...`);
+        return await parseRows(
+          new OfxParser(bankType),
+          rows,
+          onProgress,
+          signal,
+          startedAt,
+          new TextDecoder().decode(fileBuffer)
+        );
+      }
+
+      const extracted = await extractRows(fileBuffer, fileName, bankType, password, {
+        signal,
+        ocr: true,
+        onPage: pageProgress(onProgress),
+      });
+      let rows = extracted.rows;
 
       if (bankType === 'palmpay' && !fileName.toLowerCase().endsWith('.pdf')) {
         rows = PalmPayParser.preprocessRows(rows);
@@ -66,101 +204,292 @@ const parserApi = {
       if (!isValidBankType(bankType)) {
         return { transactions: [], error: `Unsupported bank: ${bankType}` };
       }
-      const parser = parsers[bankType];
 
-      const transactions: Transaction[] = [];
-      const totalRows = rows.length;
+      return await parseRows(
+        parsers[bankType],
+        rows,
+        onProgress,
+        signal,
+        startedAt,
+        extracted.text,
+        extracted.ocrPages
+      );
+    } catch (error) {
+      if (signal.aborted) {
+        return { transactions: [], error: 'Cancelled', cancelled: true };
+      }
+      return {
+        transactions: [],
+        error: error instanceof Error ? error.message : 'Failed to parse file',
+      };
+    }
+  },
 
-      for (let i = 0; i < totalRows; i += CHUNK_SIZE) {
-        const chunk = rows.slice(i, i + CHUNK_SIZE);
+  async previewRows(fileBuffer: ArrayBuffer, fileName: string): Promise<PreviewResult> {
+    try {
+      const format = getFileFormat(fileName);
+      if (format !== 'excel' && format !== 'csv') {
+        return { rows: [], headerIndex: -1, error: 'Custom import only supports CSV and Excel files' };
+      }
 
-        for (let j = 0; j < chunk.length; j++) {
-          const transaction = parser.parseTransaction(chunk[j]);
+      const rows = extractSpreadsheetRows(fileBuffer, format).slice(0, PREVIEW_ROWS);
+      return { rows, headerIndex: findHeaderRow(rows) };
+    } catch (error) {
+      return {
+        rows: [],
+        headerIndex: -1,
+        error: error instanceof Error ? error.message : 'Failed to read file',
+      };
+    }
+  },
 
-          if (transaction) {
-            transactions.push(transaction);
-          }
-        }
+  async parseWithTemplate(
+    fileBuffer: ArrayBuffer,
+    fileName: string,
+    template: ImportTemplate,
+    onProgress: ProgressCallback
+  ): Promise<ParseResult> {
+    const startedAt = performance.now();
+    const signal = startJob();
 
-        const progress = Math.min(90, 20 + Math.round(((i + chunk.length) / totalRows) * 70));
-        onProgress(progress, `Processing ${Math.min(i + CHUNK_SIZE, totalRows)} of ${totalRows} rows...`);
-      }
+    try {
+      onProgress(5, 'Reading file...');
 
-      if (transactions.length === 0) {
-        return { transactions: [], error: 'No transactions found in file' };
+      const format = getFileFormat(fileName);
+      if (format !== 'excel' && format !== 'csv') {
+        return { transactions: [], error: 'Custom import only supports CSV and Excel files' };
       }
 
-      transactions.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+      const rows = extractSpreadsheetRows(fileBuffer, format);
 
-      onProgress(95, 'Finalizing...');
+      onProgress(20, `Found ${rows.length} rows...`);
 
-      return { transactions };
+      return await parseRows(new CustomParser(template), rows, onProgress, signal, startedAt, rowsToText(rows));
     } catch (error) {
+      if (signal.aborted) {
+        return { transactions: [], error: 'Cancelled', cancelled: true };
+      }
       return {
         transactions: [],
         error: error instanceof Error ? error.message : 'Failed to parse file',
       };
     }
   },
+
+  /**
+   * Read a statement the way an import does and replace its personal details, for sharing
+   * in a bug report or as a parser test
+   */
+  async anonymizeFile(
+    fileBuffer: ArrayBuffer,
+    fileName: string,
+    bankType: BankType,
+    password: string | undefined,
+    onProgress: ProgressCallback
+  ): Promise<AnonymizeResult> {
+    const signal = startJob();
+
+    try {
+      if (!isValidBankType(bankType)) {
+        return { transactions: 0, error: `Unsupported bank: ${bankType}` };
+      }
+      if (getFileFormat(fileName) === 'ofx') {
+        return { transactions: 0, error: 'OFX files are not read by a bank parser' };
+      }
+
+      onProgress(5, 'Reading file...');
+      const { rows, text } = await extractRows(fileBuffer, fileName, bankType, password, {
+        signal,
+        ocr: true,
+        onPage: pageProgress(onProgress),
+      });
+
+      onProgress(60, 'Anonymizing...');
+      const parser = parsers[bankType];
+      const { accountName } = extractStatementInfo(text);
+      const anonymizer = new StatementAnonymizer({
+        seed: crypto.getRandomValues(new Uint32Array(1))[0],
+        names: statementNames(
+          rows.map((row, i) => parser.parseTransactionSafe(row, i)),
+          accountName
+        ),
+      });
+
+      const fromPdfText = PDF_ROW_EXTRACTORS[bankType];
+      if (fromPdfText) {
+        const anonymized = anonymizer.text(text);
+        const transactions = parseAll(parser, fromPdfText(anonymized));
+        return {
+          fixture: buildFixture({
+            bank: bankType,
+            text: anonymized,
+            transactions: transactions.length,
+            reconciliation: reconcileBalances(transactions).status,
+          }),
+          statement: { content: anonymized, extension: 'txt' },
+          transactions: transactions.length,
+        };
+      }
+
+      const anonymized = rows.map((row) => anonymizer.row(row));
+      const transactions = parseAll(parser, anonymized);
+      return {
+        fixture: buildFixture({
+          bank: bankType,
+          rows: anonymized,
+          transactions: transactions.length,
+          reconciliation: reconcileBalances(transactions).status,
+        }),
+        statement: { content: rowsToCSV(anonymized), extension: 'csv' },
+        transactions: transactions.length,
+      };
+    } catch (error) {
+      if (signal.aborted) {
+        return { transactions: 0, error: 'Cancelled', cancelled: true };
+      }
+      return {
+        transactions: 0,
+        error: error instanceof Error ? error.message : 'Failed to read file',
+      };
+    }
+  },
+
+  /**
+   * Stop the running job at its next page or chunk of rows; it resolves with `cancelled: true`
+   */
+  cancel(): void {
+    activeJob?.abort();
+  },
 };
 
-async function extractRows(buffer: ArrayBuffer, fileName: string, bankType: BankType, password?: string): Promise<RawRow[]> {
-  const ext = fileName.toLowerCase();
-  
-  if (bankType === 'access') {
-    const text = await extractTextFromPdf(buffer);
-    return AccessParser.extractRowsFromPdfText(text);
-  }
-  
-  if (bankType === 'wema') {
-    const text = await extractTextFromPdf(buffer);
-    return WemaParser.extractRowsFromPdfText(text);
-  }
-  
-  if (bankType === 'palmpay') {
-    const text = await extractTextFromPdf(buffer);
-    return PalmPayParser.extractRowsFromPdfText(text);
-  }
-  
-  if (bankType === 'zenith') {
-    const text = await extractTextFromPdf(buffer);
-    return ZenithParser.extractRowsFromPdfText(text);
-  }
-  
-  if (bankType === 'fcmb') {
-    const text = await extractTextFromPdf(buffer);
-    return FcmbParser.extractRowsFromPdfText(text);
-  }
-  
-  if (bankType === 'standardchartered') {
-    const text = await extractTextFromPdf(buffer, password);
-    return StandardCharteredParser.extractRowsFromPdfText(text);
-  }
-  
-  if (bankType === 'gtb') {
-    const text = await extractTextFromPdf(buffer, password);
-    return GtbParser.extractRowsFromPdfText(text);
+async function parseRows(
+  parser: BaseParser,
+  rows: RawRow[],
+  onProgress: ProgressCallback,
+  signal: AbortSignal,
+  startedAt: number,
+  headerText = '',
+  ocrPages = 0
+): Promise<ParseResult> {
+  // Rows rarely say what currency they're in, so the whole statement takes the header's
+  const info = extractStatementInfo(headerText);
+  const currency = info.currency ?? DEFAULT_CURRENCY;
+  parser.currency = currency;
+
+  const results: RowResult[] = [];
+  const totalRows = rows.length;
+
+  for (let i = 0; i < totalRows; i += CHUNK_SIZE) {
+    // Yield between chunks so a cancel message can get through
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    signal.throwIfAborted();
+
+    const chunk = rows.slice(i, i + CHUNK_SIZE);
+    chunk.forEach((row, j) => results.push(parser.parseTransactionSafe(row, i + j)));
+
+    const progress = Math.min(90, 20 + Math.round(((i + chunk.length) / totalRows) * 70));
+    onProgress(progress, `Processing ${Math.min(i + CHUNK_SIZE, totalRows)} of ${totalRows} rows...`);
   }
-  
-  if (bankType === 'uba') {
-    const text = await extractTextFromPdf(buffer, password);
-    return UbaParser.extractRowsFromPdfText(text);
+
+  const { transactions, report } = buildImportReport({
+    rows,
+    results,
+    currency,
+    processingTimeMs: Math.round(performance.now() - startedAt),
+    ocrPages,
+  });
+
+  if (transactions.length === 0) {
+    return { transactions: [], report, error: 'No transactions found in file' };
   }
-  
-  if (bankType === 'sterling') {
-    const text = await extractTextFromPdf(buffer, password);
-    return SterlingParser.extractRowsFromPdfText(text);
+
+  const statement = summarizeStatement({ ...info, currency }, transactions);
+
+  // Newest first, with same-day rows in reverse statement order so the latest comes first
+  const newestFirst = sortChronologically(transactions).reverse();
+
+  onProgress(95, 'Finalizing...');
+
+  return { transactions: newestFirst, report, statement };
+}
+
+/**
+ * Transactions in statement order, for checks that don't need a full import report
+ */
+function parseAll(parser: BaseParser, rows: RawRow[]): Transaction[] {
+  return rows
+    .map((row, i) => parser.parseTransactionSafe(row, i))
+    .flatMap((result) => (result.success ? [result.transaction] : []));
+}
+
+function extractSpreadsheetRows(buffer: ArrayBuffer, format: 'excel' | 'csv'): RawRow[] {
+  return format === 'excel' ? extractRowsFromExcel(buffer) : extractRowsFromCsv(buffer);
+}
+
+/**
+ * How each PDF-only bank pulls rows out of merged statement text
+ */
+const PDF_ROW_EXTRACTORS: Partial<Record<keyof typeof parsers, (text: string) => RawRow[]>> = {
+  access: (text) => AccessParser.extractRowsFromPdfText(text),
+  wema: (text) => WemaParser.extractRowsFromPdfText(text),
+  palmpay: (text) => PalmPayParser.extractRowsFromPdfText(text),
+  zenith: (text) => ZenithParser.extractRowsFromPdfText(text),
+  fcmb: (text) => FcmbParser.extractRowsFromPdfText(text),
+  standardchartered: (text) => StandardCharteredParser.extractRowsFromPdfText(text),
+  gtb: (text) => GtbParser.extractRowsFromPdfText(text),
+  uba: (text) => UbaParser.extractRowsFromPdfText(text),
+  fidelity: (text) => FidelityParser.extractRowsFromPdfText(text),
+  firstbank: (text) => FirstBankParser.extractRowsFromPdfText(text),
+  sterling: (text) => SterlingParser.extractRowsFromPdfText(text),
+};
+
+/**
+ * Extract rows for a bank, along with the text its statement details are read from.
+ * Parsers with a `pdfLayout` get rows rebuilt from text positions, falling back to
+ * their text extractor when no table header turns up. Scanned pages are read with OCR.
+ */
+async function extractRows(
+  buffer: ArrayBuffer,
+  fileName: string,
+  bankType: BankType,
+  password?: string,
+  pdfOptions?: PdfTextOptions
+): Promise<{ rows: RawRow[]; text: string; ocrPages?: number }> {
+  const ext = fileName.toLowerCase();
+  const bank = isValidBankType(bankType) ? bankType : undefined;
+  const fromPdfText = bank && PDF_ROW_EXTRACTORS[bank];
+
+  if (bank && fromPdfText) {
+    const pages = await extractPagesFromPdf(buffer, password, pdfOptions);
+    const text = mergePageText(pages);
+    const ocrPages = pages.filter((page) => page.ocr).length;
+    const layout = parsers[bank].pdfLayout;
+
+    if (layout) {
+      const rows = extractRowsFromLayout(pages.map((page) => page.items), layout);
+      if (rows.length > 0) return { rows, text, ocrPages };
+    }
+
+    return { rows: fromPdfText(text), text, ocrPages };
   }
-  
+
+  let rows: RawRow[];
   if (bankType === 'opay') {
-    return extractRowsFromExcel(buffer, 'Wallet Account Transactions');
-  }
-  
-  if (ext.endsWith('.xlsx') || ext.endsWith('.xls')) {
-    return extractRowsFromExcel(buffer);
+    rows = extractRowsFromExcel(buffer, 'Wallet Account Transactions');
+  } else if (ext.endsWith('.xlsx') || ext.endsWith('.xls')) {
+    rows = extractRowsFromExcel(buffer);
+  } else {
+    rows = extractRowsFromCsv(buffer);
   }
-  
-  return extractRowsFromCsv(buffer);
+
+  return { rows, text: rowsToText(rows) };
+}
+
+function rowsToText(rows: RawRow[]): string {
+  return rows
+    .slice(0, DETECTION_SAMPLE_ROWS)
+    .map((row) => row.filter((cell) => cell !== undefined).join(' '))
+    .join('\n');
 }
 
 Comlink.expose(parserApi);